@@ -0,0 +1,19 @@
+import path from 'path'
+import { MySQLAnalyzer, getSchemaFromDDLFile } from '../src'
+
+async function main() {
+  const analyzer = new MySQLAnalyzer({
+    schema: await getSchemaFromDDLFile(path.join(__dirname, '../data/data.sql'))
+  })
+
+  const diagnostics = analyzer.analyze('SELECT * FROM users WHERE email = "some-email-address"')
+  console.log(diagnostics)
+}
+
+main()
+  .then(() => {
+    process.exit(0)
+  })
+  .catch(err => {
+    console.error(err)
+  })
@@ -0,0 +1,197 @@
+import { promises as fs } from 'fs'
+import { Readable } from 'stream'
+import os from 'os'
+import path from 'path'
+import { runCLI } from '../cli'
+
+const schemaPath = path.join(__dirname, '../../data/data.sql')
+
+let directory: string
+
+async function run(args: string[], input = ''): Promise<{ code: number; stdout: string; stderr: string }> {
+  let stdout = ''
+  let stderr = ''
+  const code = await runCLI(args, {
+    stdin: Readable.from([input]),
+    stdout: { write: (text: string): string => (stdout += text) },
+    stderr: { write: (text: string): string => (stderr += text) }
+  })
+  return { code, stdout, stderr }
+}
+
+beforeAll(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'ts-mysql-analyzer-'))
+  await fs.mkdir(path.join(directory, 'nested'))
+  await fs.writeFile(path.join(directory, 'valid.sql'), 'SELECT * FROM users;\n')
+  await fs.writeFile(path.join(directory, 'nested', 'invalid.sql'), 'SELECT * FROM users;\nSELECT * FROM user;\n')
+  await fs.writeFile(path.join(directory, 'nested', 'syntax.sql'), 'SELT * FROM users')
+  await fs.writeFile(path.join(directory, 'nested', 'notes.txt'), 'not sql')
+  await fs.writeFile(path.join(directory, 'nested', 'users.ts'), 'const query = sql`SELECT * FROM user`\n')
+})
+
+afterAll(async () => {
+  await fs.rmdir(directory, { recursive: true })
+})
+
+describe('runCLI', () => {
+  it('reports diagnostics with their file, line and column', async () => {
+    const file = path.join(directory, 'nested', 'invalid.sql')
+    const { code, stdout } = await run(['--schema', schemaPath, file])
+    expect(stdout).toBe(
+      `${file}:2:15 warning 1004 Table 'user' does not exist in database 'test'. Did you mean 'users'?\n`
+    )
+    expect(code).toBe(0)
+  })
+
+  it('exits with 1 when errors are found', async () => {
+    const { code, stdout } = await run([path.join(directory, 'nested', 'syntax.sql')])
+    expect(stdout).toContain(':1:1 error 1002 ')
+    expect(code).toBe(1)
+  })
+
+  it('searches directories for .sql, TypeScript and JavaScript files', async () => {
+    const { stdout } = await run(['--schema', schemaPath, '--format', 'json', directory])
+    const results: { file: string; diagnostics: { code: number }[] }[] = JSON.parse(stdout)
+    expect(results.map(result => path.relative(directory, result.file))).toEqual([
+      path.join('nested', 'invalid.sql'),
+      path.join('nested', 'syntax.sql'),
+      path.join('nested', 'users.ts'),
+      'valid.sql'
+    ])
+    expect(results[2].diagnostics).toMatchObject([{ code: 1004 }])
+  })
+
+  it('expands glob patterns', async () => {
+    const { stdout } = await run(['--format=json', `${directory}/**/in*.sql`])
+    const files = JSON.parse(stdout).map((result: { file: string }) => path.relative(directory, result.file))
+    expect(files).toEqual([path.join('nested', 'invalid.sql')])
+  })
+
+  it('reports diagnostics in other formats', async () => {
+    const { stdout } = await run(['--schema', schemaPath, '--format', 'sarif'], 'SELECT nme FROM users')
+    expect(JSON.parse(stdout).runs[0].results).toMatchObject([{ ruleId: 'missing-column', level: 'warning' }])
+    expect((await run(['--format', 'xml'])).stderr).toBe("Unknown format 'xml'.\n")
+  })
+
+  it('reads from stdin', async () => {
+    const { stdout } = await run(['--schema', schemaPath], 'SELECT nme FROM users')
+    expect(stdout).toBe("<stdin>:1:8 warning 1005 Column 'nme' does not exist in table 'users'. Did you mean 'name'?\n")
+  })
+
+  it('reports errors only with --quiet', async () => {
+    const { stdout } = await run(['--quiet', '--schema', schemaPath], 'SELECT nme FROM users')
+    expect(stdout).toBe('')
+  })
+
+  it('applies the DDL of a file with --apply-ddl', async () => {
+    const text = 'CREATE TABLE tmp (id INT); SELECT id FROM tmp'
+    expect((await run(['--schema', schemaPath], text)).stdout).toContain("Table 'tmp' does not exist")
+    expect((await run(['--apply-ddl', '--schema', schemaPath], text)).stdout).toBe('')
+  })
+
+  it('fails when there are too many warnings', async () => {
+    const { code, stderr } = await run(['--max-warnings', '0', '--schema', schemaPath], 'SELECT nme FROM users')
+    expect(stderr).toBe('Too many warnings (1). Maximum allowed is 0.\n')
+    expect(code).toBe(1)
+  })
+
+  it('reports only the diagnostics that are not in the baseline', async () => {
+    const baseline = path.join(directory, 'baseline.json')
+    const file = path.join(directory, 'nested', 'invalid.sql')
+    expect(await run(['--schema', schemaPath, '--baseline', baseline, '--write-baseline', file])).toEqual({
+      code: 0,
+      stdout: '',
+      stderr: ''
+    })
+    expect(JSON.parse(await fs.readFile(baseline, 'utf8'))).toEqual({
+      version: 1,
+      files: {
+        'nested/invalid.sql': [
+          { code: 1004, message: "Table 'user' does not exist in database 'test'. Did you mean 'users'?", count: 1 }
+        ]
+      }
+    })
+    expect((await run(['--schema', schemaPath, '--baseline', baseline, file])).code).toBe(0)
+
+    const { stdout } = await run(['--schema', schemaPath, '--baseline', baseline, file, '-'], 'SELECT * FROM user')
+    expect(stdout).toContain('<stdin>:1:15 warning 1004 ')
+    expect(stdout).not.toContain('invalid.sql')
+  })
+
+  it('fails when the baseline does not exist', async () => {
+    const { code, stderr } = await run(['--baseline', path.join(directory, 'missing.json')], 'SELECT 1')
+    expect(stderr).toContain("Create it with '--write-baseline'.")
+    expect(code).toBe(2)
+  })
+
+  it('reports the queries of a log grouped by fingerprint', async () => {
+    const log = [
+      '# Query_time: 0.2  Lock_time: 0.0 Rows_sent: 1  Rows_examined: 10',
+      'use test;',
+      'SELECT * FROM user WHERE id = 1;',
+      '# Query_time: 0.3  Lock_time: 0.0 Rows_sent: 1  Rows_examined: 20',
+      'SELECT * FROM user WHERE id = 2;'
+    ].join('\n')
+    const { code, stdout } = await run(['--schema', schemaPath, '--log', '-'], log)
+    expect(stdout).toMatch(/^#1 [0-9a-f]{16} on test: 2 queries, 0\.500s total, 0\.300s max, 30 rows examined\n/)
+    expect(stdout).toContain(
+      "  SELECT * FROM user WHERE id = ?\n  1:15 warning 1004 Table 'user' does not exist in database 'test'."
+    )
+    expect(code).toBe(0)
+
+    expect((await run(['--log', '-', '--format', 'sarif'], log)).code).toBe(2)
+  })
+
+  it('checks a query against its EXPLAIN plan', async () => {
+    const plan = path.join(directory, 'plan.json')
+    const table = '{ "table_name": "users", "access_type": "ALL", "rows_examined_per_scan": 2000 }'
+    await fs.writeFile(plan, `{ "query_block": { "select_id": 1, "table": ${table} } }`)
+    const { code, stdout } = await run(['--explain', plan, '-'], 'SELECT * FROM users')
+    expect(stdout).toBe(
+      "<stdin>:1:15 warning 1031 Table 'users' is read in full (about 2000 rows) because no index can be used.\n"
+    )
+    expect(code).toBe(0)
+
+    const { stderr } = await run(['--explain', path.join(directory, 'valid.sql'), '-'], 'SELECT 1')
+    expect(stderr).toBe(
+      `EXPLAIN plan '${path.join(
+        directory,
+        'valid.sql'
+      )}' is invalid: The text is not the output of EXPLAIN FORMAT=JSON.\n`
+    )
+  })
+
+  it('writes the types of the queries', async () => {
+    const types = path.join(directory, 'types.ts')
+    const { code } = await run(['--schema', schemaPath, '--types', types, path.join(directory, 'valid.sql')])
+    expect(code).toBe(0)
+    expect(await fs.readFile(types, 'utf8')).toContain('export interface ValidRow {')
+  })
+
+  it('does not write types for invalid queries', async () => {
+    const types = path.join(directory, 'invalid-types.ts')
+    const file = path.join(directory, 'nested', 'users.ts')
+    const { code, stderr } = await run(['--quiet', '--schema', schemaPath, '--types', types, file])
+    expect(stderr).toBe(`Types were not written to '${types}' because the queries have problems.\n`)
+    expect(code).toBe(1)
+    await expect(fs.access(types)).rejects.toThrow()
+  })
+
+  it('does not write types for files of more than one statement', async () => {
+    const types = path.join(directory, 'multiple-types.ts')
+    const file = path.join(directory, 'nested', 'invalid.sql')
+    const { code, stderr } = await run(['--quiet', '--schema', schemaPath, '--types', types, file])
+    expect(stderr).toBe("Query 'invalid' has 2 statements, but types can only be generated for one.\n")
+    expect(code).toBe(2)
+    await expect(fs.access(types)).rejects.toThrow()
+  })
+
+  it('exits with 2 for invalid usage', async () => {
+    expect(await run(['--format', 'xml'])).toMatchObject({ code: 2, stderr: "Unknown format 'xml'.\n" })
+    expect(await run([path.join(directory, 'missing.sql')])).toMatchObject({ code: 2 })
+    expect(await run(['--types', 'types.ts'])).toMatchObject({
+      code: 2,
+      stderr: "Option '--types' requires '--schema'.\n"
+    })
+  })
+})
@@ -0,0 +1,64 @@
+import { MySQLAnalyzer, DiagnosticCode, extractQueries, getSchemaFromDDLFile } from '../'
+import { Schema } from 'ts-mysql-schema'
+import path from 'path'
+
+let schema: Schema
+
+beforeAll(async () => {
+  schema = await getSchemaFromDDLFile(path.join(__dirname, '../../data/data.sql'))
+})
+
+describe('extractQueries', () => {
+  it('extracts tagged template literals', () => {
+    const source = 'const id = 1\nconst query = sql`SELECT * FROM users WHERE id = ${id}`'
+    expect(extractQueries('file.ts', source)).toMatchObject([{ text: 'SELECT * FROM users WHERE id = ?' }])
+  })
+
+  it('extracts the first argument of query calls', () => {
+    const source = `connection.query('SELECT * FROM users', callback)\ndb.execute("SELECT 1")\nlog('SELECT 2')`
+    expect(extractQueries('file.js', source).map(q => q.text)).toEqual(['SELECT * FROM users', 'SELECT 1'])
+  })
+
+  it('extracts configured tags and functions', () => {
+    const source = 'Prisma.sql`SELECT 1`\nsql`SELECT 2`\nrepository.raw("SELECT 3")\nknex.raw("SELECT 4")'
+    const queries = extractQueries('file.ts', source, { tags: ['Prisma.sql'], functions: ['repository.raw'] })
+    expect(queries.map(q => q.text)).toEqual(['SELECT 1', 'SELECT 3'])
+  })
+
+  it('decodes escape sequences', () => {
+    const queries = extractQueries('file.ts', `query('SELECT \\'a\\'\\n')`)
+    expect(queries).toMatchObject([{ text: "SELECT 'a'\n" }])
+  })
+})
+
+describe('MySQLAnalyzer.analyzeSourceFile', () => {
+  it('maps diagnostics to positions in the source file', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    const source = [
+      'async function getUser(id: string) {',
+      '  return sql`SELECT * FROM user WHERE id = ${id}`',
+      '}',
+      "connection.query('SELEC 1')"
+    ].join('\n')
+    expect(analyzer.analyzeSourceFile('file.ts', source)).toMatchObject([
+      {
+        code: DiagnosticCode.MissingTable,
+        start: 64,
+        stop: 67,
+        startLine: 2,
+        startColumn: 28,
+        fixes: [{ edits: [{ start: 64, stop: 68, text: 'users' }] }]
+      },
+      {
+        code: DiagnosticCode.ParserError,
+        startLine: 4
+      }
+    ])
+  })
+
+  it('treats template placeholders as parameters', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    const source = 'sql`SELECT * FROM users WHERE id = ${id} AND email = ${email}`'
+    expect(analyzer.analyzeSourceFile('file.ts', source)).toMatchObject([])
+  })
+})
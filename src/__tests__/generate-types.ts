@@ -0,0 +1,101 @@
+import { MySQLAnalyzer, DiagnosticCode, getSchemaFromDDLFile, getNamedQueries } from '../'
+import path from 'path'
+
+let analyzer: MySQLAnalyzer
+
+beforeAll(async () => {
+  const schema = await getSchemaFromDDLFile(path.join(__dirname, '../../data/data.sql'))
+  analyzer = new MySQLAnalyzer({ schema })
+})
+
+describe('MySQLAnalyzer.generateTypes', () => {
+  it('generates params and row types', () => {
+    const { output, diagnostics } = analyzer.generateTypes([
+      { name: 'getUser', text: 'SELECT id, name, created FROM users WHERE id = ? AND friends > ?' },
+      { name: 'update-project', text: 'UPDATE users SET project = :project WHERE id = :id OR name = :id' }
+    ])
+    expect(diagnostics).toEqual([])
+    expect(output).toBe(
+      [
+        '// This file was generated by ts-mysql-analyzer. Do not edit it by hand.',
+        '',
+        'export type GetUserParams = [string, number]',
+        '',
+        'export interface GetUserRow {',
+        '  id: string',
+        '  name: string | null',
+        '  created: Date',
+        '}',
+        '',
+        'export interface UpdateProjectParams {',
+        '  project: number | null',
+        '  id: string',
+        '}',
+        ''
+      ].join('\n')
+    )
+  })
+
+  it('types expressions and LIMIT parameters', () => {
+    const { output } = analyzer.generateTypes([
+      { name: 'count', text: 'SELECT COUNT(*), NOW() AS now, @total FROM users WHERE name = CONCAT(?, ?) LIMIT ?, ?' }
+    ])
+    expect(output).toContain('export type CountParams = [unknown, unknown, number, number]')
+    expect(output).toContain("  'COUNT(*)': number\n  now: Date\n  '@total': unknown\n")
+  })
+
+  it('names positional parameters by their position when mixed with named parameters', () => {
+    const { output } = analyzer.generateTypes([
+      { name: 'mixed', text: 'SELECT id FROM users WHERE id = :id AND friends > ? LIMIT ?' }
+    ])
+    expect(output).toContain("export interface MixedParams {\n  id: string\n  '0': number\n  '1': number\n}")
+  })
+
+  it('returns the diagnostics of invalid queries', () => {
+    const { output, diagnostics } = analyzer.generateTypes([
+      { name: 'valid', text: 'SELECT * FROM users' },
+      { name: 'invalid', text: 'SELECT * FROM user' }
+    ])
+    expect(output).toBeNull()
+    expect(diagnostics).toMatchObject([
+      { query: { name: 'invalid' }, diagnostics: [{ code: DiagnosticCode.MissingTable }] }
+    ])
+  })
+
+  it('types parameters in IN lists of one value', () => {
+    const { output } = analyzer.generateTypes([{ name: 'byIds', text: 'SELECT id FROM users WHERE friends IN (?)' }])
+    expect(output).toContain('export type ByIdsParams = [number]')
+  })
+
+  it('throws for queries of more than one statement', () => {
+    const queries = getNamedQueries(
+      'queries/users.sql',
+      'SELECT id FROM users WHERE id = ?;\nDELETE FROM users WHERE id = ?;\n'
+    )
+    expect(() => analyzer.generateTypes(queries)).toThrow(
+      "Query 'users' has 2 statements, but types can only be generated for one."
+    )
+    expect(analyzer.generateTypes([{ name: 'one', text: 'SELECT 1;\n' }]).output).toContain('OneParams')
+  })
+
+  it('throws for duplicate query names', () => {
+    const queries = [
+      { name: 'a', text: 'SELECT 1' },
+      { name: 'a', text: 'SELECT 2' }
+    ]
+    expect(() => analyzer.generateTypes(queries)).toThrow("Duplicate query name 'a'.")
+  })
+})
+
+describe('getNamedQueries', () => {
+  it('names .sql files after the file', () => {
+    expect(getNamedQueries('queries/get-user.sql', 'SELECT 1')).toEqual([{ name: 'get-user', text: 'SELECT 1' }])
+  })
+
+  it('names tagged templates after their variable', () => {
+    const source = 'export const getUser = sql`SELECT * FROM users WHERE id = ${id}`\nquery(sql`SELECT 1`)'
+    expect(getNamedQueries('queries.ts', source)).toEqual([
+      { name: 'getUser', text: 'SELECT * FROM users WHERE id = ?' }
+    ])
+  })
+})
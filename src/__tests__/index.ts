@@ -1,13 +1,25 @@
-import { MySQLAnalyzer, DiagnosticSeverity, DiagnosticCode } from '../'
-import { MySQLSchema, Schema } from 'ts-mysql-schema'
+import {
+  MySQLAnalyzer,
+  MySQLAnalyzerRule,
+  DiagnosticSeverity,
+  DiagnosticCode,
+  getSchemaFromDDL,
+  getSchemaFromDDLFile,
+  SchemaBuilder,
+  applyFixes,
+  formatSQL,
+  fingerprintQuery,
+  parseQueryLog,
+  Completion
+} from '../'
+import MySQLParser from 'ts-mysql-parser'
+import { Schema } from 'ts-mysql-schema'
+import path from 'path'
 
 let schema: Schema
 
 beforeAll(async () => {
-  const mySQLSchema = new MySQLSchema({
-    uri: 'mysql://root@127.0.0.1:3310/test'
-  })
-  schema = await mySQLSchema.getSchema()
+  schema = await getSchemaFromDDLFile(path.join(__dirname, '../../data/data.sql'))
 })
 
 describe('MySQLAnalyzer', () => {
@@ -66,8 +78,8 @@ describe('MySQLAnalyzer', () => {
       {
         severity: DiagnosticSeverity.Warning,
         message: 'Column count does not match row count.',
-        start: 0,
-        stop: 43,
+        start: 38,
+        stop: 42,
         code: DiagnosticCode.ColumnRowMismatch
       }
     ])
@@ -149,7 +161,7 @@ describe('MySQLAnalyzer', () => {
     expect(diagnostic).toMatchObject([
       {
         severity: DiagnosticSeverity.Suggestion,
-        message: `You can optimize this query by adding a MySQL index for column 'name'.`,
+        message: `You can optimize this query by adding a MySQL index for column 'name', since every row of table 'users' is read without one.`,
         start: 26,
         stop: 29,
         code: DiagnosticCode.MissingIndex
@@ -157,23 +169,16 @@ describe('MySQLAnalyzer', () => {
     ])
   })
 
-  it('returns multiple diagnostics for multiple columns in WHERE clause with missing indices', () => {
+  it('returns diagnostic for multiple columns in WHERE clause with missing indices', () => {
     const analyzer = new MySQLAnalyzer({ schema })
     const diagnostic = analyzer.analyze('SELECT * FROM users WHERE name = "some-string" AND email="some-other-string"')
     expect(diagnostic).toMatchObject([
       {
         severity: DiagnosticSeverity.Suggestion,
-        message: `You can optimize this query by adding a MySQL index for column 'name'.`,
+        message: `You can optimize this query by adding a MySQL index for columns 'name' and 'email', since every row of table 'users' is read without one.`,
         start: 26,
         stop: 29,
         code: DiagnosticCode.MissingIndex
-      },
-      {
-        severity: DiagnosticSeverity.Suggestion,
-        message: `You can optimize this query by adding a MySQL index for column 'email'.`,
-        start: 51,
-        stop: 55,
-        code: DiagnosticCode.MissingIndex
       }
     ])
   })
@@ -266,6 +271,13 @@ describe('MySQLAnalyzer', () => {
           start: 31,
           stop: 31,
           code: DiagnosticCode.TypeMismatch
+        },
+        {
+          severity: DiagnosticSeverity.Suggestion,
+          message: "MySQL can't use an index for column 'id' because comparing it with a number converts every value.",
+          start: 26,
+          stop: 27,
+          code: DiagnosticCode.NonSargablePredicate
         }
       ])
     })
@@ -419,3 +431,1520 @@ describe('MySQLAnalyzer', () => {
     })
   })
 })
+
+describe('rules', () => {
+  it('turns off rules', () => {
+    const analyzer = new MySQLAnalyzer({ schema, rules: { 'missing-index': 'off' } })
+    const diagnostics = analyzer.analyze('SELECT * FROM users WHERE name = "some-string"')
+    expect(diagnostics).toMatchObject([])
+  })
+
+  it('overrides the severity of rules', () => {
+    const analyzer = new MySQLAnalyzer({ schema, rules: { 'missing-column': 'error' } })
+    const diagnostics = analyzer.analyze('SELECT invalid_column FROM users')
+    expect(diagnostics).toMatchObject([
+      {
+        severity: DiagnosticSeverity.Error,
+        code: DiagnosticCode.MissingColumn
+      }
+    ])
+  })
+
+  it('throws for unknown rules', () => {
+    expect(() => new MySQLAnalyzer({ rules: { 'not-a-rule': 'off' } })).toThrow("Unknown rule 'not-a-rule'.")
+  })
+
+  it('runs custom rules', () => {
+    const noSelectStar: MySQLAnalyzerRule = {
+      name: 'no-select-star',
+      severity: DiagnosticSeverity.Warning,
+      check({ statement }) {
+        const start = statement.text.indexOf('*')
+        if (start === -1) {
+          return []
+        }
+        return [{ message: 'Avoid SELECT *.', start, stop: start, code: 9000 }]
+      }
+    }
+    const analyzer = new MySQLAnalyzer({ customRules: [noSelectStar] })
+    const diagnostics = analyzer.analyze('SELECT 1; SELECT * FROM users')
+    expect(diagnostics).toMatchObject([
+      {
+        severity: DiagnosticSeverity.Warning,
+        message: 'Avoid SELECT *.',
+        start: 17,
+        stop: 17,
+        code: 9000
+      }
+    ])
+  })
+
+  it('lets custom rules be configured', () => {
+    const noSelectStar: MySQLAnalyzerRule = {
+      name: 'no-select-star',
+      severity: DiagnosticSeverity.Warning,
+      check: () => [{ message: 'Avoid SELECT *.', start: 0, stop: 0, code: 9000 }]
+    }
+    const analyzer = new MySQLAnalyzer({ customRules: [noSelectStar], rules: { 'no-select-star': 'off' } })
+    expect(analyzer.analyze('SELECT * FROM users')).toMatchObject([])
+  })
+})
+
+describe('unfiltered writes', () => {
+  it('returns diagnostic for UPDATE statements without a WHERE clause', () => {
+    const analyzer = new MySQLAnalyzer()
+    const diagnostics = analyzer.analyze('UPDATE users SET enabled = false')
+    expect(diagnostics).toMatchObject([
+      {
+        severity: DiagnosticSeverity.Warning,
+        message: "UPDATE without a WHERE clause changes every row of table 'users'.",
+        start: 0,
+        stop: 32,
+        code: DiagnosticCode.UnfilteredUpdate
+      }
+    ])
+  })
+
+  it('returns diagnostic for DELETE statements without a WHERE clause', () => {
+    const analyzer = new MySQLAnalyzer()
+    const diagnostics = analyzer.analyze('DELETE FROM posts')
+    expect(diagnostics).toMatchObject([
+      {
+        severity: DiagnosticSeverity.Warning,
+        message: "DELETE without a WHERE clause deletes every row of table 'posts'.",
+        start: 0,
+        stop: 17,
+        code: DiagnosticCode.UnfilteredDelete
+      }
+    ])
+  })
+
+  it('allows statements with a LIMIT', () => {
+    const analyzer = new MySQLAnalyzer()
+    expect(analyzer.analyze('DELETE FROM posts ORDER BY id LIMIT 100')).toMatchObject([])
+  })
+
+  it('configures unfiltered UPDATE and DELETE statements apart', () => {
+    const analyzer = new MySQLAnalyzer({ rules: { 'unfiltered-delete': 'error' } })
+    expect(analyzer.analyze('DELETE FROM posts; UPDATE users SET enabled = false')).toMatchObject([
+      { severity: DiagnosticSeverity.Error, code: DiagnosticCode.UnfilteredDelete },
+      { severity: DiagnosticSeverity.Warning, code: DiagnosticCode.UnfilteredUpdate }
+    ])
+  })
+
+  it('returns diagnostic for WHERE clauses that are always true', () => {
+    const analyzer = new MySQLAnalyzer()
+    const diagnostics = analyzer.analyze("UPDATE users SET enabled = false WHERE id = ? OR ('a' = 'A')")
+    expect(diagnostics).toMatchObject([
+      {
+        severity: DiagnosticSeverity.Warning,
+        message: 'WHERE clause is always true, so the UPDATE applies to every row.',
+        start: 39,
+        stop: 59,
+        code: DiagnosticCode.AlwaysTrueFilter
+      }
+    ])
+  })
+
+  it('allows WHERE clauses that are not always true', () => {
+    const analyzer = new MySQLAnalyzer()
+    expect(analyzer.analyze('DELETE FROM posts WHERE 1 = 1 AND id = ?')).toMatchObject([])
+    expect(analyzer.analyze('DELETE FROM posts WHERE 1 = 2 OR NULL')).toMatchObject([])
+  })
+
+  it('returns diagnostic for tables joined without a condition', () => {
+    const analyzer = new MySQLAnalyzer()
+    const diagnostics = analyzer.analyze('DELETE u, p FROM users u JOIN posts p WHERE u.id = 1')
+    expect(diagnostics).toMatchObject([
+      {
+        severity: DiagnosticSeverity.Warning,
+        message: "Table 'p' is joined without a condition, so the DELETE applies to every combination of rows.",
+        start: 30,
+        stop: 36,
+        code: DiagnosticCode.UnconditionedJoin
+      }
+    ])
+  })
+
+  it('allows tables joined by a condition', () => {
+    const analyzer = new MySQLAnalyzer()
+    expect(analyzer.analyze('UPDATE users u JOIN posts p ON p.user_id = u.id SET u.enabled = false')).toMatchObject([])
+    expect(analyzer.analyze('UPDATE users u, posts p SET u.enabled = false WHERE p.user_id = u.id')).toMatchObject([])
+  })
+})
+
+describe('index advice', () => {
+  const indexedSchema = getSchemaFromDDL(`
+    CREATE TABLE users (
+      id      INT NOT NULL PRIMARY KEY,
+      name    VARCHAR(24),
+      email   VARCHAR(24),
+      project INT,
+      created DATETIME,
+      INDEX(email),
+      INDEX project_created (project, created)
+    );
+    CREATE TABLE posts (id INT NOT NULL PRIMARY KEY, user_id INT NOT NULL, created DATETIME);
+  `)
+
+  it('uses the leftmost prefix of composite indexes', () => {
+    const analyzer = new MySQLAnalyzer({ schema: indexedSchema })
+    expect(analyzer.analyze('SELECT * FROM users WHERE project = 1 AND created > NOW()')).toMatchObject([])
+    expect(analyzer.analyze('SELECT * FROM users WHERE created > NOW()')).toMatchObject([
+      {
+        severity: DiagnosticSeverity.Suggestion,
+        message: `You can optimize this query by adding a MySQL index for column 'created', since every row of table 'users' is read without one.`,
+        start: 26,
+        stop: 32,
+        code: DiagnosticCode.MissingIndex
+      }
+    ])
+  })
+
+  it('proposes composite indexes with equality columns before range columns', () => {
+    const analyzer = new MySQLAnalyzer({ schema: indexedSchema })
+    const diagnostics = analyzer.analyze('SELECT * FROM users WHERE created > ? AND name = ?')
+    expect(diagnostics).toMatchObject([
+      {
+        code: DiagnosticCode.MissingIndex,
+        fixes: [{ edits: [], statement: 'CREATE INDEX `name_created` ON `users` (`name`, `created`);' }]
+      }
+    ])
+  })
+
+  it('returns diagnostic for join conditions without an index', () => {
+    const analyzer = new MySQLAnalyzer({ schema: indexedSchema })
+    const diagnostics = analyzer.analyze('SELECT * FROM users u JOIN posts p ON p.user_id = u.id WHERE u.email = ?')
+    expect(diagnostics).toMatchObject([
+      {
+        message: `You can optimize this query by adding a MySQL index for column 'user_id', since every row of table 'posts' is read without one.`,
+        start: 38,
+        stop: 46,
+        code: DiagnosticCode.MissingIndex
+      }
+    ])
+  })
+
+  it('returns diagnostic for ORDER BY clauses without an index', () => {
+    const analyzer = new MySQLAnalyzer({ schema: indexedSchema })
+    expect(analyzer.analyze('SELECT * FROM users WHERE project = ? ORDER BY created DESC')).toMatchObject([])
+    expect(analyzer.analyze('SELECT * FROM users WHERE email = ? ORDER BY name')).toMatchObject([
+      {
+        severity: DiagnosticSeverity.Suggestion,
+        message: "ORDER BY column 'name' can't use an index of table 'users', so the rows are sorted with a filesort.",
+        start: 36,
+        stop: 48,
+        code: DiagnosticCode.Filesort,
+        fixes: [{ statement: 'CREATE INDEX `email_name` ON `users` (`email`, `name`);' }]
+      }
+    ])
+  })
+
+  it('returns diagnostic for GROUP BY clauses without an index', () => {
+    const analyzer = new MySQLAnalyzer({ schema: indexedSchema })
+    expect(analyzer.analyze('SELECT project, COUNT(*) FROM users GROUP BY project')).toMatchObject([])
+    expect(analyzer.analyze('SELECT name, COUNT(*) FROM users GROUP BY name')).toMatchObject([
+      {
+        message:
+          "GROUP BY column 'name' can't use an index of table 'users', so the rows are grouped in a temporary table.",
+        code: DiagnosticCode.Filesort
+      }
+    ])
+  })
+
+  it('returns diagnostic for filters that cannot use an index', () => {
+    const analyzer = new MySQLAnalyzer({ schema: indexedSchema })
+    expect(analyzer.analyze('SELECT * FROM users WHERE LOWER(email) = ?')).toMatchObject([
+      {
+        severity: DiagnosticSeverity.Suggestion,
+        message: "MySQL can't use an index for column 'email' because it is wrapped in an expression.",
+        start: 26,
+        stop: 37,
+        code: DiagnosticCode.NonSargablePredicate
+      }
+    ])
+    expect(analyzer.analyze("SELECT * FROM users WHERE email LIKE '%@example.com'")).toMatchObject([
+      {
+        message: "MySQL can't use an index for column 'email' because the LIKE pattern starts with a wildcard.",
+        code: DiagnosticCode.NonSargablePredicate
+      }
+    ])
+    expect(analyzer.analyze("SELECT * FROM users WHERE email LIKE 'someone@%'")).toMatchObject([])
+  })
+})
+
+describe('column values', () => {
+  const valueSchema = getSchemaFromDDL(`
+    CREATE TABLE items (
+      id       INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+      name     VARCHAR(5) NOT NULL,
+      code     VARBINARY(2),
+      quantity SMALLINT UNSIGNED NOT NULL DEFAULT 0,
+      tags     SET('new', 'sale'),
+      total    INT AS (quantity * 2)
+    );
+  `)
+
+  it('returns diagnostic for inserts that omit a NOT NULL column without a default', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    expect(analyzer.analyze("INSERT INTO users (id, name) VALUES ('a', 'b')")).toMatchObject([
+      {
+        severity: DiagnosticSeverity.Warning,
+        message: "Column 'friends' is NOT NULL and has no default value, so the INSERT must give it a value.",
+        start: 12,
+        stop: 16,
+        code: DiagnosticCode.MissingRequiredColumn
+      }
+    ])
+    expect(analyzer.analyze("INSERT INTO users SET id = 'a', friends = 1")).toMatchObject([])
+  })
+
+  it('does not require AUTO_INCREMENT, defaulted or generated columns', () => {
+    const analyzer = new MySQLAnalyzer({ schema: valueSchema })
+    expect(analyzer.analyze("INSERT INTO items (name) VALUES ('a')")).toMatchObject([])
+  })
+
+  it('returns diagnostic for values not allowed by ENUM and SET columns', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    expect(analyzer.analyze("INSERT INTO posts (id, visibility) VALUES ('a', 'secret')")).toMatchObject([
+      {
+        severity: DiagnosticSeverity.Warning,
+        message: "Value 'secret' is not allowed by column 'visibility' ('public', 'private').",
+        start: 48,
+        stop: 55,
+        code: DiagnosticCode.InvalidEnumValue
+      }
+    ])
+    expect(analyzer.analyze("INSERT INTO posts (id, visibility) VALUES ('a', 'PUBLIC')")).toMatchObject([])
+
+    const items = new MySQLAnalyzer({ schema: valueSchema })
+    expect(items.analyze("INSERT INTO items (name, tags) VALUES ('a', 'new,sale')")).toMatchObject([])
+    expect(items.analyze("INSERT INTO items (name, tags) VALUES ('a', 'new,old')")).toMatchObject([
+      { code: DiagnosticCode.InvalidEnumValue, start: 44, stop: 52 }
+    ])
+  })
+
+  it('returns diagnostic for strings longer than their column', () => {
+    const analyzer = new MySQLAnalyzer({ schema: valueSchema })
+    expect(analyzer.analyze("INSERT INTO items (name, code) VALUES ('abcdef', 'é')")).toMatchObject([
+      {
+        message: "Value is 6 characters long, but column 'name' allows at most 5.",
+        start: 39,
+        stop: 46,
+        code: DiagnosticCode.ValueTooLong
+      }
+    ])
+    expect(analyzer.analyze("INSERT INTO items (name, code) VALUES ('ééééé', 'abc')")).toMatchObject([
+      { message: "Value is 3 bytes long, but column 'code' allows at most 2.", code: DiagnosticCode.ValueTooLong }
+    ])
+  })
+
+  it('returns diagnostic for integers out of range for their column', () => {
+    const analyzer = new MySQLAnalyzer({ schema: valueSchema })
+    expect(analyzer.analyze('UPDATE items SET quantity = 70000 WHERE id = 1')).toMatchObject([
+      {
+        message: "Value 70000 is out of range for column 'quantity' (0 to 65535).",
+        start: 28,
+        stop: 32,
+        code: DiagnosticCode.ValueOutOfRange
+      }
+    ])
+    expect(analyzer.analyze('UPDATE items SET quantity = -1 WHERE id = 1')).toMatchObject([
+      { message: "Value -1 is out of range for column 'quantity' (0 to 65535)." }
+    ])
+    expect(analyzer.analyze('UPDATE items SET quantity = 65535 WHERE id = 1')).toMatchObject([])
+    expect(analyzer.analyze('UPDATE items SET id = 4294967296 WHERE id = 1')).toMatchObject([
+      { message: "Value 4294967296 is out of range for column 'id' (0 to 4294967295)." }
+    ])
+  })
+
+  it('checks values bound to placeholders', () => {
+    const analyzer = new MySQLAnalyzer({ schema: valueSchema })
+    expect(analyzer.analyze('UPDATE items SET quantity = ? WHERE id = ?', { params: [70000, 1] })).toMatchObject([
+      { code: DiagnosticCode.ValueOutOfRange, start: 28, stop: 28 }
+    ])
+  })
+
+  it('configures each kind of invalid value apart', () => {
+    const analyzer = new MySQLAnalyzer({ schema: valueSchema, rules: { 'value-too-long': 'off' } })
+    const text = "INSERT INTO items (name, quantity, tags) VALUES ('abcdef', 70000, 'old')"
+    expect(analyzer.analyze(text)).toMatchObject([
+      { code: DiagnosticCode.InvalidEnumValue },
+      { code: DiagnosticCode.ValueOutOfRange }
+    ])
+  })
+
+  it('returns diagnostic for writes to generated columns', () => {
+    const analyzer = new MySQLAnalyzer({ schema: valueSchema })
+    expect(analyzer.analyze("INSERT INTO items (name, total) VALUES ('a', 2)")).toMatchObject([
+      {
+        severity: DiagnosticSeverity.Warning,
+        message: "Column 'total' is generated, so a value can't be written to it.",
+        start: 45,
+        stop: 45,
+        code: DiagnosticCode.GeneratedColumnWrite
+      }
+    ])
+  })
+})
+
+describe('inserts', () => {
+  it('checks the number of values of each row', () => {
+    const analyzer = new MySQLAnalyzer()
+    expect(analyzer.analyze("INSERT INTO users (id, name) VALUES ('a', 'b'), ('c', 'd')")).toMatchObject([])
+    expect(analyzer.analyze("INSERT INTO users (id, name) VALUES ('a', 'b'), ('c'), (DEFAULT, ?)")).toMatchObject([
+      {
+        severity: DiagnosticSeverity.Warning,
+        message: 'Column count does not match row count.',
+        start: 48,
+        stop: 52,
+        code: DiagnosticCode.ColumnRowMismatch
+      }
+    ])
+  })
+
+  it('checks rows without a column list against the columns of the table', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    expect(analyzer.analyze("INSERT INTO posts VALUES ('1', 'public'), ('2', 'private')")).toMatchObject([
+      {
+        code: DiagnosticCode.ColumnRowMismatch,
+        start: 12,
+        stop: 16,
+        fixes: [{ message: 'Add the column list (id, visibility).' }]
+      }
+    ])
+    expect(analyzer.analyze("INSERT INTO posts VALUES ('1')")).toMatchObject([
+      { code: DiagnosticCode.ColumnRowMismatch, start: 25, stop: 29 }
+    ])
+    expect(new MySQLAnalyzer().analyze("INSERT INTO posts VALUES ('1')")).toMatchObject([])
+  })
+
+  it('checks the type of each value against its own column', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    const diagnostics = analyzer.analyze("INSERT INTO users (id, friends) VALUES ('a', 1), ('b', 'many')")
+    expect(diagnostics).toMatchObject([
+      {
+        message: 'Type string is not assignable to type number.',
+        start: 55,
+        stop: 60,
+        code: DiagnosticCode.TypeMismatch
+      }
+    ])
+  })
+
+  it('checks the assignments of ON DUPLICATE KEY UPDATE', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    const text = "INSERT INTO users (id, friends) VALUES ('a', 1) ON DUPLICATE KEY UPDATE friends = 'many'"
+    expect(analyzer.analyze(text)).toMatchObject([
+      {
+        message: 'Type string is not assignable to type number.',
+        start: 82,
+        stop: 87,
+        code: DiagnosticCode.TypeMismatch
+      }
+    ])
+  })
+
+  it('checks REPLACE statements like INSERT statements', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    expect(analyzer.analyze("REPLACE INTO posts (id, visibility) VALUES ('a', 'public'), ('b', 1)")).toMatchObject([
+      {
+        message: 'Type number is not assignable to type string.',
+        start: 66,
+        stop: 66,
+        code: DiagnosticCode.TypeMismatch
+      }
+    ])
+    expect(analyzer.analyze("REPLACE INTO posts (id) VALUES ('a', 'public')")).toMatchObject([
+      { code: DiagnosticCode.ColumnRowMismatch },
+      { code: DiagnosticCode.MissingRequiredColumn }
+    ])
+  })
+
+  it('checks the columns selected by INSERT ... SELECT', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    expect(analyzer.analyze('INSERT INTO posts (id, visibility) SELECT id, name FROM users')).toMatchObject([])
+    expect(analyzer.analyze('INSERT INTO posts SELECT id FROM users')).toMatchObject([
+      {
+        message: 'Column count does not match the number of selected columns (2 and 1).',
+        start: 18,
+        stop: 37,
+        code: DiagnosticCode.ColumnRowMismatch
+      }
+    ])
+    expect(analyzer.analyze('INSERT INTO posts (id, visibility) SELECT * FROM users')).toMatchObject([
+      { message: 'Column count does not match the number of selected columns (2 and 7).' }
+    ])
+    expect(analyzer.analyze('INSERT INTO users (id, friends) SELECT id, name FROM users')).toMatchObject([
+      {
+        message: 'Type string is not assignable to type number.',
+        start: 43,
+        stop: 46,
+        code: DiagnosticCode.TypeMismatch
+      }
+    ])
+  })
+})
+
+describe('scopes', () => {
+  let analyzer: MySQLAnalyzer
+
+  beforeAll(() => {
+    analyzer = new MySQLAnalyzer({ schema, rules: { 'missing-index': 'off' }, parserOptions: { version: '8.0.0' } })
+  })
+
+  it('resolves the columns of self-joins by their aliases', () => {
+    expect(analyzer.analyze('SELECT a.name, b.name FROM users a JOIN users b ON a.friends = b.friends')).toMatchObject(
+      []
+    )
+    expect(analyzer.analyze('SELECT a.nme FROM users a JOIN posts b ON a.id = b.id')).toMatchObject([
+      { message: "Column 'nme' does not exist in table 'users'. Did you mean 'name'?", start: 9, stop: 11 }
+    ])
+  })
+
+  it('returns diagnostic for unqualified columns that exist in more than one table', () => {
+    expect(analyzer.analyze('SELECT id FROM users JOIN posts ON users.id = posts.id')).toMatchObject([
+      {
+        severity: DiagnosticSeverity.Warning,
+        message:
+          "Column 'id' is ambiguous, since it exists in tables 'users' and 'posts'. Qualify it with the name of its table.",
+        start: 7,
+        stop: 8,
+        code: DiagnosticCode.AmbiguousColumn
+      }
+    ])
+    expect(analyzer.analyze('SELECT id FROM users JOIN posts USING (id)')).toMatchObject([])
+    expect(analyzer.analyze('SELECT users.id FROM users JOIN posts ON users.id = posts.id ORDER BY id')).toMatchObject(
+      []
+    )
+  })
+
+  it('resolves the columns of correlated subqueries against the outer query', () => {
+    const text = 'SELECT name FROM users u WHERE EXISTS (SELECT 1 FROM posts p WHERE p.id = u.id AND friends > 1)'
+    expect(analyzer.analyze(text)).toMatchObject([])
+    expect(
+      analyzer.analyze('SELECT name FROM users u WHERE EXISTS (SELECT 1 FROM posts p WHERE p.id = u.nme)')
+    ).toMatchObject([
+      { message: "Column 'nme' does not exist in table 'users'. Did you mean 'name'?", start: 76, stop: 78 }
+    ])
+  })
+
+  it('resolves the columns of derived tables', () => {
+    expect(analyzer.analyze('SELECT d.total FROM (SELECT friends AS total FROM users) AS d')).toMatchObject([])
+    expect(analyzer.analyze('SELECT d.friends FROM (SELECT friends AS total FROM users) AS d')).toMatchObject([
+      {
+        message: "Column 'friends' does not exist in table 'd'. Did you mean 'total'?",
+        code: DiagnosticCode.MissingColumn
+      }
+    ])
+  })
+
+  it('resolves the columns of common table expressions', () => {
+    expect(analyzer.analyze('WITH t AS (SELECT id, name FROM users) SELECT name FROM t')).toMatchObject([])
+    expect(analyzer.analyze('WITH t AS (SELECT id FROM users) SELECT name FROM t')).toMatchObject([
+      { message: "Column 'name' does not exist in table 't'. Did you mean 'id'?", start: 40, stop: 43 }
+    ])
+    const recursive = 'WITH RECURSIVE t (n) AS (SELECT 1 UNION ALL SELECT n + 1 FROM t WHERE n < 5) SELECT n FROM t'
+    expect(analyzer.analyze(recursive)).toMatchObject([])
+  })
+
+  it('returns diagnostic for qualifiers that are not tables of the query', () => {
+    expect(analyzer.analyze('SELECT zz.id FROM users')).toMatchObject([
+      {
+        severity: DiagnosticSeverity.Warning,
+        message: "Table or alias 'zz' is not part of the query. Did you mean 'users'?",
+        start: 7,
+        stop: 8,
+        code: DiagnosticCode.UnknownQualifier
+      }
+    ])
+    expect(analyzer.analyze('SELECT posts.* FROM users')).toMatchObject([
+      { code: DiagnosticCode.UnknownQualifier, start: 7, stop: 11 }
+    ])
+    expect(analyzer.analyze('WITH t AS (SELECT id FROM users) SELECT t.id, t.* FROM t')).toMatchObject([])
+    expect(
+      analyzer.analyze('SELECT 1 FROM users u WHERE EXISTS (SELECT 1 FROM posts p WHERE p.id = u.id)')
+    ).toMatchObject([])
+  })
+
+  it('returns diagnostic for tables referred to by their name instead of their alias', () => {
+    expect(analyzer.analyze('SELECT users.id FROM users AS u')).toMatchObject([
+      {
+        message: "Table 'users' is aliased as 'u', so it must be referred to by its alias.",
+        start: 7,
+        stop: 11,
+        code: DiagnosticCode.UnknownQualifier,
+        fixes: [{ edits: [{ start: 7, stop: 12, text: 'u' }] }]
+      }
+    ])
+  })
+})
+
+describe('databases', () => {
+  let analyzer: MySQLAnalyzer
+
+  beforeAll(() => {
+    const schemas = new SchemaBuilder()
+      .addDDL(
+        `CREATE DATABASE shop;
+        USE shop;
+        CREATE TABLE users (id INT PRIMARY KEY, name VARCHAR(255) NOT NULL);
+        CREATE DATABASE billing;
+        USE billing;
+        CREATE TABLE invoices (id INT PRIMARY KEY, user_id INT NOT NULL, total INT NOT NULL);`
+      )
+      .getSchemas()
+    analyzer = new MySQLAnalyzer({ schemas, database: 'shop', rules: { 'missing-index': 'off' } })
+  })
+
+  it('resolves tables and columns of other databases', () => {
+    const text = 'SELECT u.name, i.total FROM users u JOIN billing.invoices i ON i.user_id = u.id'
+    expect(analyzer.analyze(text)).toMatchObject([])
+    expect(analyzer.analyze('SELECT billing.invoices.totl FROM billing.invoices')).toMatchObject([
+      {
+        message: "Column 'totl' does not exist in table 'billing.invoices'. Did you mean 'total'?",
+        start: 24,
+        stop: 27
+      }
+    ])
+    expect(analyzer.analyze("UPDATE billing.invoices SET total = 'a' WHERE id = 1")).toMatchObject([
+      { message: 'Type string is not assignable to type number.', code: DiagnosticCode.TypeMismatch }
+    ])
+  })
+
+  it('resolves completions and hover against the database selected by USE', () => {
+    const text = 'USE `billing` /* invoices */;\nSELECT i.total FROM invoices i'
+    expect(analyzer.analyze(text)).toEqual([])
+    expect(analyzer.getHover(text, text.indexOf('total'))).toMatchObject({ kind: 'column', table: 'invoices' })
+    const offset = text.lastIndexOf('invoices')
+    expect(analyzer.getCompletions(text.slice(0, offset), offset)).toContainEqual({
+      label: 'invoices',
+      kind: 'table',
+      detail: 'billing.invoices'
+    })
+  })
+
+  it('returns diagnostic for tables that do not exist in their database', () => {
+    expect(analyzer.analyze('SELECT * FROM billing.users')).toMatchObject([
+      {
+        message: "Table 'users' does not exist in database 'billing'. Did you mean 'invoices'?",
+        start: 22,
+        stop: 26,
+        code: DiagnosticCode.MissingTable
+      }
+    ])
+  })
+
+  it('returns diagnostic for databases that do not exist', () => {
+    const diagnostics = analyzer.analyze('SELECT * FROM biling.invoices')
+    expect(diagnostics).toMatchObject([
+      {
+        severity: DiagnosticSeverity.Warning,
+        message: "Database 'biling' does not exist. Did you mean 'billing'?",
+        start: 14,
+        stop: 19,
+        code: DiagnosticCode.MissingDatabase
+      }
+    ])
+    expect(applyFixes('SELECT * FROM biling.invoices', diagnostics)).toBe('SELECT * FROM billing.invoices')
+    expect(analyzer.analyze('USE `biling`')).toMatchObject([
+      { message: "Database 'biling' does not exist. Did you mean 'billing'?", start: 4, stop: 11 }
+    ])
+  })
+
+  it('resolves tables against the database selected by USE', () => {
+    expect(analyzer.analyze('USE billing; SELECT total FROM invoices; SELECT name FROM shop.users')).toMatchObject([])
+    expect(analyzer.analyze('USE billing; SELECT name FROM users')).toMatchObject([
+      { message: "Table 'users' does not exist in database 'billing'. Did you mean 'invoices'?", statementIndex: 1 }
+    ])
+    expect(analyzer.analyze('SELECT name FROM users')).toMatchObject([])
+  })
+})
+
+describe('expressions', () => {
+  it('returns diagnostic for comparisons of incompatible types', () => {
+    const analyzer = new MySQLAnalyzer({ schema, rules: { 'non-sargable-predicate': 'off' } })
+    expect(analyzer.analyze("SELECT * FROM users WHERE friends + 1 = 'x'")).toMatchObject([
+      {
+        severity: DiagnosticSeverity.Warning,
+        message: 'Type string is not comparable to type number.',
+        start: 40,
+        stop: 42,
+        code: DiagnosticCode.TypeMismatch
+      }
+    ])
+    expect(analyzer.analyze('SELECT MAX(created) = 1 FROM users')).toMatchObject([
+      { message: 'Type number is not comparable to type date.', start: 22, stop: 22 }
+    ])
+    expect(analyzer.analyze("SELECT * FROM users WHERE CAST(name AS SIGNED) = 'x'")).toMatchObject([
+      { message: 'Type string is not comparable to type number.' }
+    ])
+  })
+
+  it('infers the types of functions, operators and CASE expressions', () => {
+    const analyzer = new MySQLAnalyzer({ schema, rules: { 'non-sargable-predicate': 'off' } })
+    const queries = [
+      'SELECT * FROM users WHERE created > NOW()',
+      "SELECT * FROM users WHERE DATE(created) = '2020-01-01'",
+      'SELECT COALESCE(name, 1), DATE_ADD(created, INTERVAL 1 DAY) FROM users',
+      "SELECT CASE WHEN enabled THEN 'a' ELSE 'b' END = 'a' FROM users",
+      'SELECT COUNT(*) > 1, LENGTH(name) + friends FROM users'
+    ]
+    for (const query of queries) {
+      expect(analyzer.analyze(query)).toEqual([])
+    }
+  })
+
+  it('returns diagnostic for arguments of the wrong type', () => {
+    const analyzer = new MySQLAnalyzer()
+    expect(analyzer.analyze("SELECT ABS('a')")).toMatchObject([
+      {
+        severity: DiagnosticSeverity.Warning,
+        message: 'Argument 1 of ABS must be of type number, but is of type string.',
+        start: 11,
+        stop: 13,
+        code: DiagnosticCode.InvalidArgumentType
+      }
+    ])
+
+    const schemaAnalyzer = new MySQLAnalyzer({ schema })
+    expect(schemaAnalyzer.analyze('SELECT YEAR(friends), SUM(name) FROM users')).toMatchObject([
+      { message: 'Argument 1 of YEAR must be of type date, but is of type number.' },
+      { message: 'Argument 1 of SUM must be of type number, but is of type string.' }
+    ])
+  })
+
+  it('returns diagnostic for the wrong number of arguments', () => {
+    const analyzer = new MySQLAnalyzer()
+    expect(analyzer.analyze("SELECT LENGTH('a', 1)")).toMatchObject([
+      {
+        severity: DiagnosticSeverity.Error,
+        message: 'Expected 1 argument for LENGTH, but got 2.',
+        start: 7,
+        stop: 20,
+        code: DiagnosticCode.ArgumentCountMismatch
+      }
+    ])
+    expect(analyzer.analyze("SELECT CONCAT_WS(',')")).toMatchObject([
+      { message: 'Expected at least 2 arguments for CONCAT_WS, but got 1.' }
+    ])
+    expect(analyzer.analyze("SELECT LOCATE('a')")).toMatchObject([
+      { message: 'Expected 2 to 3 arguments for LOCATE, but got 1.' }
+    ])
+  })
+})
+
+describe('migrations', () => {
+  let analyzer: MySQLAnalyzer
+
+  beforeAll(() => {
+    const migrationSchema = getSchemaFromDDL(
+      `CREATE TABLE users (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        name VARCHAR(50) NOT NULL,
+        email VARCHAR(255),
+        role ENUM('admin', 'member') NOT NULL,
+        project INT,
+        created DATETIME NOT NULL,
+        INDEX project_created (project, created)
+      );
+      CREATE TABLE logs (message TEXT, INDEX message_prefix (message(10)));`
+    )
+    analyzer = new MySQLAnalyzer({ schema: migrationSchema, parserOptions: { version: '8.0.23' } })
+  })
+
+  it('returns diagnostic for dropped and renamed columns', () => {
+    const text = 'ALTER TABLE users DROP COLUMN email, RENAME COLUMN name TO full_name'
+    expect(analyzer.analyze(text)).toMatchObject([
+      {
+        severity: DiagnosticSeverity.Warning,
+        message: "Dropping column 'email' deletes its data and breaks queries that still use it.",
+        start: 18,
+        stop: 34,
+        code: DiagnosticCode.DroppedColumn
+      },
+      {
+        message: "Renaming column 'name' to 'full_name' breaks queries that still use 'name'.",
+        start: 37,
+        stop: 67,
+        code: DiagnosticCode.RenamedColumn
+      }
+    ])
+    expect(analyzer.analyze('ALTER TABLE users CHANGE name username VARCHAR(50) NOT NULL')).toMatchObject([
+      { code: DiagnosticCode.RenamedColumn }
+    ])
+  })
+
+  it('returns diagnostic for NOT NULL columns added without a default value', () => {
+    const text = "ALTER TABLE users ADD age INT NOT NULL, ADD nick VARCHAR(20) NOT NULL DEFAULT '', ADD bio TEXT"
+    expect(analyzer.analyze(text)).toMatchObject([
+      {
+        message:
+          "Column 'age' is added to table 'users' as NOT NULL without a default value, so existing rows get an implicit value.",
+        start: 18,
+        stop: 37,
+        code: DiagnosticCode.RequiredColumnWithoutDefault
+      }
+    ])
+  })
+
+  it('returns diagnostic for narrowed column types', () => {
+    const text = 'ALTER TABLE users MODIFY name VARCHAR(20) NOT NULL'
+    expect(analyzer.analyze(text)).toMatchObject([
+      {
+        message: "Changing column 'name' from VARCHAR(50) to VARCHAR(20) can truncate or reject its values.",
+        start: 18,
+        stop: 49,
+        code: DiagnosticCode.NarrowedColumnType
+      },
+      { code: DiagnosticCode.TableCopy }
+    ])
+    expect(analyzer.analyze("ALTER TABLE users MODIFY role ENUM('admin') NOT NULL")).toMatchObject([
+      {
+        message:
+          "Changing column 'role' from ENUM('admin', 'member') to ENUM('admin') can truncate or reject its values."
+      },
+      { code: DiagnosticCode.TableCopy }
+    ])
+    expect(analyzer.analyze('ALTER TABLE users MODIFY id INT NOT NULL AUTO_INCREMENT')).toMatchObject([
+      { message: "Changing column 'id' from INT UNSIGNED to INT can truncate or reject its values." },
+      { code: DiagnosticCode.TableCopy }
+    ])
+  })
+
+  it('returns diagnostic for dropping the last index of a table', () => {
+    expect(analyzer.analyze('DROP INDEX message_prefix ON logs')).toMatchObject([
+      {
+        message: "Dropping this index leaves table 'logs' without any index, so every query reads it in full.",
+        start: 0,
+        stop: 32,
+        code: DiagnosticCode.DroppedLastIndex
+      }
+    ])
+    expect(analyzer.analyze('ALTER TABLE users DROP INDEX project_created')).toEqual([])
+  })
+
+  it('returns diagnostic for duplicate indexes', () => {
+    expect(analyzer.analyze('CREATE INDEX project ON users (project)')).toMatchObject([
+      {
+        message: "An index on (project) is redundant with index 'project_created' (project, created).",
+        start: 0,
+        stop: 38,
+        code: DiagnosticCode.DuplicateIndex
+      }
+    ])
+    expect(analyzer.analyze('ALTER TABLE users ADD INDEX (email), ADD INDEX (email)')).toMatchObject([
+      { message: "An index on (email) is redundant with index 'email' (email).", start: 37 }
+    ])
+    expect(analyzer.analyze('ALTER TABLE users ADD UNIQUE INDEX (project, created)')).toEqual([])
+  })
+
+  it('returns diagnostic for changes that copy the table', () => {
+    expect(analyzer.analyze('ALTER TABLE users MODIFY project BIGINT')).toMatchObject([
+      {
+        message:
+          "Changing the type of column 'project' copies table 'users', which blocks writes to it until the copy is done.",
+        start: 18,
+        stop: 38,
+        code: DiagnosticCode.TableCopy
+      }
+    ])
+    expect(analyzer.analyze('ALTER TABLE users DROP PRIMARY KEY, ALGORITHM=INPLACE')).toMatchObject([
+      {
+        message:
+          "Dropping the primary key without adding another requires copying table 'users', so ALGORITHM=INPLACE fails."
+      }
+    ])
+    expect(analyzer.analyze('ALTER TABLE users MODIFY project BIGINT, ALGORITHM=COPY')).toEqual([])
+  })
+
+  it('does not report changes made in place', () => {
+    const queries = [
+      'ALTER TABLE users MODIFY name VARCHAR(60) NOT NULL',
+      "ALTER TABLE users MODIFY role ENUM('admin', 'member', 'guest') NOT NULL",
+      'ALTER TABLE users MODIFY email VARCHAR(255) NOT NULL, ALGORITHM=INPLACE',
+      'ALTER TABLE users ADD INDEX (email), ALTER COLUMN project SET DEFAULT 1'
+    ]
+    for (const query of queries) {
+      expect(analyzer.analyze(query)).toEqual([])
+    }
+  })
+})
+
+describe('scripts', () => {
+  const script = `CREATE TABLE tmp_users (id INT, total INT NOT NULL);
+    INSERT INTO tmp_users (id, total) VALUES (1, 2);
+    ALTER TABLE users ADD nickname VARCHAR(20);
+    SELECT nickname FROM users;
+    DROP TABLE tmp_users;
+    SELECT total FROM tmp_users`
+
+  it('checks statements against the tables created and changed by the statements before them', () => {
+    const analyzer = new MySQLAnalyzer({ schema, applyDDL: true, rules: { 'missing-index': 'off' } })
+    expect(analyzer.analyze(script)).toMatchObject([
+      { message: "Table 'tmp_users' does not exist in database 'test'. Did you mean 'users'?", statementIndex: 5 }
+    ])
+    expect(analyzer.analyze('SELECT nickname FROM users')).toMatchObject([{ code: DiagnosticCode.MissingColumn }])
+  })
+
+  it('starts from an empty schema without one', () => {
+    const analyzer = new MySQLAnalyzer({ applyDDL: true })
+    const diagnostics = analyzer.analyze(
+      'SELECT * FROM anything; CREATE TABLE a (id INT NOT NULL); INSERT INTO a (id) VALUES (NULL); SELECT * FROM b'
+    )
+    expect(diagnostics).toMatchObject([
+      { code: DiagnosticCode.TypeMismatch, statementIndex: 2 },
+      { code: DiagnosticCode.MissingTable, message: "Table 'b' does not exist. Did you mean 'a'?", statementIndex: 3 }
+    ])
+  })
+
+  it('creates the columns of CREATE TABLE ... AS SELECT statements from the SELECT', () => {
+    const analyzer = new MySQLAnalyzer({ schema, applyDDL: true, rules: { 'missing-index': 'off' } })
+    const diagnostics = analyzer.analyze(`
+      CREATE TABLE totals (note TEXT) AS SELECT id, friends AS total, COUNT(*) AS c FROM users GROUP BY id;
+      SELECT id, total, c, note FROM totals;
+      SELECT name FROM totals`)
+    expect(diagnostics).toMatchObject([
+      {
+        code: DiagnosticCode.MissingColumn,
+        message: "Column 'name' does not exist in table 'totals'. Did you mean 'note'?",
+        statementIndex: 2
+      }
+    ])
+  })
+
+  it('does not apply statements by default', () => {
+    const analyzer = new MySQLAnalyzer({ schema, rules: { 'missing-index': 'off' } })
+    expect(analyzer.analyze(script).map(d => d.statementIndex)).toEqual([1, 3, 5])
+  })
+})
+
+describe('suppressions', () => {
+  const lookup = "SELECT * FROM users WHERE name = 'a'"
+
+  it('disables rules on the next line', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    const text = `-- mysql-analyzer-disable-next-line missing-index\n${lookup};\n${lookup}`
+    expect(analyzer.analyze(text)).toMatchObject([{ code: DiagnosticCode.MissingIndex, statementIndex: 1 }])
+  })
+
+  it('disables rules on the line of the comment', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    const text = `${lookup}; # mysql-analyzer-disable-line\nSELECT * FROM user`
+    expect(analyzer.analyze(text)).toMatchObject([{ code: DiagnosticCode.MissingTable, statementIndex: 1 }])
+  })
+
+  it('disables rules by code between disable and enable comments', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    const text = `/* mysql-analyzer-disable ${DiagnosticCode.MissingTable}, ${DiagnosticCode.MissingIndex} */
+      SELECT * FROM user; ${lookup};
+      /* mysql-analyzer-enable ${DiagnosticCode.MissingTable} */
+      SELECT * FROM user; ${lookup}`
+    expect(analyzer.analyze(text)).toMatchObject([{ code: DiagnosticCode.MissingTable, statementIndex: 2 }])
+  })
+
+  it('does not disable other rules', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    const text = `-- mysql-analyzer-disable missing-column\nSELECT * FROM user`
+    expect(analyzer.analyze(text)).toMatchObject([{ code: DiagnosticCode.MissingTable }])
+  })
+
+  it('ignores directives in strings', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    const text = `SELECT '-- mysql-analyzer-disable-line' FROM user`
+    expect(analyzer.analyze(text)).toMatchObject([{ code: DiagnosticCode.MissingTable }])
+  })
+
+  it('disables rules in embedded queries', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    const text = 'const query = sql`\n  -- mysql-analyzer-disable-next-line\n  SELECT * FROM user`'
+    expect(analyzer.analyzeSourceFile('queries.ts', text)).toEqual([])
+  })
+})
+
+describe('completions', () => {
+  function complete(textWithCursor: string): Completion[] {
+    const analyzer = new MySQLAnalyzer({ schema })
+    const offset = textWithCursor.indexOf('|')
+    return analyzer.getCompletions(textWithCursor.replace('|', ''), offset)
+  }
+
+  it('suggests the columns and aliases of the tables in scope', () => {
+    const completions = complete('SELECT | FROM users u')
+    expect(completions).toContainEqual({ label: 'email', kind: 'column', detail: 'u.email VARBINARY(24)' })
+    expect(completions).toContainEqual({ label: 'u', kind: 'alias', detail: 'users' })
+    expect(completions).toContainEqual({ label: 'SELECT', kind: 'keyword', detail: null })
+    expect(completions.some(c => c.label === 'visibility')).toBe(false)
+  })
+
+  it('suggests the columns of a qualifier', () => {
+    const completions = complete('SELECT * FROM users u JOIN posts p ON p.| = u.id')
+    expect(completions.map(c => c.label)).toEqual(['id', 'visibility'])
+  })
+
+  it('suggests tables after FROM and JOIN', () => {
+    expect(complete('SELECT * FROM po|')).toEqual([{ label: 'posts', kind: 'table', detail: 'test.posts' }])
+    expect(complete('SELECT * FROM users JOIN |').map(c => c.label)).toEqual(['posts', 'users', 'test'])
+  })
+
+  it('suggests the columns of outer queries in subqueries', () => {
+    const labels = complete('SELECT (SELECT | FROM posts) FROM users').map(c => c.label)
+    expect(labels).toContain('visibility')
+    expect(labels).toContain('friends')
+  })
+
+  it('suggests keywords that start with the word', () => {
+    expect(complete('SELECT * FROM users; SEL|')).toEqual([{ label: 'SELECT', kind: 'keyword', detail: null }])
+    expect(complete('SELECT * FROM users WHERE na|')).toEqual([
+      { label: 'name', kind: 'column', detail: 'users.name VARBINARY(24)' },
+      { label: 'NAME', kind: 'keyword', detail: null },
+      { label: 'NAMES', kind: 'keyword', detail: null },
+      { label: 'NATIONAL', kind: 'keyword', detail: null },
+      { label: 'NATURAL', kind: 'keyword', detail: null }
+    ])
+  })
+
+  it('suggests the columns of the table an unfinished UPDATE or INSERT writes to', () => {
+    expect(complete('UPDATE posts SET |').filter(c => c.kind === 'column')).toEqual([
+      { label: 'id', kind: 'column', detail: 'posts.id VARBINARY(24)' },
+      { label: 'visibility', kind: 'column', detail: "posts.visibility ENUM('public', 'private')" }
+    ])
+    expect(complete('INSERT INTO posts (id, v|')).toContainEqual({
+      label: 'visibility',
+      kind: 'column',
+      detail: "posts.visibility ENUM('public', 'private')"
+    })
+  })
+
+  it('suggests nothing in strings and comments', () => {
+    expect(complete("SELECT * FROM users WHERE name = 'a|")).toEqual([])
+    expect(complete('SELECT * FROM users WHERE name = "a|')).toEqual([])
+    expect(complete('SELECT * FROM users -- a|')).toEqual([])
+    expect(complete('SELECT * FROM users /* a|')).toEqual([])
+    expect(complete("SELECT * FROM users WHERE name = 'a' AND na|").map(c => c.label)).toContain('name')
+  })
+
+  it('leaves out the database of a schema built without a USE statement', () => {
+    const analyzer = new MySQLAnalyzer({ schema: getSchemaFromDDL('CREATE TABLE accounts (id INT)') })
+    expect(analyzer.getCompletions('SELECT * FROM ', 14)).toEqual([
+      { label: 'accounts', kind: 'table', detail: 'accounts' }
+    ])
+  })
+
+  it('suggests keywords only without a schema', () => {
+    const completions = new MySQLAnalyzer().getCompletions('SELECT * FROM ', 14)
+    expect(completions).toEqual([])
+    expect(new MySQLAnalyzer().getCompletions('SELECT ', 7).every(c => c.kind === 'keyword')).toBe(true)
+  })
+})
+
+describe('hover', () => {
+  it('describes a column', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    expect(analyzer.getHover('SELECT 1;\nSELECT u.created FROM users u', 22)).toEqual({
+      kind: 'column',
+      table: 'users',
+      column: {
+        name: 'created',
+        sqlType: 'TIMESTAMP',
+        nullable: false,
+        default: 'CURRENT_TIMESTAMP',
+        indexes: ['created']
+      },
+      start: 19,
+      stop: 25
+    })
+  })
+
+  it('describes the table of a table reference or qualifier', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    const text = 'SELECT p.id FROM posts p'
+    const hover = {
+      kind: 'table',
+      table: 'posts',
+      columns: [
+        { name: 'id', sqlType: 'VARBINARY(24)', nullable: false, default: null, indexes: [] },
+        { name: 'visibility', sqlType: "ENUM('public', 'private')", nullable: false, default: null, indexes: [] }
+      ]
+    }
+    expect(analyzer.getHover(text, 19)).toEqual({ ...hover, start: 17, stop: 21 })
+    expect(analyzer.getHover(text, 7)).toEqual({ ...hover, start: 7, stop: 7 })
+  })
+
+  it('returns null when nothing is known at the position', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    expect(analyzer.getHover('SELECT nope FROM users', 8)).toBeNull()
+    expect(analyzer.getHover('SELECT 1', 7)).toBeNull()
+    expect(new MySQLAnalyzer().getHover('SELECT id FROM users', 8)).toBeNull()
+  })
+})
+
+describe('formatting', () => {
+  it('starts clauses on new lines and normalizes spaces', () => {
+    const text = `select u.id,count(*) as n from users u left join posts p on p.id=u.id
+      where u.id = -1 and name in ('a','b') group by u.id order by n desc limit 10;insert into users (id) values (:id)`
+    expect(formatSQL(text)).toBe(`SELECT u.id, count(*) AS n
+FROM users u
+LEFT JOIN posts p ON p.id = u.id
+WHERE u.id = -1 AND name IN ('a', 'b')
+GROUP BY u.id
+ORDER BY n DESC
+LIMIT 10;
+
+INSERT INTO users (id)
+VALUES (:id)
+`)
+  })
+
+  it('keeps strings, quoted identifiers and comments', () => {
+    const text =
+      "-- find orders\nselect * from `order` # by status\nwhere status='a  b;c' /* open */ and left(name, 2) = 'ab'"
+    expect(formatSQL(text)).toBe(`-- find orders
+SELECT *
+FROM \`order\` # by status
+WHERE status = 'a  b;c' /* open */ AND LEFT(name, 2) = 'ab'
+`)
+  })
+
+  it('upper cases non-reserved keywords used as keywords, but not as names', () => {
+    const text = 'insert into t (a, name) values (1, 2) on duplicate key update a = values(a), name = values(name)'
+    expect(formatSQL(text)).toBe(`INSERT INTO t (a, name)
+VALUES (1, 2)
+ON DUPLICATE KEY UPDATE a = VALUES(a), name = VALUES(name)
+`)
+  })
+
+  it('keeps prefixed strings and JSON operators together', () => {
+    const text = "select b'101', X'0A', N'abc', _utf8mb4'a', doc->>'$.name', doc->'$.id' from t"
+    expect(formatSQL(text, new MySQLParser({ version: '8.0.20' }))).toBe(
+      "SELECT b'101', X'0A', N'abc', _utf8mb4'a', doc->>'$.name', doc->'$.id'\nFROM t\n"
+    )
+  })
+
+  it('leaves the text unchanged if a statement would no longer parse once formatted', () => {
+    const parser = new MySQLParser()
+    const parse = parser.parse.bind(parser)
+    // a parser that rejects the line breaks formatting adds
+    jest.spyOn(parser, 'parse').mockImplementation((statement: string) => parse(statement.replace(/\n/g, ' FROM ')))
+    const text = 'select id from users; select id from posts'
+    expect(formatSQL(text, parser)).toBe(text)
+    expect(formatSQL('select 1e-3, .5e2, 1.5E+3 from t')).toBe('SELECT 1e-3, .5e2, 1.5E+3\nFROM t\n')
+  })
+})
+
+describe('query logs', () => {
+  const slowLog = `/usr/sbin/mysqld, Version: 8.0.32 (MySQL Community Server - GPL). started with:
+Tcp port: 3306  Unix socket: /var/run/mysqld/mysqld.sock
+Time                 Id Command    Argument
+# Time: 2023-01-01T10:00:00.000000Z
+# User@Host: app[app] @ localhost []  Id:     8
+# Query_time: 0.500000  Lock_time: 0.000010 Rows_sent: 1  Rows_examined: 100
+use test;
+SET timestamp=1672567200;
+SELECT * FROM users
+WHERE mail = 'a@example.com';
+# Time: 2023-01-01T10:00:01.000000Z
+# User@Host: app[app] @ localhost []  Id:     8
+# Query_time: 1.500000  Lock_time: 0.000010 Rows_sent: 1  Rows_examined: 200
+SET timestamp=1672567201;
+select * from users where mail = 'b@example.com';
+# Time: 2023-01-01T10:00:02.000000Z
+# User@Host: app[app] @ localhost []  Id:     8
+# Query_time: 0.100000  Lock_time: 0.000010 Rows_sent: 1  Rows_examined: 1
+SET timestamp=1672567202;
+SELECT id FROM users WHERE id = 'a';
+`
+
+  it('fingerprints queries that only differ in their values alike', () => {
+    const { fingerprint, digest } = fingerprintQuery(
+      "select * from users where id in (1, 2, -3) and name = 'a' -- note"
+    )
+    expect(fingerprint).toBe('SELECT * FROM users WHERE id IN (?) AND name = ?')
+    expect(digest).toMatch(/^[0-9a-f]{64}$/)
+    expect(fingerprintQuery("SELECT *  FROM users WHERE id IN (4) AND name = 'b';").digest).toBe(digest)
+    expect(fingerprintQuery('INSERT INTO users (id, name) VALUES (:id, ?), (0x1f, 1.5e3)').fingerprint).toBe(
+      'INSERT INTO users (id, name) VALUES (?)'
+    )
+    expect(fingerprintQuery('SELECT COUNT(*), @n := n - 1 FROM `order` LIMIT 10').fingerprint).toBe(
+      'SELECT COUNT(*), @n := n - ? FROM `order` LIMIT ?'
+    )
+  })
+
+  it('reads slow query logs', () => {
+    expect(parseQueryLog(slowLog)[0]).toEqual({
+      text: "SELECT * FROM users\nWHERE mail = 'a@example.com'",
+      database: 'test',
+      timestamp: '2023-01-01T10:00:00.000000Z',
+      queryTime: 0.5,
+      lockTime: 0.00001,
+      rowsSent: 1,
+      rowsExamined: 100
+    })
+    expect(parseQueryLog(slowLog)).toHaveLength(3)
+  })
+
+  it('reads general query logs', () => {
+    const generalLog = `Time                 Id Command    Argument
+2023-01-01T10:00:00.000000Z\t    8 Connect\tapp@localhost on test using Socket
+2023-01-01T10:00:00.100000Z\t    8 Query\tSELECT *
+FROM posts
+2023-01-01T10:00:00.200000Z\t    9 Connect\tapp@localhost on  using Socket
+2023-01-01T10:00:00.300000Z\t    8 Init DB\tother
+2023-01-01T10:00:00.400000Z\t    8 Query\tSELECT 1
+2023-01-01T10:00:00.500000Z\t    8 Quit\t`
+    const queries = parseQueryLog(generalLog)
+    expect(queries.map(({ text, database }) => ({ text, database }))).toEqual([
+      { text: 'SELECT *\nFROM posts', database: 'test' },
+      { text: 'SELECT 1', database: 'other' }
+    ])
+    expect(queries[0]).toMatchObject({ timestamp: '2023-01-01T10:00:00.100000Z', queryTime: null, rowsExamined: null })
+  })
+
+  it('groups the queries of a log and ranks them by the time they took', () => {
+    const analyzer = new MySQLAnalyzer({ schema, rules: { 'missing-index': 'off' } })
+    const groups = analyzer.analyzeQueryLog(parseQueryLog(slowLog))
+    expect(groups).toMatchObject([
+      {
+        fingerprint: 'SELECT * FROM users WHERE mail = ?',
+        digest: fingerprintQuery('SELECT * FROM users WHERE mail = ?').digest,
+        sample: "select * from users where mail = 'b@example.com'",
+        database: 'test',
+        count: 2,
+        queryTime: 2,
+        maxQueryTime: 1.5,
+        rowsExamined: 300
+      },
+      {
+        fingerprint: 'SELECT id FROM users WHERE id = ?',
+        digest: fingerprintQuery('SELECT id FROM users WHERE id = ?').digest,
+        sample: "SELECT id FROM users WHERE id = 'a'",
+        database: 'test',
+        count: 1,
+        queryTime: 0.1,
+        maxQueryTime: 0.1,
+        rowsExamined: 1
+      }
+    ])
+    expect(groups[0].diagnostics.map(d => d.code)).toEqual([DiagnosticCode.MissingColumn])
+    expect(groups[1].diagnostics).toEqual([])
+  })
+})
+
+describe('explain plans', () => {
+  const plan = JSON.parse(`{
+    "query_block": {
+      "select_id": 1,
+      "ordering_operation": {
+        "using_temporary_table": true,
+        "using_filesort": true,
+        "nested_loop": [
+          { "table": { "table_name": "u", "access_type": "ALL", "possible_keys": ["PRIMARY"], "rows_examined_per_scan": 5000 } },
+          { "table": { "table_name": "p", "access_type": "ALL", "rows_examined_per_scan": 20000 } }
+        ]
+      }
+    }
+  }`)
+  const text = 'SELECT * FROM users u JOIN posts p ON p.id = u.id ORDER BY p.visibility'
+
+  it('reports full scans, filesorts and temporary tables at their table references', () => {
+    const analyzer = new MySQLAnalyzer({ schema, rules: { 'missing-index': 'off', filesort: 'off' } })
+    expect(analyzer.analyze(text, { explain: plan })).toMatchObject([
+      {
+        code: DiagnosticCode.FullTableScan,
+        message: "Table 'p' is read in full (about 20000 rows) because no index can be used.",
+        start: 27,
+        stop: 31
+      },
+      { code: DiagnosticCode.PlannedFilesort, message: "The rows read from table 'u' are sorted with a filesort." },
+      { code: DiagnosticCode.TemporaryTable, start: 14, stop: 18 },
+      {
+        code: DiagnosticCode.UnusedIndex,
+        message: "Table 'u' is read in full (about 5000 rows) instead of with index 'PRIMARY'.",
+        severity: DiagnosticSeverity.Warning,
+        start: 14,
+        stop: 18
+      }
+    ])
+  })
+
+  it('configures each kind of plan problem apart', () => {
+    const analyzer = new MySQLAnalyzer({
+      schema,
+      rules: { 'missing-index': 'off', filesort: 'off', 'planned-filesort': 'off', 'unused-index': 'error' }
+    })
+    expect(analyzer.analyze(text, { explain: plan })).toMatchObject([
+      { code: DiagnosticCode.FullTableScan, severity: DiagnosticSeverity.Warning },
+      { code: DiagnosticCode.TemporaryTable },
+      { code: DiagnosticCode.UnusedIndex, severity: DiagnosticSeverity.Error }
+    ])
+  })
+
+  it('reports large row estimates and ignores small tables', () => {
+    const analyzer = new MySQLAnalyzer({ schema, explainRowsThreshold: 100 })
+    const explain = `*************************** 1. row ***************************
+EXPLAIN: {
+  "query_block": {
+    "select_id": 1,
+    "nested_loop": [
+      { "table": { "table_name": "users", "access_type": "ALL", "rows_examined_per_scan": 10 } },
+      { "table": { "table_name": "posts", "access_type": "ref", "key": "id", "rows_examined_per_scan": 500 } }
+    ]
+  }
+}`
+    const diagnostics = analyzer.analyze('SELECT 1;\nSELECT * FROM users JOIN posts ON posts.id = users.id', {
+      explain: [null, explain]
+    })
+    expect(diagnostics.filter(d => d.code >= DiagnosticCode.FullTableScan)).toMatchObject([
+      {
+        code: DiagnosticCode.LargeRowsExamined,
+        message: "About 500 rows of table 'posts' are read with index 'id' for each lookup.",
+        startLine: 2,
+        startColumn: 26,
+        statementIndex: 1
+      }
+    ])
+    expect(() => analyzer.analyze('SELECT 1', { explain: 'id select_type table' })).toThrow(
+      'The text is not the output of EXPLAIN FORMAT=JSON.'
+    )
+  })
+})
+
+describe('fixes', () => {
+  it('suggests replacements for invalid tables', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    const diagnostics = analyzer.analyze('SELECT * FROM `user`')
+    expect(diagnostics).toMatchObject([
+      {
+        code: DiagnosticCode.MissingTable,
+        fixes: [{ message: "Change to 'users'.", edits: [{ start: 14, stop: 20, text: '`users`' }] }]
+      }
+    ])
+  })
+
+  it('suggests replacements for invalid columns', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    const diagnostics = analyzer.analyze('SELECT 1; SELECT nme FROM users')
+    expect(diagnostics).toMatchObject([
+      {
+        code: DiagnosticCode.MissingColumn,
+        fixes: [{ message: "Change to 'name'.", edits: [{ start: 17, stop: 20, text: 'name' }] }]
+      }
+    ])
+  })
+
+  it('suggests an index for columns with missing indices', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    const diagnostics = analyzer.analyze('SELECT * FROM users WHERE name = "some-string"')
+    expect(diagnostics).toMatchObject([
+      {
+        code: DiagnosticCode.MissingIndex,
+        fixes: [{ edits: [], statement: 'CREATE INDEX `name` ON `users` (`name`);' }]
+      }
+    ])
+  })
+
+  it('quotes the names of suggested indexes', () => {
+    const orderSchema = getSchemaFromDDL('CREATE TABLE `order` (id INT NOT NULL, `key` INT)')
+    const analyzer = new MySQLAnalyzer({ schema: orderSchema })
+    const diagnostics = analyzer.analyze('SELECT * FROM `order` WHERE `key` = 1')
+    expect(diagnostics).toMatchObject([
+      { code: DiagnosticCode.MissingIndex, fixes: [{ statement: 'CREATE INDEX `key` ON `order` (`key`);' }] }
+    ])
+  })
+
+  it('suggests a column list for INSERT statements that set every column', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    const diagnostics = analyzer.analyze('INSERT INTO posts VALUES ("1", "public")')
+    expect(diagnostics).toMatchObject([
+      {
+        code: DiagnosticCode.ColumnRowMismatch,
+        fixes: [{ edits: [{ start: 17, stop: 17, text: ' (id, visibility)' }] }]
+      }
+    ])
+  })
+
+  it('applies fixes', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    const text = 'SELECT nme, emal FROM user'
+    const fixed = applyFixes(text, analyzer.analyze(text))
+    expect(fixed).toBe('SELECT nme, emal FROM users')
+    expect(applyFixes(fixed, analyzer.analyze(fixed))).toBe('SELECT name, email FROM users')
+  })
+})
+
+describe('positions', () => {
+  it('returns lines, columns and statement indices', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    const diagnostics = analyzer.analyze('SELECT * FROM users;\n\nSELECT *\nFROM user;\nSELECT nme FROM users')
+    expect(diagnostics).toMatchObject([
+      {
+        code: DiagnosticCode.MissingTable,
+        start: 36,
+        stop: 39,
+        startLine: 4,
+        startColumn: 6,
+        stopLine: 4,
+        stopColumn: 9,
+        statementIndex: 1
+      },
+      {
+        code: DiagnosticCode.MissingColumn,
+        start: 49,
+        stop: 51,
+        startLine: 5,
+        startColumn: 8,
+        stopLine: 5,
+        stopColumn: 10,
+        statementIndex: 2
+      }
+    ])
+  })
+})
+
+describe('parameters', () => {
+  it('returns no diagnostics for valid parameters', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    const diagnostics = analyzer.analyze('SELECT * FROM users WHERE friends = ? AND id = ?', { params: [1, 'a'] })
+    expect(diagnostics).toEqual([])
+  })
+
+  it('returns diagnostic for positional parameters of the wrong type', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    const diagnostics = analyzer.analyze('SELECT * FROM users WHERE friends = ? AND id = ?', { params: ['a', 'b'] })
+    expect(diagnostics).toMatchObject([
+      {
+        message: 'Type string is not assignable to type number.',
+        start: 36,
+        stop: 36,
+        code: DiagnosticCode.TypeMismatch
+      }
+    ])
+  })
+
+  it('returns diagnostic for named parameters of the wrong type', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    const diagnostics = analyzer.analyze('SELECT * FROM users WHERE friends = :friends AND name = :name', {
+      params: { friends: 'a', name: null }
+    })
+    expect(diagnostics).toMatchObject([
+      {
+        message: 'Type string is not assignable to type number.',
+        start: 36,
+        stop: 43,
+        code: DiagnosticCode.TypeMismatch
+      }
+    ])
+  })
+
+  it('checks parameters assigned in UPDATE and INSERT statements', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    const update = analyzer.analyze('UPDATE users SET project = ?, enabled = ? WHERE id = ?', {
+      params: [null, null, 'a']
+    })
+    expect(update).toMatchObject([{ message: 'Type null is not assignable to type boolean.', start: 40 }])
+
+    const insert = analyzer.analyze('INSERT INTO users (id, friends) VALUES (?, ?)', { params: ['a', true] })
+    expect(insert).toMatchObject([{ message: 'Type boolean is not assignable to type number.', start: 43 }])
+  })
+
+  it('checks parameters in IN lists', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    const diagnostics = analyzer.analyze('SELECT * FROM users WHERE friends IN (?, ?)', { params: [1, 'a'] })
+    expect(diagnostics).toMatchObject([{ code: DiagnosticCode.TypeMismatch, start: 41 }])
+  })
+
+  it('checks parameters in lists of one value', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    expect(analyzer.analyze('SELECT * FROM users WHERE friends IN (?)', { params: ['a'] })).toMatchObject([
+      { message: 'Type string is not assignable to type number.', start: 38 }
+    ])
+    const insert = analyzer.analyze('INSERT INTO users (friends) VALUES (?)', { params: ['a'] })
+    expect(insert.filter(d => d.code === DiagnosticCode.TypeMismatch)).toMatchObject([
+      { message: 'Type string is not assignable to type number.', start: 36 }
+    ])
+  })
+
+  it('ignores placeholders in strings and comments', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    const diagnostics = analyzer.analyze("SELECT * FROM users WHERE id = '?' /* ? */ AND friends = ?", { params: [1] })
+    expect(diagnostics).toEqual([])
+  })
+
+  it('binds positional parameters across statements', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    const diagnostics = analyzer.analyze('SELECT * FROM users WHERE id = ?; SELECT * FROM users WHERE friends = ?', {
+      params: ['a', 'b']
+    })
+    expect(diagnostics).toMatchObject([{ code: DiagnosticCode.TypeMismatch, start: 70, statementIndex: 1 }])
+  })
+
+  it('returns diagnostic for too few positional parameters', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    const diagnostics = analyzer.analyze('SELECT * FROM users WHERE id = ? AND name = ? AND friends = ?', {
+      params: ['a']
+    })
+    expect(diagnostics).toMatchObject([
+      {
+        severity: DiagnosticSeverity.Error,
+        message: 'Expected 3 parameters, but got 1.',
+        start: 44,
+        stop: 44,
+        code: DiagnosticCode.ParameterCountMismatch
+      }
+    ])
+  })
+
+  it('returns diagnostic for too many positional parameters', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    const diagnostics = analyzer.analyze('SELECT * FROM users WHERE id = ?', { params: ['a', 'b'] })
+    expect(diagnostics).toMatchObject([
+      {
+        message: 'Expected 1 parameter, but got 2.',
+        start: 0,
+        stop: 32,
+        code: DiagnosticCode.ParameterCountMismatch
+      }
+    ])
+  })
+
+  it('returns diagnostic for a single placeholder without a value', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    expect(analyzer.analyze('SELECT * FROM users WHERE id = ?', { params: [] })).toMatchObject([
+      { message: 'Expected 1 parameter, but got 0.', start: 31, stop: 31, code: DiagnosticCode.ParameterCountMismatch }
+    ])
+  })
+
+  it('returns diagnostic for placeholders of the other kind than the values', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    const text = 'SELECT * FROM users WHERE id = :id AND name = ?'
+    expect(analyzer.analyze(text, { params: { id: 'a' } })).toMatchObject([
+      {
+        message: "No value is bound to parameter '?', because the values are bound by name.",
+        start: 46,
+        stop: 46,
+        code: DiagnosticCode.ParameterCountMismatch
+      }
+    ])
+    expect(analyzer.analyze(text, { params: ['a'] })).toMatchObject([
+      {
+        message: "No value is bound to parameter ':id', because the values are bound by position.",
+        start: 31,
+        stop: 33,
+        code: DiagnosticCode.ParameterCountMismatch
+      }
+    ])
+  })
+
+  it('returns diagnostic for missing named parameters', () => {
+    const analyzer = new MySQLAnalyzer({ schema })
+    const diagnostics = analyzer.analyze('SELECT * FROM users WHERE id = :id AND name = :name', { params: { id: 'a' } })
+    expect(diagnostics).toMatchObject([
+      {
+        message: "No value is bound to parameter ':name'.",
+        start: 46,
+        stop: 50,
+        code: DiagnosticCode.ParameterCountMismatch
+      }
+    ])
+  })
+})
@@ -0,0 +1,81 @@
+import ts from 'typescript/lib/tsserverlibrary'
+import path from 'path'
+import init from '../plugin'
+
+const fileName = '/project/queries.ts'
+
+function createLanguageService(text: string): ts.LanguageService {
+  const host: ts.LanguageServiceHost = {
+    getCompilationSettings: () => ({ noLib: true }),
+    getScriptFileNames: () => [fileName],
+    getScriptVersion: () => '1',
+    getScriptSnapshot: name => (name === fileName ? ts.ScriptSnapshot.fromString(text) : undefined),
+    getCurrentDirectory: () => '/project',
+    getDefaultLibFileName: () => 'lib.d.ts'
+  }
+  return ts.createLanguageService(host)
+}
+
+function createPlugin(
+  text: string,
+  config: object
+): { languageService: ts.LanguageService; refreshed: Promise<void>; logs: string[] } {
+  const logs: string[] = []
+  let refresh: () => void = () => undefined
+  const refreshed = new Promise<void>(resolve => (refresh = resolve))
+
+  const project = {
+    getCurrentDirectory: (): string => path.join(__dirname, '../..'),
+    refreshDiagnostics: (): void => refresh(),
+    projectService: { logger: { info: (message: string): number => logs.push(message) } }
+  }
+  const info = ({
+    config,
+    project,
+    languageService: createLanguageService(text)
+  } as unknown) as ts.server.PluginCreateInfo
+
+  const languageService = init({ typescript: ts }).create(info)
+  return { languageService, refreshed, logs }
+}
+
+describe('language service plugin', () => {
+  const text = [
+    'export const a = sql`SELECT * FROM user`',
+    'export const b = sql`SELEC 1`',
+    "export const c = sql`SELECT * FROM users WHERE name = 'a'`"
+  ].join('\n')
+
+  it('reports analyzer diagnostics with their own codes', async () => {
+    const { languageService, refreshed } = createPlugin(text, { schema: 'data/data.sql' })
+    await refreshed
+
+    const diagnostics = languageService.getSemanticDiagnostics(fileName).filter(d => d.source === 'mysql-analyzer')
+    expect(diagnostics).toMatchObject([
+      { start: 35, length: 4, code: 91004, category: ts.DiagnosticCategory.Warning },
+      { code: 91002, category: ts.DiagnosticCategory.Error }
+    ])
+  })
+
+  it('reports suggestions as suggestion diagnostics', async () => {
+    const { languageService, refreshed } = createPlugin(text, { schema: 'data/data.sql' })
+    await refreshed
+
+    const suggestions = languageService.getSuggestionDiagnostics(fileName).filter(d => d.source === 'mysql-analyzer')
+    expect(suggestions).toMatchObject([{ code: 91007, category: ts.DiagnosticCategory.Suggestion }])
+  })
+
+  it('reports syntax errors before the schema is loaded', () => {
+    const { languageService } = createPlugin(text, {})
+
+    const diagnostics = languageService.getSemanticDiagnostics(fileName).filter(d => d.source === 'mysql-analyzer')
+    expect(diagnostics).toMatchObject([{ code: 91002 }])
+  })
+
+  it('logs invalid configuration and leaves the language service unchanged', () => {
+    const { languageService, logs } = createPlugin(text, { rules: { 'no-such-rule': 'off' } })
+
+    expect(languageService.getSemanticDiagnostics(fileName).some(d => d.source === 'mysql-analyzer')).toBe(false)
+    expect(logs).toEqual(["ts-mysql-analyzer: Unknown rule 'no-such-rule'."])
+  })
+})
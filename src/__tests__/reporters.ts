@@ -0,0 +1,139 @@
+import {
+  MySQLAnalyzer,
+  DiagnosticCode,
+  FileDiagnostics,
+  formatJSON,
+  formatSARIF,
+  formatJUnit,
+  formatCheckstyle,
+  getDiagnosticRule,
+  getSchemaFromDDL
+} from '../'
+
+let files: FileDiagnostics[]
+
+beforeAll(() => {
+  const schema = getSchemaFromDDL('CREATE TABLE users (id INT PRIMARY KEY, name VARCHAR(255) NOT NULL)')
+  const analyzer = new MySQLAnalyzer({ schema })
+  files = [
+    {
+      file: 'queries/users.sql',
+      diagnostics: analyzer.analyze('SELECT * FROM users;\nSELECT * FROM user')
+    },
+    { file: 'queries/valid.sql', diagnostics: [] },
+    { file: 'queries/syntax.sql', diagnostics: analyzer.analyze('SELT 1') }
+  ]
+})
+
+describe('getDiagnosticRule', () => {
+  it('gets the rule of each diagnostic code', () => {
+    expect(getDiagnosticRule(DiagnosticCode.MissingTable)).toMatchObject({
+      id: 'missing-table',
+      name: 'MissingTable',
+      description: 'A table reference that does not exist in the schema.'
+    })
+    expect(getDiagnosticRule(DiagnosticCode.RequiredColumnWithoutDefault).id).toBe('required-column-without-default')
+    expect(getDiagnosticRule(9000)).toEqual({ id: '9000', name: '9000', description: '', help: '' })
+  })
+
+  it('names the rule after the rule that reported the diagnostic', () => {
+    expect(getDiagnosticRule(DiagnosticCode.DroppedColumn, 'column-removal')).toMatchObject({
+      id: 'column-removal',
+      name: 'DroppedColumn',
+      description: 'A column dropped by a migration.'
+    })
+    expect(getDiagnosticRule(9000, 'no-select-star')).toMatchObject({ id: 'no-select-star', name: 'no-select-star' })
+  })
+})
+
+describe('reporters', () => {
+  it('formats diagnostics as JSON', () => {
+    expect(JSON.parse(formatJSON(files))[0]).toEqual({
+      file: 'queries/users.sql',
+      diagnostics: [
+        {
+          ruleId: 'missing-table',
+          code: DiagnosticCode.MissingTable,
+          severity: 'warning',
+          message: "Table 'user' does not exist. Did you mean 'users'?",
+          start: 35,
+          stop: 38,
+          startLine: 2,
+          startColumn: 15,
+          stopLine: 2,
+          stopColumn: 18,
+          statementIndex: 1,
+          fixes: [{ message: "Change to 'users'.", edits: [{ start: 35, stop: 39, text: 'users' }] }]
+        }
+      ]
+    })
+  })
+
+  it('formats diagnostics as SARIF', () => {
+    const log = JSON.parse(formatSARIF(files))
+    expect(log.version).toBe('2.1.0')
+    expect(log.runs[0].tool.driver.rules).toMatchObject([
+      { id: 'parser-error', name: 'ParserError' },
+      { id: 'missing-table', name: 'MissingTable', help: { text: expect.any(String) } }
+    ])
+    expect(log.runs[0].results).toEqual([
+      {
+        ruleId: 'missing-table',
+        ruleIndex: 1,
+        level: 'warning',
+        message: { text: "Table 'user' does not exist. Did you mean 'users'?" },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: 'queries/users.sql' },
+              region: { startLine: 2, startColumn: 15, endLine: 2, endColumn: 19, charOffset: 35, charLength: 4 }
+            }
+          }
+        ]
+      },
+      expect.objectContaining({ ruleId: 'parser-error', ruleIndex: 0, level: 'error' })
+    ])
+  })
+
+  it('reports diagnostics under the names rules are configured and suppressed by', () => {
+    const schema = getSchemaFromDDL('CREATE TABLE users (id INT PRIMARY KEY, name VARCHAR(255) NOT NULL)')
+    const analyzer = new MySQLAnalyzer({ schema })
+    const text = 'ALTER TABLE users DROP COLUMN name, ADD COLUMN age INT NOT NULL'
+    const diagnostics = analyzer.analyze(text)
+    expect(diagnostics.map(d => d.rule)).toEqual(['column-removal', 'required-column-addition'])
+
+    const migrations = [{ file: 'migrations/1.sql', diagnostics }]
+    expect(JSON.parse(formatJSON(migrations))[0].diagnostics.map((d: { ruleId: string }) => d.ruleId)).toEqual([
+      'column-removal',
+      'required-column-addition'
+    ])
+    expect(JSON.parse(formatSARIF(migrations)).runs[0].tool.driver.rules).toMatchObject([
+      { id: 'column-removal', name: 'DroppedColumn' },
+      { id: 'required-column-addition', name: 'RequiredColumnWithoutDefault' }
+    ])
+    expect(formatCheckstyle(migrations)).toContain('source="ts-mysql-analyzer.column-removal"')
+    expect(analyzer.analyze(`-- mysql-analyzer-disable-next-line column-removal\n${text}`)).toMatchObject([
+      { rule: 'required-column-addition' }
+    ])
+  })
+
+  it('formats diagnostics as JUnit XML', () => {
+    const xml = formatJUnit(files)
+    expect(xml).toContain('<testsuites name="ts-mysql-analyzer" tests="3" failures="2">')
+    expect(xml).toContain('<testsuite name="queries/valid.sql" tests="1" failures="0" errors="0">')
+    expect(xml).toContain('<testcase name="queries/valid.sql" classname="queries/valid.sql" />')
+    expect(xml).toContain('<testcase name="missing-table (2:15)" classname="queries/users.sql">')
+    expect(xml).toContain(
+      `<failure type="warning" message="Table &apos;user&apos; does not exist. Did you mean &apos;users&apos;?">`
+    )
+  })
+
+  it('formats diagnostics as Checkstyle XML', () => {
+    const xml = formatCheckstyle(files)
+    expect(xml).toContain('<checkstyle version="4.3">')
+    expect(xml).toContain(
+      `<error line="2" column="15" severity="warning" message="Table &apos;user&apos; does not exist. Did you mean &apos;users&apos;?" source="ts-mysql-analyzer.missing-table" />`
+    )
+    expect(xml).toContain('<file name="queries/valid.sql">\n  </file>')
+  })
+})
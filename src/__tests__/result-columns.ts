@@ -0,0 +1,71 @@
+import { MySQLAnalyzer, getSchemaFromDDLFile } from '../'
+import { Schema } from 'ts-mysql-schema'
+import path from 'path'
+
+let schema: Schema
+let analyzer: MySQLAnalyzer
+
+beforeAll(async () => {
+  schema = await getSchemaFromDDLFile(path.join(__dirname, '../../data/data.sql'))
+  analyzer = new MySQLAnalyzer({ schema })
+})
+
+describe('MySQLAnalyzer.getResultColumns', () => {
+  it('expands *', () => {
+    expect(analyzer.getResultColumns('SELECT * FROM posts')).toEqual([
+      { name: 'id', alias: null, table: 'posts', sqlType: 'varbinary', tsType: 'string', nullable: false },
+      { name: 'visibility', alias: null, table: 'posts', sqlType: 'enum', tsType: 'string', nullable: false }
+    ])
+  })
+
+  it('resolves columns, aliases and table aliases', () => {
+    const columns = analyzer.getResultColumns('SELECT u.id AS userId, name, `u`.`friends` FROM users AS u')
+    expect(columns).toEqual([
+      { name: 'userId', alias: 'userId', table: 'users', sqlType: 'varbinary', tsType: 'string', nullable: false },
+      { name: 'name', alias: null, table: 'users', sqlType: 'varbinary', tsType: 'string', nullable: true },
+      { name: 'friends', alias: null, table: 'users', sqlType: 'int', tsType: 'number', nullable: false }
+    ])
+  })
+
+  it('expands table.*', () => {
+    const columns = analyzer.getResultColumns('SELECT p.*, u.id FROM users u JOIN posts p ON p.id = u.id')
+    expect(columns?.map(c => `${c.table}.${c.name}`)).toEqual(['posts.id', 'posts.visibility', 'users.id'])
+  })
+
+  it('makes the columns of outer joined tables nullable', () => {
+    const left = analyzer.getResultColumns('SELECT u.id, p.id FROM users u LEFT JOIN posts p ON p.id = u.id')
+    expect(left?.map(c => c.nullable)).toEqual([false, true])
+
+    const right = analyzer.getResultColumns('SELECT u.id, p.id FROM users u RIGHT JOIN posts p ON p.id = u.id')
+    expect(right?.map(c => c.nullable)).toEqual([true, false])
+  })
+
+  it('infers the columns of derived tables', () => {
+    const columns = analyzer.getResultColumns('SELECT t.total FROM (SELECT friends AS total FROM users) AS t')
+    expect(columns).toMatchObject([{ name: 'total', table: 'users', tsType: 'number', nullable: false }])
+  })
+
+  it('infers the columns of common table expressions', () => {
+    const mysql8 = new MySQLAnalyzer({ schema, parserOptions: { version: '8.0.0' } })
+    const columns = mysql8.getResultColumns('WITH t (userId) AS (SELECT id FROM users) SELECT * FROM t')
+    expect(columns).toEqual([
+      { name: 'userId', alias: null, table: 'users', sqlType: 'varbinary', tsType: 'string', nullable: false }
+    ])
+  })
+
+  it('names expressions by their text, and infers their types', () => {
+    const columns = analyzer.getResultColumns('SELECT COUNT(*), friends + 1 AS more, NOW(), @x FROM users')
+    expect(columns).toEqual([
+      { name: 'COUNT(*)', alias: null, table: null, sqlType: null, tsType: 'number', nullable: false },
+      { name: 'more', alias: 'more', table: null, sqlType: null, tsType: 'number', nullable: true },
+      { name: 'NOW()', alias: null, table: null, sqlType: null, tsType: 'date', nullable: false },
+      { name: '@x', alias: null, table: null, sqlType: null, tsType: null, nullable: true }
+    ])
+  })
+
+  it('returns null for statements that are not valid SELECT statements', () => {
+    expect(analyzer.getResultColumns('DELETE FROM users')).toBeNull()
+    expect(analyzer.getResultColumns('SELEC * FROM users')).toBeNull()
+    expect(new MySQLAnalyzer().getResultColumns('SELECT * FROM users')).toBeNull()
+  })
+})
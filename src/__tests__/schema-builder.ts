@@ -0,0 +1,169 @@
+import { SchemaBuilder, getSchemaFromDDL } from '../'
+
+describe('SchemaBuilder', () => {
+  it('builds tables and columns from CREATE TABLE statements', () => {
+    const schema = getSchemaFromDDL(`
+      CREATE DATABASE test;
+      USE test;
+      CREATE TABLE users (
+        id      VARBINARY(24) NOT NULL,
+        name    VARCHAR(24),
+        created TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+        enabled BOOLEAN DEFAULT TRUE NOT NULL,
+        friends INT NOT NULL,
+
+        PRIMARY KEY(id),
+        INDEX(created)
+      );
+    `)
+    expect(schema.config.schema).toBe('test')
+    expect(schema.tables).toMatchObject([
+      {
+        name: 'users',
+        columns: [
+          { name: 'id', sqlType: 'varbinary', tsType: 'string', optional: false, default: null, index: 'primary' },
+          { name: 'name', sqlType: 'varchar', tsType: 'string', optional: true, default: null, index: null },
+          {
+            name: 'created',
+            sqlType: 'timestamp',
+            tsType: 'date',
+            optional: false,
+            default: 'CURRENT_TIMESTAMP',
+            index: 'nonunique'
+          },
+          { name: 'enabled', sqlType: 'tinyint', tsType: 'boolean', optional: false, default: '1', index: null },
+          { name: 'friends', sqlType: 'int', tsType: 'number', optional: false, default: null, index: null }
+        ]
+      }
+    ])
+  })
+
+  it('reports index keys the way information_schema does', () => {
+    const schema = getSchemaFromDDL(`
+      CREATE TABLE t (
+        a INT,
+        b INT UNIQUE,
+        c INT,
+        d INT,
+        UNIQUE KEY cd (c, d)
+      )
+    `)
+    expect(schema.tables[0].columns.map(c => c.index)).toEqual([null, 'unique', 'nonunique', null])
+  })
+
+  it('exposes the indexes of tables with their columns in index order', () => {
+    const schema = getSchemaFromDDL(`
+      CREATE TABLE t (id INT PRIMARY KEY, a INT, b INT, UNIQUE KEY ba (b, a), INDEX (a));
+    `)
+    expect(schema.tables[0]).toMatchObject({
+      indexes: [
+        { name: 'PRIMARY', key: 'primary', columns: ['id'] },
+        { name: 'ba', key: 'unique', columns: ['b', 'a'] },
+        { name: 'a', key: 'nonunique', columns: ['a'] }
+      ]
+    })
+  })
+
+  it('exposes the details of column definitions', () => {
+    const schema = getSchemaFromDDL(`
+      CREATE TABLE t (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT PRIMARY KEY,
+        code CHAR,
+        name VARCHAR(24),
+        kind ENUM('a', 'b'),
+        total INT AS (id * 2)
+      );
+    `)
+    expect(schema.tables[0].columns).toMatchObject([
+      { name: 'id', length: null, values: null, unsigned: true, autoIncrement: true, generated: false },
+      { name: 'code', length: 1 },
+      { name: 'name', length: 24, unsigned: false, autoIncrement: false },
+      { name: 'kind', values: ['a', 'b'] },
+      { name: 'total', generated: true }
+    ])
+  })
+
+  it('applies ALTER TABLE statements', () => {
+    const schema = getSchemaFromDDL(`
+      CREATE TABLE t (id INT PRIMARY KEY, a INT, b INT, KEY ab (a, b));
+      ALTER TABLE t
+        ADD COLUMN c VARCHAR(10) NOT NULL DEFAULT 'x' AFTER id,
+        DROP COLUMN a,
+        CHANGE b b2 BIGINT,
+        ADD INDEX (c);
+    `)
+    expect(schema.tables[0].columns).toMatchObject([
+      { name: 'id', index: 'primary' },
+      { name: 'c', sqlType: 'varchar', optional: false, default: 'x', index: 'nonunique' },
+      { name: 'b2', sqlType: 'bigint', optional: true, index: 'nonunique' }
+    ])
+  })
+
+  it('applies CREATE INDEX, DROP INDEX, RENAME TABLE and DROP TABLE statements', () => {
+    const schema = getSchemaFromDDL(`
+      CREATE TABLE a (id INT, KEY id_key (id));
+      CREATE TABLE b (id INT);
+      CREATE UNIQUE INDEX id_unique ON b (id);
+      DROP INDEX id_key ON a;
+      RENAME TABLE b TO c;
+      DROP TABLE IF EXISTS missing;
+    `)
+    expect(schema.tables).toMatchObject([
+      { name: 'a', columns: [{ name: 'id', index: null }] },
+      { name: 'c', columns: [{ name: 'id', index: 'unique' }] }
+    ])
+  })
+
+  it('keeps the tables of each database separate', () => {
+    const builder = new SchemaBuilder().addDDL(`
+      CREATE TABLE one.a (id INT);
+      CREATE TABLE two.b (id INT);
+      USE two;
+    `)
+    expect(builder.getSchema().tables.map(t => t.name)).toEqual(['b'])
+    expect(builder.getSchema('one').tables.map(t => t.name)).toEqual(['a'])
+  })
+
+  it('applies statements to the tables of an existing schema', () => {
+    const schema = getSchemaFromDDL('CREATE TABLE users (id INT PRIMARY KEY, name VARCHAR(50) NOT NULL)')
+    const builder = new SchemaBuilder({ database: 'app' }).addSchema(schema, 'app').addDDL(`
+      ALTER TABLE users ADD email VARCHAR(255);
+      CREATE TABLE posts (id INT);
+    `)
+    expect(builder.getSchema().tables).toMatchObject([
+      { name: 'posts' },
+      {
+        name: 'users',
+        columns: [
+          { name: 'id', index: 'primary' },
+          { name: 'name', length: 50 },
+          { name: 'email', length: 255 }
+        ],
+        indexes: [{ name: 'PRIMARY', columns: ['id'] }]
+      }
+    ])
+  })
+  it('creates the columns of CREATE TABLE ... AS SELECT statements from the SELECT', () => {
+    const schema = getSchemaFromDDL(`
+      CREATE TABLE users (id INT PRIMARY KEY, name VARCHAR(50) NOT NULL, age INT);
+      CREATE TABLE summary (id BIGINT, note TEXT) AS SELECT id, name AS label, COUNT(*) AS total FROM users GROUP BY id;
+    `)
+    expect(schema.tables.find(table => table.name === 'summary')?.columns).toMatchObject([
+      { name: 'id', sqlType: 'bigint', optional: true },
+      { name: 'note', sqlType: 'text' },
+      { name: 'label', sqlType: 'varchar', optional: false },
+      { name: 'total', sqlType: 'decimal', tsType: 'number', optional: false }
+    ])
+  })
+
+  it('throws for statements the parser version does not support', () => {
+    const ddl = 'CREATE TABLE posts (id INT);\nCREATE TABLE users (id INT, data JSON)'
+    expect(() => getSchemaFromDDL(ddl)).toThrow(
+      `DDL statement 'CREATE TABLE users (id INT, data JSON)' on line 2 can't be parsed: "JSON" is not valid at this position.`
+    )
+    expect(getSchemaFromDDL(ddl, { parserOptions: { version: '8.0.20' } }).tables).toMatchObject([
+      { name: 'posts' },
+      { name: 'users', columns: [{ name: 'id' }, { name: 'data', tsType: 'string' }] }
+    ])
+  })
+})
@@ -0,0 +1,149 @@
+import { promises as fs } from 'fs'
+import { PassThrough } from 'stream'
+import os from 'os'
+import path from 'path'
+import { pathToFileURL } from 'url'
+import { runServer, configFileName } from '../server'
+import { JSONRPCConnection } from '../lib/json-rpc'
+
+interface PublishDiagnosticsParams {
+  uri: string
+  diagnostics: { message: string; code: number; severity: number; range: object }[]
+}
+
+let directory: string
+let client: JSONRPCConnection
+let exitCode: Promise<number>
+const published: PublishDiagnosticsParams[] = []
+
+const uri = 'file:///workspace/queries.sql'
+
+/** Waits for the diagnostics the server publishes after the given action */
+async function getDiagnostics(action: () => void): Promise<PublishDiagnosticsParams> {
+  const count = published.length
+  action()
+  while (published.length === count) {
+    await new Promise(resolve => setImmediate(resolve))
+  }
+  return published[published.length - 1]
+}
+
+beforeAll(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'ts-mysql-analyzer-'))
+  const config = { schema: path.join(__dirname, '../../data/data.sql'), rules: { 'missing-index': 'off' } }
+  await fs.writeFile(path.join(directory, configFileName), JSON.stringify(config))
+
+  const clientToServer = new PassThrough()
+  const serverToClient = new PassThrough()
+  exitCode = runServer(clientToServer, serverToClient)
+  client = new JSONRPCConnection(serverToClient, clientToServer)
+  client.onNotification('textDocument/publishDiagnostics', (params: PublishDiagnosticsParams) => published.push(params))
+  client.listen()
+
+  await client.sendRequest('initialize', { rootUri: pathToFileURL(directory).href, capabilities: {} })
+  client.sendNotification('initialized', {})
+})
+
+afterAll(async () => {
+  await fs.rmdir(directory, { recursive: true })
+})
+
+describe('runServer', () => {
+  it('publishes diagnostics when a document is opened and changed', async () => {
+    const opened = await getDiagnostics(() =>
+      client.sendNotification('textDocument/didOpen', {
+        textDocument: { uri, languageId: 'sql', version: 1, text: 'SELECT id\nFROM user' }
+      })
+    )
+    expect(opened).toEqual({
+      uri,
+      diagnostics: [
+        {
+          range: { start: { line: 1, character: 5 }, end: { line: 1, character: 9 } },
+          severity: 2,
+          code: 1004,
+          source: 'mysql-analyzer',
+          message: "Table 'user' does not exist in database 'test'. Did you mean 'users'?"
+        }
+      ]
+    })
+
+    const changed = await getDiagnostics(() =>
+      client.sendNotification('textDocument/didChange', {
+        textDocument: { uri, version: 2 },
+        contentChanges: [{ text: "select id from users u where u.id = 'a'" }]
+      })
+    )
+    expect(changed.diagnostics).toEqual([])
+  })
+
+  it('completes the columns of a qualifier', async () => {
+    const completions = await client.sendRequest('textDocument/completion', {
+      textDocument: { uri },
+      position: { line: 0, character: 31 }
+    })
+    expect(completions).toContainEqual({ label: 'id', kind: 5, detail: 'u.id VARBINARY(24)' })
+  })
+
+  it('describes columns on hover', async () => {
+    const hover = await client.sendRequest('textDocument/hover', {
+      textDocument: { uri },
+      position: { line: 0, character: 32 }
+    })
+    expect(hover).toEqual({
+      contents: { kind: 'markdown', value: '```sql\nusers.id VARBINARY(24) NOT NULL\n```\n\nIndexes: `PRIMARY`' },
+      range: { start: { line: 0, character: 31 }, end: { line: 0, character: 33 } }
+    })
+  })
+
+  it('formats documents', async () => {
+    const edits = await client.sendRequest('textDocument/formatting', {
+      textDocument: { uri },
+      options: { tabSize: 2, insertSpaces: true }
+    })
+    expect(edits).toEqual([
+      {
+        range: { start: { line: 0, character: 0 }, end: { line: 0, character: 39 } },
+        newText: "SELECT id\nFROM users u\nWHERE u.id = 'a'\n"
+      }
+    ])
+  })
+
+  it('offers the fixes of diagnostics as code actions', async () => {
+    await getDiagnostics(() =>
+      client.sendNotification('textDocument/didChange', {
+        textDocument: { uri, version: 3 },
+        contentChanges: [{ text: 'SELECT * FROM user' }]
+      })
+    )
+    const actions = await client.sendRequest('textDocument/codeAction', {
+      textDocument: { uri },
+      range: { start: { line: 0, character: 15 }, end: { line: 0, character: 15 } },
+      context: { diagnostics: [] }
+    })
+    expect(actions).toMatchObject([
+      {
+        title: "Change to 'users'.",
+        kind: 'quickfix',
+        edit: {
+          changes: {
+            [uri]: [{ range: { start: { line: 0, character: 14 }, end: { line: 0, character: 18 } }, newText: 'users' }]
+          }
+        }
+      }
+    ])
+  })
+
+  it('clears the diagnostics of closed documents', async () => {
+    const closed = await getDiagnostics(() =>
+      client.sendNotification('textDocument/didClose', { textDocument: { uri } })
+    )
+    expect(closed).toEqual({ uri, diagnostics: [] })
+  })
+
+  it('exits with 0 after a shutdown', async () => {
+    await client.sendRequest('shutdown')
+    client.sendNotification('exit')
+    expect(await exitCode).toBe(0)
+  })
+})
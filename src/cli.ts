@@ -0,0 +1,393 @@
+#!/usr/bin/env node
+import { promises as fs } from 'fs'
+import path from 'path'
+import { Schema } from 'ts-mysql-schema'
+import { MySQLAnalyzer, NamedQuery, getNamedQueries } from './'
+import { MySQLAnalyzerDiagnostic, DiagnosticSeverity } from './diagnostic'
+import { loadSchema } from './lib/load-schema'
+import { findFiles } from './lib/find-files'
+import { isSourceFile, sourceFileExtensions } from './lib/extract-queries'
+import { Baseline, createBaseline, filterBaseline, parseBaseline } from './lib/baseline'
+import { parseQueryLog, QueryGroup } from './lib/query-log'
+import { parseExplainPlan, ExplainPlan } from './lib/explain-plan'
+import {
+  FileDiagnostics,
+  formatCompact,
+  formatJSON,
+  formatSARIF,
+  formatJUnit,
+  formatCheckstyle,
+  formatQueryGroups,
+  formatQueryGroupsJSON
+} from './lib/reporters'
+
+/** Represents the streams the command-line interface reads from and writes to */
+export interface CLIStreams {
+  readonly stdin: NodeJS.ReadableStream
+  readonly stdout: { write(text: string): void }
+  readonly stderr: { write(text: string): void }
+}
+
+interface CLIOptions {
+  patterns: string[]
+  schema?: string
+  types?: string
+  format: string
+  quiet: boolean
+  applyDDL: boolean
+  maxWarnings: number
+  baseline?: string
+  writeBaseline: boolean
+  log?: string
+  explain: string[]
+  help: boolean
+}
+
+const formatters: { readonly [format: string]: (files: FileDiagnostics[]) => string } = {
+  compact: formatCompact,
+  json: formatJSON,
+  sarif: formatSARIF,
+  junit: formatJUnit,
+  checkstyle: formatCheckstyle
+}
+const formats = Object.keys(formatters)
+
+const logFormatters: { readonly [format: string]: (groups: QueryGroup[]) => string } = {
+  compact: formatQueryGroups,
+  json: formatQueryGroupsJSON
+}
+
+const usage = `Usage: ts-mysql-analyzer [options] [file|dir|glob ...]
+
+Analyzes the MySQL queries in the given .sql files, or embedded in the given TypeScript and JavaScript files.
+Reads from stdin when no files are given, or when a file is '-'.
+
+Options:
+  --schema <source>     The schema to check queries against: a mysql:// URI, a .json schema snapshot or a DDL file
+  --types <file>        Write the TypeScript types of the queries to a file (requires --schema)
+  --format <format>     The output format: ${formats.join(', ')} (default: compact)
+  --quiet               Report errors only
+  --apply-ddl           Check the statements of each file against the tables created and changed before them
+  --max-warnings <n>    Fail when there are more than n warnings
+  --baseline <file>     Report only the diagnostics that are not in a baseline file
+  --write-baseline      Write the current diagnostics to the baseline file (requires --baseline)
+  --log <file>          Report the queries of a slow query log or general log, grouped by fingerprint and
+                        ranked by the time they took ('-' reads from stdin)
+  --explain <file>      Check a query against the output of EXPLAIN FORMAT=JSON for it. Repeat it for each
+                        statement of a file of several queries
+  --help                Show this help
+`
+
+function parseArgs(args: string[]): CLIOptions {
+  const options: CLIOptions = {
+    patterns: [],
+    format: 'compact',
+    quiet: false,
+    applyDDL: false,
+    maxWarnings: -1,
+    writeBaseline: false,
+    explain: [],
+    help: false
+  }
+
+  for (let i = 0; i < args.length; i++) {
+    const [flag, inlineValue] = args[i].startsWith('--') ? args[i].split(/=(.*)/) : [args[i]]
+    const getValue = (): string => {
+      const value = inlineValue !== undefined ? inlineValue : args[++i]
+      if (value === undefined) {
+        throw new Error(`Option '${flag}' requires a value.`)
+      }
+      return value
+    }
+
+    switch (flag) {
+      case '--schema':
+        options.schema = getValue()
+        break
+      case '--types':
+        options.types = getValue()
+        break
+      case '--format':
+        options.format = getValue()
+        if (!formats.includes(options.format)) {
+          throw new Error(`Unknown format '${options.format}'.`)
+        }
+        break
+      case '--quiet':
+        options.quiet = true
+        break
+      case '--apply-ddl':
+        options.applyDDL = true
+        break
+      case '--max-warnings':
+        options.maxWarnings = Number(getValue())
+        if (!Number.isInteger(options.maxWarnings) || options.maxWarnings < 0) {
+          throw new Error(`Option '--max-warnings' must be a non-negative integer.`)
+        }
+        break
+      case '--baseline':
+        options.baseline = getValue()
+        break
+      case '--write-baseline':
+        options.writeBaseline = true
+        break
+      case '--log':
+        options.log = getValue()
+        break
+      case '--explain':
+        options.explain.push(getValue())
+        break
+      case '--help':
+      case '-h':
+        options.help = true
+        break
+      default:
+        if (flag.startsWith('--')) {
+          throw new Error(`Unknown option '${flag}'.`)
+        }
+        options.patterns.push(flag)
+    }
+  }
+
+  if (options.types && !options.schema) {
+    throw new Error(`Option '--types' requires '--schema'.`)
+  }
+  if (options.writeBaseline && !options.baseline) {
+    throw new Error(`Option '--write-baseline' requires '--baseline'.`)
+  }
+  if (options.explain.length && (options.log || options.patterns.length > 1)) {
+    throw new Error(`Option '--explain' requires a single file of queries.`)
+  }
+  if (options.log) {
+    const conflicting = options.patterns.length ? 'files' : options.types ? '--types' : options.baseline && '--baseline'
+    if (conflicting) {
+      throw new Error(`Option '--log' can't be used with ${conflicting}.`)
+    }
+    if (!(options.format in logFormatters)) {
+      throw new Error(`Option '--log' supports the formats ${Object.keys(logFormatters).join(', ')}.`)
+    }
+  }
+
+  return options
+}
+
+function readStream(stream: NodeJS.ReadableStream): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let text = ''
+    stream.setEncoding('utf8')
+    stream.on('data', chunk => (text += chunk))
+    stream.on('end', () => resolve(text))
+    stream.on('error', reject)
+  })
+}
+
+/** Writes the types of the named queries of the inputs, returning whether they were written */
+async function writeTypes(
+  file: string,
+  analyzer: MySQLAnalyzer,
+  inputs: { file: string; text: string }[],
+  streams: CLIStreams
+): Promise<boolean> {
+  const queries = inputs.reduce<NamedQuery[]>((all, input) => all.concat(getNamedQueries(input.file, input.text)), [])
+  const { output } = analyzer.generateTypes(queries)
+  if (output === null) {
+    streams.stderr.write(`Types were not written to '${file}' because the queries have problems.\n`)
+    return false
+  }
+
+  await fs.writeFile(file, output)
+  return true
+}
+
+/** Reads a baseline file, throwing a readable error if it is missing or invalid */
+async function readBaseline(file: string): Promise<Baseline> {
+  let text: string
+  try {
+    text = await fs.readFile(file, 'utf8')
+  } catch {
+    throw new Error(`Baseline '${file}' was not found. Create it with '--write-baseline'.`)
+  }
+  try {
+    return parseBaseline(text)
+  } catch (error) {
+    throw new Error(`Baseline '${file}' is invalid: ${(error as Error).message}`)
+  }
+}
+
+/** Reads an EXPLAIN plan file, throwing a readable error if it is missing or invalid */
+async function readExplainPlan(file: string): Promise<ExplainPlan> {
+  let text: string
+  try {
+    text = await fs.readFile(file, 'utf8')
+  } catch {
+    throw new Error(`EXPLAIN plan '${file}' was not found.`)
+  }
+  try {
+    return parseExplainPlan(text)
+  } catch (error) {
+    throw new Error(`EXPLAIN plan '${file}' is invalid: ${(error as Error).message}`)
+  }
+}
+
+/**
+ * Removes the diagnostics in the baseline file from the results, first writing the file from the results if asked.
+ * Files are stored relative to the baseline file, so that it can be committed.
+ */
+async function applyBaseline(results: FileDiagnostics[], options: CLIOptions): Promise<FileDiagnostics[]> {
+  const baselineFile = options.baseline as string
+  const baselineDirectory = path.dirname(path.resolve(baselineFile))
+  const baselineResults = results.map(({ file, diagnostics }) => ({
+    file:
+      file === '<stdin>'
+        ? file
+        : path
+            .relative(baselineDirectory, path.resolve(file))
+            .split(path.sep)
+            .join('/'),
+    diagnostics
+  }))
+
+  let baseline: Baseline
+  if (options.writeBaseline) {
+    baseline = createBaseline(baselineResults)
+    await fs.writeFile(baselineFile, JSON.stringify(baseline, null, 2) + '\n')
+  } else {
+    baseline = await readBaseline(baselineFile)
+  }
+
+  return filterBaseline(baselineResults, baseline).map((result, i) => ({ ...result, file: results[i].file }))
+}
+
+/** Reports the queries of a log file, returning the exit code */
+async function reportQueryLog(analyzer: MySQLAnalyzer, options: CLIOptions, streams: CLIStreams): Promise<number> {
+  const file = options.log as string
+  let text: string
+  try {
+    text = file === '-' ? await readStream(streams.stdin) : await fs.readFile(file, 'utf8')
+  } catch {
+    streams.stderr.write(`Log '${file}' was not found.\n`)
+    return 2
+  }
+
+  const groups = analyzer.analyzeQueryLog(parseQueryLog(text)).map(group => ({
+    ...group,
+    diagnostics: group.diagnostics.filter(d => !options.quiet || d.severity === DiagnosticSeverity.Error)
+  }))
+  streams.stdout.write(logFormatters[options.format](groups))
+
+  const diagnostics = groups.reduce<MySQLAnalyzerDiagnostic[]>((all, group) => all.concat(group.diagnostics), [])
+  const warningCount = diagnostics.filter(d => d.severity === DiagnosticSeverity.Warning).length
+  if (options.maxWarnings !== -1 && warningCount > options.maxWarnings) {
+    streams.stderr.write(`Too many warnings (${warningCount}). Maximum allowed is ${options.maxWarnings}.\n`)
+    return 1
+  }
+  return diagnostics.some(d => d.severity === DiagnosticSeverity.Error) ? 1 : 0
+}
+
+/**
+ * Runs the command-line interface.
+ *
+ * @param args - the command-line arguments, without the node executable and script
+ * @param streams - the streams to read from and write to
+ * @returns the exit code: 0 on success, 1 if problems were found, 2 if the analysis could not run
+ */
+export async function runCLI(args: string[], streams: CLIStreams = process): Promise<number> {
+  let options: CLIOptions
+  let schema: Schema | undefined
+  const inputs: { file: string; text: string }[] = []
+  const plans: ExplainPlan[] = []
+
+  try {
+    options = parseArgs(args)
+    if (options.help) {
+      streams.stdout.write(usage)
+      return 0
+    }
+
+    if (options.schema) {
+      schema = await loadSchema(options.schema)
+    }
+    if (options.log) {
+      return await reportQueryLog(new MySQLAnalyzer({ schema }), options, streams)
+    }
+
+    const patterns = options.patterns.length ? options.patterns : ['-']
+    for (const pattern of patterns) {
+      if (pattern === '-') {
+        inputs.push({ file: '<stdin>', text: await readStream(streams.stdin) })
+        continue
+      }
+
+      const files = await findFiles(pattern, ['.sql', ...sourceFileExtensions]).catch(() => [])
+      if (!files.length) {
+        throw new Error(`No files matching '${pattern}' were found.`)
+      }
+      for (const file of files) {
+        inputs.push({ file, text: await fs.readFile(file, 'utf8') })
+      }
+    }
+    if (options.explain.length && (inputs.length !== 1 || isSourceFile(inputs[0].file))) {
+      throw new Error(`Option '--explain' requires a single file of queries.`)
+    }
+    for (const file of options.explain) {
+      plans.push(await readExplainPlan(file))
+    }
+  } catch (error) {
+    streams.stderr.write(`${(error as Error).message}\n`)
+    return 2
+  }
+
+  const analyzer = new MySQLAnalyzer({ schema, applyDDL: options.applyDDL })
+  let results = inputs.map(({ file, text }) => {
+    const diagnostics = isSourceFile(file)
+      ? analyzer.analyzeSourceFile(file, text)
+      : analyzer.analyze(text, { explain: plans })
+    return { file, diagnostics }
+  })
+
+  try {
+    if (options.baseline) {
+      results = await applyBaseline(results, options)
+    }
+  } catch (error) {
+    streams.stderr.write(`${(error as Error).message}\n`)
+    return 2
+  }
+  results = results.map(({ file, diagnostics }) => ({
+    file,
+    diagnostics: diagnostics.filter(d => !options.quiet || d.severity === DiagnosticSeverity.Error)
+  }))
+
+  streams.stdout.write(formatters[options.format](results))
+
+  const diagnostics = results.reduce<MySQLAnalyzerDiagnostic[]>((all, result) => all.concat(result.diagnostics), [])
+  const errorCount = diagnostics.filter(d => d.severity === DiagnosticSeverity.Error).length
+  const warningCount = diagnostics.filter(d => d.severity === DiagnosticSeverity.Warning).length
+
+  if (options.maxWarnings !== -1 && warningCount > options.maxWarnings) {
+    streams.stderr.write(`Too many warnings (${warningCount}). Maximum allowed is ${options.maxWarnings}.\n`)
+    return 1
+  }
+
+  try {
+    if (options.types && !(await writeTypes(options.types, analyzer, inputs, streams))) {
+      return 1
+    }
+  } catch (error) {
+    streams.stderr.write(`${(error as Error).message}\n`)
+    return 2
+  }
+
+  return errorCount > 0 ? 1 : 0
+}
+
+if (require.main === module) {
+  runCLI(process.argv.slice(2))
+    .then(code => {
+      process.exitCode = code
+    })
+    .catch(error => {
+      console.error(error)
+      process.exitCode = 2
+    })
+}
@@ -0,0 +1,134 @@
+/** Represents a diagnostic uncovered during analysis */
+export interface MySQLAnalyzerDiagnostic {
+  readonly severity: DiagnosticSeverity
+  /** Helpful message describing the diagnostic */
+  readonly message: string
+  /** The starting position of the diagnostic in the source text */
+  readonly start: number
+  /** The stopping position of the diagnostic in the source text */
+  readonly stop: number
+  /** The 1-based line of the starting position */
+  readonly startLine: number
+  /** The 1-based column of the starting position */
+  readonly startColumn: number
+  /** The 1-based line of the stopping position */
+  readonly stopLine: number
+  /** The 1-based column of the stopping position */
+  readonly stopColumn: number
+  /** The index of the statement that produced the diagnostic, in the order the statements appear in the source text */
+  readonly statementIndex: number
+  /** The unique diagnostic code */
+  readonly code: number
+  /** The name of the rule that reported the diagnostic (e.g. `missing-index`), which configures and suppresses it */
+  readonly rule?: string
+  /** Suggested ways to resolve the diagnostic, most likely first */
+  readonly fixes?: MySQLAnalyzerFix[]
+}
+
+/** Represents a suggested way to resolve a diagnostic */
+export interface MySQLAnalyzerFix {
+  /** Helpful message describing the fix */
+  readonly message: string
+  /** The edits to apply to the source text. Empty if the fix changes the database instead */
+  readonly edits: MySQLAnalyzerTextEdit[]
+  /** A statement to run against the database (e.g. to add an index) */
+  readonly statement?: string
+}
+
+/** Represents a replacement of a range of the source text */
+export interface MySQLAnalyzerTextEdit {
+  /** The starting position of the range in the source text */
+  readonly start: number
+  /** The stopping position of the range in the source text (exclusive, so an insertion has `stop === start`) */
+  readonly stop: number
+  /** The text that replaces the range */
+  readonly text: string
+}
+
+/** Represents the severity of the diagnostic */
+export enum DiagnosticSeverity {
+  /** Something suspicious but allowed */
+  Warning,
+  /** Something not allowed by any means */
+  Error,
+  /** Something to suggest a better way of doing things */
+  Suggestion
+}
+
+/** Represents the code of the diagnostic */
+export enum DiagnosticCode {
+  /** An empty MySQL query */
+  EmptyQuery = 1000,
+  /** A query that contains a lexer error */
+  LexerError = 1001,
+  /** A query that contains a parser error */
+  ParserError = 1002,
+  /** A mismatch in the number of rows and columns in an INSERT statement */
+  ColumnRowMismatch = 1003,
+  /** A table reference that does not exist in the schema */
+  MissingTable = 1004,
+  /** A column reference that does not exist in the referenced table in the schema */
+  MissingColumn = 1005,
+  /** An invalid type assignment */
+  TypeMismatch = 1006,
+  /** A table that is read in full because no database index starts with a column it is filtered by */
+  MissingIndex = 1007,
+  /** A mismatch in the number of placeholders and the parameter values bound to them */
+  ParameterCountMismatch = 1008,
+  /** An UPDATE statement that changes every row of a table */
+  UnfilteredUpdate = 1009,
+  /** A DELETE statement that deletes every row of a table */
+  UnfilteredDelete = 1010,
+  /** A WHERE clause that is true for every row */
+  AlwaysTrueFilter = 1011,
+  /** A table joined in a multi-table statement without any condition */
+  UnconditionedJoin = 1012,
+  /** An ORDER BY or GROUP BY clause that sorts rows without a database index */
+  Filesort = 1013,
+  /** A filter that can't use the database index of its column */
+  NonSargablePredicate = 1014,
+  /** An INSERT statement that gives no value to a NOT NULL column without a default */
+  MissingRequiredColumn = 1015,
+  /** A value that is not allowed by an ENUM or SET column */
+  InvalidEnumValue = 1016,
+  /** A string longer than the length of its column */
+  ValueTooLong = 1017,
+  /** An integer outside the range of its column */
+  ValueOutOfRange = 1018,
+  /** A value written to a generated column */
+  GeneratedColumnWrite = 1019,
+  /** An unqualified column that exists in more than one table it can refer to */
+  AmbiguousColumn = 1020,
+  /** A reference to a database that is not in the schemas */
+  MissingDatabase = 1021,
+  /** An argument of a built-in function of the wrong type */
+  InvalidArgumentType = 1022,
+  /** A call to a built-in function with the wrong number of arguments */
+  ArgumentCountMismatch = 1023,
+  /** A column dropped by a migration, along with its data */
+  DroppedColumn = 1024,
+  /** A column renamed by a migration, which breaks queries that use its old name */
+  RenamedColumn = 1025,
+  /** A NOT NULL column without a default value added to an existing table */
+  RequiredColumnWithoutDefault = 1026,
+  /** A column changed to a type that can't hold all of its values */
+  NarrowedColumnType = 1027,
+  /** A dropped index that leaves a table without any index */
+  DroppedLastIndex = 1028,
+  /** An index with the same leading columns as an existing index */
+  DuplicateIndex = 1029,
+  /** A table change that MySQL makes by copying the whole table */
+  TableCopy = 1030,
+  /** A table an EXPLAIN plan reads in full */
+  FullTableScan = 1031,
+  /** A sort an EXPLAIN plan does with a filesort */
+  PlannedFilesort = 1032,
+  /** A temporary table an EXPLAIN plan creates */
+  TemporaryTable = 1033,
+  /** A table an EXPLAIN plan estimates many rows are read from */
+  LargeRowsExamined = 1034,
+  /** A table an EXPLAIN plan reads without any of the indexes it could use */
+  UnusedIndex = 1035,
+  /** A qualifier of a column that is not a table or alias the query can refer to */
+  UnknownQualifier = 1036
+}
@@ -1,62 +1,66 @@
-import MySQLParser, {
-  Statement,
-  ParserOptions,
-  MySQLQueryType,
-  ColumnReference,
-  ValueReference,
-  ParseResult,
-  References,
-  AliasReference
-} from 'ts-mysql-parser'
-import { Schema, SchemaTable, SchemaColumn } from 'ts-mysql-schema'
-import { invalidAssignment } from './lib/invalid-assignment'
-import { getSchemaColumn } from './lib/get-schema-column'
-import { getSchemaTable } from './lib/get-schema-table'
-import { missingIndex } from './lib/missing-index'
-import { getCorrection } from './lib/autocorrect'
-
-/** Represents a diagnostic uncovered during analysis */
-export interface MySQLAnalyzerDiagnostic {
-  readonly severity: DiagnosticSeverity
-  /** Helpful message describing the diagnostic */
-  readonly message: string
-  /** The starting position of the diagnostic in the source text */
-  readonly start: number
-  /** The stopping position of the diagnostic in the source text */
-  readonly stop: number
-  /** The unique diagnostic code */
-  readonly code: number
-}
-
-/** Represents the severity of the diagnostic */
-export enum DiagnosticSeverity {
-  /** Something suspicious but allowed */
-  Warning,
-  /** Something not allowed by any means */
-  Error,
-  /** Something to suggest a better way of doing things */
-  Suggestion
-}
-
-/** Represents the code of the diagnostic */
-export enum DiagnosticCode {
-  /** An empty MySQL query */
-  EmptyQuery = 1000,
-  /** A query that contains a lexer error */
-  LexerError = 1001,
-  /** A query that contains a parser error */
-  ParserError = 1002,
-  /** A mismatch in the number of rows and columns in an INSERT statement */
-  ColumnRowMismatch = 1003,
-  /** A table reference that does not exist in the schema */
-  MissingTable = 1004,
-  /** A column reference that does not exist in the referenced table in the schema */
-  MissingColumn = 1005,
-  /** An invalid type assignment */
-  TypeMismatch = 1006,
-  /** A missing database index for a referenced column */
-  MissingIndex = 1007
-}
+import MySQLParser, { Statement, ParserOptions, ParseResult, UseCommandContext, unquote } from 'ts-mysql-parser'
+import { Schema } from 'ts-mysql-schema'
+import { MySQLAnalyzerDiagnostic, DiagnosticSeverity } from './diagnostic'
+import {
+  MySQLAnalyzerRule,
+  MySQLAnalyzerRulesConfig,
+  MySQLAnalyzerRuleContext,
+  MySQLAnalyzerParameter,
+  MySQLAnalyzerParameters,
+  MySQLAnalyzerExplain,
+  builtinRules,
+  getRuleSeverity
+} from './rules'
+import { getLineStarts, getLineAndColumn } from './lib/position'
+import { findPlaceholders, replaceNamedPlaceholders, Placeholder } from './lib/placeholders'
+import { findSuppressions, isSuppressed, Suppression } from './lib/suppressions'
+import { getResultColumns, isSelectStatement, ResultColumn } from './lib/result-columns'
+import {
+  generateQueryTypes,
+  renderTypesModule,
+  NamedQuery,
+  NamedQueryDiagnostics,
+  GeneratedTypes
+} from './lib/generate-types'
+import { extractQueries, getSourceOffset, QueryExtractorOptions, ExtractedQuery } from './lib/extract-queries'
+import { getDatabaseSchema, Schemas } from './lib/databases'
+import { SchemaBuilder } from './lib/schema-builder'
+import { findDescendant } from './lib/parse-tree'
+import { getCompletions, Completion } from './lib/completions'
+import { getHover, Hover } from './lib/hover'
+import { groupQueries, LoggedQuery, QueryGroup } from './lib/query-log'
+import { parseExplainPlan, ExplainPlan } from './lib/explain-plan'
+
+export * from './diagnostic'
+export * from './rules'
+export * from './lib/schema-builder'
+export { applyFixes } from './lib/fixes'
+export { loadSchema } from './lib/load-schema'
+export { extractQueries, QueryExtractorOptions, ExtractedQuery } from './lib/extract-queries'
+export { ResultColumn } from './lib/result-columns'
+export { Schemas } from './lib/databases'
+export { getNamedQueries, NamedQuery, NamedQueryDiagnostics, GeneratedTypes } from './lib/generate-types'
+export {
+  formatCompact,
+  formatJSON,
+  formatSARIF,
+  formatJUnit,
+  formatCheckstyle,
+  formatQueryGroups,
+  formatQueryGroupsJSON,
+  getDiagnosticRule,
+  FileDiagnostics,
+  DiagnosticRule,
+  JSONDiagnostic
+} from './lib/reporters'
+export { createBaseline, filterBaseline, parseBaseline, Baseline, BaselineEntry } from './lib/baseline'
+export { findSuppressions, Suppression } from './lib/suppressions'
+export { Completion } from './lib/completions'
+export { Hover, HoverColumn } from './lib/hover'
+export { formatSQL } from './lib/format-sql'
+export { fingerprintQuery, QueryFingerprint } from './lib/fingerprint'
+export { parseExplainPlan, ExplainPlan } from './lib/explain-plan'
+export { parseQueryLog, parseSlowLog, parseGeneralLog, groupQueries, LoggedQuery, QueryGroup } from './lib/query-log'
 
 /** Represents the options passed to the analyzer */
 export interface MySQLAnalyzerOptions {
@@ -64,211 +68,503 @@ export interface MySQLAnalyzerOptions {
   readonly parserOptions?: ParserOptions
   /** The schema that represents the structure of a MySQL database */
   readonly schema?: Schema
+  /**
+   * The schemas of several databases on the same server, by database name, for queries that refer
+   * to tables of other databases (e.g. `otherdb.orders`)
+   */
+  readonly schemas?: Schemas
+  /**
+   * The database queries refer to until a `USE` statement selects another. Defaults to the database
+   * of `schema`, or else the first database of `schemas`
+   */
+  readonly database?: string
+  /**
+   * Whether data definition statements (e.g. `CREATE TABLE` or `ALTER TABLE`) change the schema the
+   * statements after them in the same text are checked against, as they would when run as a script
+   */
+  readonly applyDDL?: boolean
+  /** The configuration of rules by name, e.g. `{ 'missing-index': 'off', 'missing-column': 'error' }` */
+  readonly rules?: MySQLAnalyzerRulesConfig
+  /** Additional rules to run after the built-in rules */
+  readonly customRules?: MySQLAnalyzerRule[]
+  /**
+   * The estimated number of rows read from a table of an EXPLAIN plan at which it is reported. Smaller
+   * tables are not reported when read in full. Defaults to 1000
+   */
+  readonly explainRowsThreshold?: number
+}
+
+/** Represents the options passed when analyzing a text */
+export interface AnalyzeOptions {
+  /**
+   * The values bound to the placeholders of a prepared statement: an array for `?` placeholders, or
+   * an object for named placeholders (e.g. `{ id: 1 }` for `:id`)
+   */
+  readonly params?: unknown[] | { readonly [name: string]: unknown }
+  /** The database the queries refer to until a `USE` statement selects another, instead of the database of the analyzer */
+  readonly database?: string
+  /**
+   * The output of `EXPLAIN FORMAT=JSON` captured for the query, as an object or as text, or an array
+   * with one for each statement of the text (or null for a statement without one)
+   */
+  readonly explain?: ExplainPlan | string | (ExplainPlan | string | null)[]
+}
+
+/** Gets the database a USE statement selects, or null if the statement is not one */
+function getUsedDatabase(result: ParseResult): string | null {
+  const useCommand = result.parserError ? null : findDescendant(result.tree, UseCommandContext)
+  return useCommand ? unquote(useCommand.identifier().text) : null
 }
 
 export class MySQLAnalyzer {
   parserOptions?: ParserOptions
   schema?: Schema
+  schemas?: Schemas
+  database?: string
+  applyDDL: boolean
+  rules: MySQLAnalyzerRule[]
+  rulesConfig: MySQLAnalyzerRulesConfig
+  explainRowsThreshold: number
+  private readonly databaseSchemas: Map<string, Schema> = new Map()
 
   public constructor(options: MySQLAnalyzerOptions = {}) {
     this.parserOptions = options.parserOptions
-    this.schema = options.schema
-  }
-
-  public analyze(text: string): MySQLAnalyzerDiagnostic[] {
-    if (text === '') {
-      return [
-        {
-          severity: DiagnosticSeverity.Error,
-          message: 'MySQL query is empty.',
-          start: 0,
-          stop: text.length,
-          code: DiagnosticCode.EmptyQuery
-        }
-      ]
+    const { schema, schemas } = options
+    if (schema || schemas) {
+      this.schemas = { ...(schema && { [schema.config.schema]: schema }), ...schemas }
+      const databases = Object.keys(this.schemas)
+      if (databases.length === 0) {
+        throw new Error(`Option 'schemas' must contain at least one database.`)
+      }
+      this.database = options.database ?? schema?.config.schema ?? databases[0]
+      this.schema = this.getSchema(this.database)
     }
+    this.applyDDL = options.applyDDL || false
+    this.rules = [...builtinRules, ...(options.customRules || [])]
+    this.rulesConfig = options.rules || {}
+    this.explainRowsThreshold = options.explainRowsThreshold ?? 1000
+
+    for (const name of Object.keys(this.rulesConfig)) {
+      if (!this.rules.some(rule => rule.name === name)) {
+        throw new Error(`Unknown rule '${name}'.`)
+      }
+    }
+  }
 
+  /**
+   * Analyzes a text of one or more MySQL queries.
+   *
+   * @param text - the queries to analyze
+   * @param options - the values bound to the placeholders of the queries, and their EXPLAIN plans
+   */
+  public analyze(text: string, options: AnalyzeOptions = {}): MySQLAnalyzerDiagnostic[] {
     let diagnostics: MySQLAnalyzerDiagnostic[] = []
 
+    const { params, explain } = options
+    const placeholders = findPlaceholders(text)
+    // the MySQL grammar has no named placeholders, so they are parsed as `?`
+    text = replaceNamedPlaceholders(text, placeholders)
+    const parameters = params && this.bindParameters(placeholders, params)
+    const plans: (ExplainPlan | string | null | undefined)[] = Array.isArray(explain) ? explain : [explain]
+
     const parser = new MySQLParser(this.parserOptions)
-    const statements = parser.splitStatements(text)
-    for (const statement of statements) {
+    // an empty query has no statements, but rules still need one to report on
+    const statements = text === '' ? [{ text, start: 0, stop: 0 }] : parser.splitStatements(text)
+    const lineStarts = getLineStarts(text)
+    const suppressions = findSuppressions(text)
+    // data definition statements are applied to a copy of the schemas, which starts empty without any
+    const schemaBuilder = this.applyDDL ? this.createSchemaBuilder() : null
+    let { schemas } = this
+    let database = options.database ?? this.database
+    if (schemaBuilder && database === undefined) {
+      database = ''
+    }
+    for (const [statementIndex, statement] of statements.entries()) {
+      const isLastStatement = statementIndex === statements.length - 1
+      const statementParameters = parameters && this.getStatementParameters(parameters, statement, isLastStatement)
       const result = parser.parse(statement.text)
-      diagnostics = diagnostics.concat(this.analyzeSyntax(statement, result))
-      diagnostics = diagnostics.concat(this.analyzeSemantics(statement, result, parser))
+      const statementPlan = plans[statementIndex]
+      const plan = typeof statementPlan === 'string' ? parseExplainPlan(statementPlan) : statementPlan
+      diagnostics = diagnostics.concat(
+        this.analyzeStatement(
+          statement,
+          statementIndex,
+          lineStarts,
+          suppressions,
+          parser,
+          result,
+          database,
+          schemas,
+          statementParameters,
+          plan ? { plan, rowsThreshold: this.explainRowsThreshold } : undefined
+        )
+      )
+      if (result.parserError) {
+        continue
+      }
+      // USE selects the database of the statements after it
+      database = getUsedDatabase(result) ?? database
+      if (schemaBuilder?.applyStatement(result)) {
+        schemas = schemaBuilder.getSchemas()
+      }
     }
 
     return diagnostics
   }
 
-  private analyzeSyntax(statement: Statement, result: ParseResult): MySQLAnalyzerDiagnostic[] {
-    const diagnostics: MySQLAnalyzerDiagnostic[] = []
-
-    if (result.lexerError) {
-      diagnostics.push({
-        severity: DiagnosticSeverity.Error,
-        message: result.lexerError.message,
-        start: statement.start,
-        stop: statement.stop,
-        code: DiagnosticCode.LexerError
-      })
-    }
+  /**
+   * Analyzes the SQL queries embedded in a TypeScript or JavaScript source file (e.g. sql`SELECT ...` or
+   * `connection.query('SELECT ...')`). The positions of the diagnostics are positions in the source file.
+   *
+   * @param fileName - the name of the file, used to detect the language
+   * @param text - the contents of the file
+   * @param options - the tags and functions that contain SQL
+   */
+  public analyzeSourceFile(
+    fileName: string,
+    text: string,
+    options: QueryExtractorOptions = {}
+  ): MySQLAnalyzerDiagnostic[] {
+    let diagnostics: MySQLAnalyzerDiagnostic[] = []
 
-    if (result.parserError) {
-      const { offendingToken } = result.parserError.data
-      diagnostics.push({
-        severity: DiagnosticSeverity.Error,
-        message: result.parserError.message,
-        start: statement.start + (offendingToken?.startIndex || 0),
-        stop: statement.start + (offendingToken?.stopIndex || 0),
-        code: DiagnosticCode.ParserError
-      })
+    const lineStarts = getLineStarts(text)
+    for (const query of extractQueries(fileName, text, options)) {
+      const queryDiagnostics = this.analyze(query.text).map(diagnostic =>
+        this.mapDiagnostic(diagnostic, query, lineStarts)
+      )
+      diagnostics = diagnostics.concat(queryDiagnostics)
     }
 
     return diagnostics
   }
 
-  private analyzeSemantics(statement: Statement, result: ParseResult, parser: MySQLParser): MySQLAnalyzerDiagnostic[] {
-    let diagnostics: MySQLAnalyzerDiagnostic[] = []
-
-    if (parser.isDDL(result)) {
-      return diagnostics
+  /**
+   * Infers the columns of the result set of a SELECT statement, resolving its tables and columns
+   * against the schema.
+   *
+   * @param text - the SELECT statement
+   * @returns the columns, or null if there is no schema or the text is not a valid SELECT statement
+   */
+  public getResultColumns(text: string): ResultColumn[] | null {
+    if (!this.schema) {
+      return null
     }
 
-    if (parser.getQueryType(result) === MySQLQueryType.QtInsert) {
-      const { columnReferences, valueReferences } = result.references
-      const fieldsClauseRefs = columnReferences.filter(r => r.context === 'fieldsClause')
-      const valuesClauseValues = valueReferences.filter(r => r.context === 'valuesClause')
-
-      if (fieldsClauseRefs.length !== valuesClauseValues.length) {
-        diagnostics.push({
-          severity: DiagnosticSeverity.Warning,
-          message: 'Column count does not match row count.',
-          start: statement.start,
-          stop: statement.stop,
-          code: DiagnosticCode.ColumnRowMismatch
-        })
-      }
+    const parser = new MySQLParser(this.parserOptions)
+    const result = parser.parse(replaceNamedPlaceholders(text, findPlaceholders(text)))
+    if (result.lexerError || result.parserError || !isSelectStatement(result)) {
+      return null
     }
 
+    return getResultColumns(text, result, this.schema)
+  }
+
+  /**
+   * Generates a TypeScript module that declares the types of the given queries: an `<Name>Params` type
+   * for the values bound to each query, and an `<Name>Row` interface for the rows of each SELECT.
+   * No module is generated if any query has errors or warnings.
+   *
+   * @param queries - the queries to generate types for, each of a single statement
+   * @throws if a query has more than one statement, or two queries have the same name
+   */
+  public generateTypes(queries: NamedQuery[]): GeneratedTypes {
     if (!this.schema) {
-      return diagnostics
+      throw new Error('A schema is required to generate types.')
     }
 
-    const tableDiagnostics = this.analyzeTables(statement, result.references)
-    diagnostics = diagnostics.concat(tableDiagnostics)
+    const parser = new MySQLParser(this.parserOptions)
+    const declarations: string[] = []
+    const invalid: NamedQueryDiagnostics[] = []
+    for (const query of queries) {
+      if (queries.some(q => q !== query && q.name === query.name)) {
+        throw new Error(`Duplicate query name '${query.name}'.`)
+      }
+      // the types of a query describe a single statement, so a file of several statements can't be typed
+      const statements = parser.splitStatements(query.text).filter(statement => statement.text.trim())
+      if (statements.length > 1) {
+        throw new Error(
+          `Query '${query.name}' has ${statements.length} statements, but types can only be generated for one.`
+        )
+      }
 
-    return diagnostics
-  }
+      const diagnostics = this.analyze(query.text).filter(d => d.severity !== DiagnosticSeverity.Suggestion)
+      if (diagnostics.length) {
+        invalid.push({ query, diagnostics })
+      } else {
+        declarations.push(generateQueryTypes(query, parser, this.schema))
+      }
+    }
 
-  private analyzeTables(statement: Statement, references: References): MySQLAnalyzerDiagnostic[] {
-    let diagnostics: MySQLAnalyzerDiagnostic[] = []
+    return invalid.length
+      ? { output: null, diagnostics: invalid }
+      : { output: renderTypesModule(declarations), diagnostics: [] }
+  }
 
-    if (!this.schema) {
-      return diagnostics
-    }
+  /**
+   * Analyzes the queries of a MySQL log (see `parseQueryLog`): the queries are grouped by fingerprint,
+   * and the slowest query of each group is analyzed on the database it ran on, if the analyzer knows it.
+   *
+   * @param queries - the queries of the log
+   * @returns the groups, ranked by the total time their queries took
+   */
+  public analyzeQueryLog(queries: LoggedQuery[]): QueryGroup[] {
+    const parser = new MySQLParser(this.parserOptions)
+    return groupQueries(queries, parser).map(group => {
+      const known = group.database !== null && !!this.schemas && group.database in this.schemas
+      const database = known ? (group.database as string) : undefined
+      return { ...group, diagnostics: this.analyze(group.sample, { database }) }
+    })
+  }
 
-    const databaseName = this.schema?.config.schema
-    const { tableReferences, columnReferences, valueReferences, aliasReferences } = references
+  /**
+   * Gets the completions for a cursor in a text of MySQL queries: the keywords, databases, tables,
+   * columns and aliases that fit the position and start with the word before the cursor.
+   *
+   * @param text - the queries
+   * @param offset - the position of the cursor in the text
+   */
+  public getCompletions(text: string, offset: number): Completion[] {
+    const parser = new MySQLParser(this.parserOptions)
+    const { statement, database } = this.getStatementAt(parser, text, offset)
+    return getCompletions({
+      text: statement.text,
+      offset: offset - statement.start,
+      parser,
+      schema: this.getSchema(database),
+      databases: this.schemas && Object.keys(this.schemas)
+    })
+  }
 
-    for (const tableRef of tableReferences) {
-      const { table, start, stop } = tableRef
+  /**
+   * Gets what is at a position of a text of MySQL queries: the type, nullability, default value and
+   * indexes of a column, or the columns of a table.
+   *
+   * @param text - the queries
+   * @param offset - the position in the text
+   * @returns the hover, with positions in the text, or null if there is no schema or nothing known there
+   */
+  public getHover(text: string, offset: number): Hover | null {
+    const parser = new MySQLParser(this.parserOptions)
+    const { statement, database } = this.getStatementAt(parser, text, offset)
+    const schema = this.getSchema(database)
+    const hover = schema && getHover(parser.parse(statement.text), schema, offset - statement.start)
+    return hover ? { ...hover, start: statement.start + hover.start, stop: statement.start + hover.stop } : null
+  }
 
-      const schemaTable = getSchemaTable(table, this.schema.tables, aliasReferences)
-      if (schemaTable) {
-        const columnRefs = columnReferences.filter(r => r.tableReference?.table === table)
-        const valueRefs = valueReferences.filter(r => r.columnReference?.tableReference?.table === table)
-        const columnDiagnostics = this.analyzeColumns(statement, schemaTable, columnRefs, valueRefs, aliasReferences)
-        diagnostics = diagnostics.concat(columnDiagnostics)
-      } else {
-        const messageParts = [`Table '${table}' does not exist in database '${databaseName}'.`]
-        const tableNames = this.schema?.tables.map(t => t.name) || []
-        const correction = getCorrection(table.toLowerCase(), tableNames)
-        if (correction) {
-          messageParts.push(` Did you mean '${correction}'?`)
-        }
-        diagnostics.push({
-          severity: DiagnosticSeverity.Warning,
-          message: messageParts.join(''),
-          start: statement.start + start,
-          stop: statement.start + stop,
-          code: DiagnosticCode.MissingTable
-        })
+  /**
+   * Finds the statement at a position of a text, or an empty statement between statements, and the
+   * database selected by the USE statements before it
+   */
+  private getStatementAt(
+    parser: MySQLParser,
+    text: string,
+    offset: number
+  ): { statement: Statement; database: string | undefined } {
+    text = replaceNamedPlaceholders(text, findPlaceholders(text))
+    let { database } = this
+    for (const statement of parser.splitStatements(text)) {
+      if (statement.start <= offset && offset <= statement.stop) {
+        return { statement, database }
+      }
+      if (statement.start > offset) {
+        break
+      }
+      // only the statements that can be USE statements are parsed
+      if (/\bUSE\b/i.test(statement.text)) {
+        database = getUsedDatabase(parser.parse(statement.text)) ?? database
       }
     }
-
-    return diagnostics
+    return { statement: { text: '', start: offset, stop: offset }, database }
   }
 
-  private analyzeColumns(
-    statement: Statement,
-    schemaTable: SchemaTable,
-    columnRefs: ColumnReference[],
-    valueRefs: ValueReference[],
-    aliasRefs: AliasReference[]
-  ): MySQLAnalyzerDiagnostic[] {
-    let diagnostics: MySQLAnalyzerDiagnostic[] = []
+  /** Creates a schema builder that starts with the schemas of the analyzer, to apply statements to */
+  private createSchemaBuilder(): SchemaBuilder {
+    const builder = new SchemaBuilder({ parserOptions: this.parserOptions, database: this.database })
+    for (const [database, schema] of Object.entries(this.schemas || {})) {
+      builder.addSchema(schema, database)
+    }
+    return builder
+  }
 
-    const { name: tableName } = schemaTable
+  /**
+   * Gets the schema statements are checked against while the given database is selected, from the
+   * schemas of the analyzer or the schemas changed by the statements of a text
+   */
+  private getSchema(database?: string, schemas = this.schemas): Schema | undefined {
+    if (!schemas || database === undefined) {
+      return undefined
+    }
+    if (schemas !== this.schemas) {
+      return getDatabaseSchema(schemas, database)
+    }
 
-    for (const columnRef of columnRefs) {
-      const { column, start, stop } = columnRef
+    let schema = this.databaseSchemas.get(database)
+    if (!schema) {
+      schema = getDatabaseSchema(this.schemas, database)
+      this.databaseSchemas.set(database, schema)
+    }
+    return schema
+  }
 
-      const schemaColumn = getSchemaColumn(column, schemaTable.columns, aliasRefs)
-      if (schemaColumn) {
-        const valueRef = valueRefs.find(r => r.columnReference?.column === column)
-        const columnDiagnostics = this.analyzeColumn(statement, schemaColumn, columnRef, valueRef)
-        diagnostics = diagnostics.concat(columnDiagnostics)
-      } else {
-        const messageParts = [`Column '${column}' does not exist in table '${tableName}'.`]
-        const columnNames = schemaTable.columns.map(c => c.name)
-        const correction = getCorrection(column.toLowerCase(), columnNames)
-        if (correction) {
-          messageParts.push(` Did you mean '${correction}'?`)
-        }
-        diagnostics.push({
-          severity: DiagnosticSeverity.Warning,
-          message: messageParts.join(''),
-          start: statement.start + start,
-          stop: statement.start + stop,
-          code: DiagnosticCode.MissingColumn
-        })
+  private bindParameters(
+    placeholders: Placeholder[],
+    params: NonNullable<AnalyzeOptions['params']>
+  ): MySQLAnalyzerParameters {
+    const positional = placeholders.filter(p => p.name === null)
+    const named = placeholders.filter(p => p.name !== null)
+    // placeholders of the other kind than the values can't be bound
+    const unbound = (kind: Placeholder[]): MySQLAnalyzerParameter[] =>
+      kind.map((placeholder, index) => ({ ...placeholder, index, bound: false }))
+
+    if (Array.isArray(params)) {
+      return {
+        placeholders: positional
+          .map(
+            (placeholder, index): MySQLAnalyzerParameter => ({
+              ...placeholder,
+              index,
+              bound: index < params.length,
+              value: params[index]
+            })
+          )
+          .concat(unbound(named))
+          .sort((a, b) => a.start - b.start),
+        placeholderCount: positional.length,
+        valueCount: params.length,
+        unusedValueCount: Math.max(params.length - positional.length, 0),
+        byName: false
       }
     }
 
-    return diagnostics
+    return {
+      placeholders: named
+        .map(
+          (placeholder, index): MySQLAnalyzerParameter => ({
+            ...placeholder,
+            index,
+            bound: Object.prototype.hasOwnProperty.call(params, placeholder.name as string),
+            value: params[placeholder.name as string]
+          })
+        )
+        .concat(unbound(positional))
+        .sort((a, b) => a.start - b.start),
+      placeholderCount: named.length,
+      valueCount: Object.keys(params).length,
+      unusedValueCount: 0,
+      byName: true
+    }
   }
 
-  private analyzeColumn(
+  /** Gets the parameters of the placeholders in a statement, with positions relative to the statement */
+  private getStatementParameters(
+    parameters: MySQLAnalyzerParameters,
     statement: Statement,
-    schemaColumn: SchemaColumn,
-    columnRef: ColumnReference,
-    valueRef?: ValueReference
-  ): MySQLAnalyzerDiagnostic[] {
-    const diagnostics: MySQLAnalyzerDiagnostic[] = []
+    isLastStatement: boolean
+  ): MySQLAnalyzerParameters {
+    const placeholders: MySQLAnalyzerParameter[] = parameters.placeholders
+      .filter(p => p.start >= statement.start && p.start < statement.start + statement.text.length)
+      .map(p => ({ ...p, start: p.start - statement.start, stop: p.stop - statement.start }))
+
+    return {
+      ...parameters,
+      placeholders,
+      unusedValueCount: isLastStatement ? parameters.unusedValueCount : 0
+    }
+  }
 
-    if (!valueRef) {
-      return diagnostics
+  private mapDiagnostic(
+    diagnostic: MySQLAnalyzerDiagnostic,
+    query: ExtractedQuery,
+    lineStarts: number[]
+  ): MySQLAnalyzerDiagnostic {
+    const start = getSourceOffset(query, diagnostic.start)
+    const stop = getSourceOffset(query, diagnostic.stop)
+    const { line: startLine, column: startColumn } = getLineAndColumn(lineStarts, start)
+    const { line: stopLine, column: stopColumn } = getLineAndColumn(lineStarts, stop)
+
+    return {
+      ...diagnostic,
+      start,
+      stop,
+      startLine,
+      startColumn,
+      stopLine,
+      stopColumn,
+      fixes: diagnostic.fixes?.map(fix => ({
+        ...fix,
+        edits: fix.edits.map(edit => ({
+          ...edit,
+          start: getSourceOffset(query, edit.start),
+          stop: getSourceOffset(query, edit.stop)
+        }))
+      }))
     }
+  }
 
-    if (invalidAssignment(schemaColumn, valueRef)) {
-      diagnostics.push({
-        severity: DiagnosticSeverity.Warning,
-        message: `Type ${valueRef.dataType} is not assignable to type ${schemaColumn.tsType}.`,
-        start: statement.start + valueRef.start,
-        stop: statement.start + valueRef.stop,
-        code: DiagnosticCode.TypeMismatch
-      })
+  private analyzeStatement(
+    statement: Statement,
+    statementIndex: number,
+    lineStarts: number[],
+    suppressions: Suppression[],
+    parser: MySQLParser,
+    result: ParseResult,
+    database?: string,
+    schemas?: Schemas,
+    parameters?: MySQLAnalyzerParameters,
+    explain?: MySQLAnalyzerExplain
+  ): MySQLAnalyzerDiagnostic[] {
+    let diagnostics: MySQLAnalyzerDiagnostic[] = []
+
+    const context: MySQLAnalyzerRuleContext = {
+      statement,
+      result,
+      references: result.references,
+      parser,
+      schema: this.getSchema(database, schemas),
+      databases: schemas && Object.keys(schemas),
+      parameters,
+      explain
     }
 
-    if (missingIndex(schemaColumn, valueRef)) {
-      diagnostics.push({
-        severity: DiagnosticSeverity.Suggestion,
-        message: `You can optimize this query by adding a MySQL index for column '${schemaColumn.name}'.`,
-        start: statement.start + columnRef.start,
-        stop: statement.start + columnRef.stop,
-        code: DiagnosticCode.MissingIndex
-      })
+    for (const rule of this.rules) {
+      const setting = this.rulesConfig[rule.name]
+      const severity = setting ? getRuleSeverity(setting) : rule.severity
+      if (severity === null) {
+        continue
+      }
+
+      const ruleDiagnostics = rule
+        .check(context)
+        .filter(
+          diagnostic => !isSuppressed(suppressions, rule.name, diagnostic.code, statement.start + diagnostic.start)
+        )
+        .map(diagnostic => {
+          const start = statement.start + diagnostic.start
+          const stop = statement.start + diagnostic.stop
+          const { line: startLine, column: startColumn } = getLineAndColumn(lineStarts, start)
+          const { line: stopLine, column: stopColumn } = getLineAndColumn(lineStarts, stop)
+          return {
+            ...diagnostic,
+            severity,
+            start,
+            stop,
+            startLine,
+            startColumn,
+            stopLine,
+            stopColumn,
+            statementIndex,
+            rule: rule.name,
+            fixes: diagnostic.fixes?.map(fix => ({
+              ...fix,
+              edits: fix.edits.map(edit => ({
+                ...edit,
+                start: statement.start + edit.start,
+                stop: statement.start + edit.stop
+              }))
+            }))
+          }
+        })
+      diagnostics = diagnostics.concat(ruleDiagnostics)
     }
 
     return diagnostics
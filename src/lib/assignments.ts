@@ -0,0 +1,242 @@
+import {
+  ParseResult,
+  unquote,
+  InsertStatementContext,
+  ReplaceStatementContext,
+  UpdateStatementContext,
+  UpdateListContext,
+  ValuesContext,
+  ExprContext,
+  TableRefContext,
+  ValueListContext,
+  QueryExpressionOrParensContext
+} from 'ts-mysql-parser'
+import { Schema, SchemaTable, SchemaColumn } from 'ts-mysql-schema'
+import { findDescendant } from './parse-tree'
+import { getTables } from './write-statements'
+import { getQualifiedTableName, findSchemaTable } from './databases'
+
+/** Represents a value written to a column by an INSERT or UPDATE statement */
+export interface Assignment {
+  /** The table in the schema that is written to */
+  readonly schemaTable: SchemaTable
+  /** The column in the schema that is written to */
+  readonly schemaColumn: SchemaColumn
+  /** The value written to the column */
+  readonly value: ExprContext
+}
+
+/** Represents the columns an INSERT statement gives values to */
+export interface InsertedColumns {
+  /** The table in the schema that is inserted into */
+  readonly schemaTable: SchemaTable
+  /** The columns given values, or null if the statement gives a value to every column */
+  readonly columns: SchemaColumn[] | null
+  /** The reference to the table in the statement */
+  readonly tableRef: TableRefContext
+}
+
+/** Represents a row of the VALUES clause of an INSERT or REPLACE statement */
+export interface InsertRow {
+  /** The values of the row, with null for DEFAULT */
+  readonly values: (ExprContext | null)[]
+  /** The starting position of the row, at its opening parenthesis */
+  readonly start: number
+  /** The stopping position of the row, at its closing parenthesis */
+  readonly stop: number
+}
+
+/** Represents what an INSERT or REPLACE statement inserts */
+export interface InsertSource {
+  /** The name of the table inserted into, qualified with its database if it is in the statement */
+  readonly table: string
+  /** The reference to the table in the statement */
+  readonly tableRef: TableRefContext
+  /** The names of the columns given values, or null if the statement gives a value to every column */
+  readonly columns: string[] | null
+  /** The rows of the VALUES clause, if any */
+  readonly rows: InsertRow[]
+  /** The query of an INSERT ... SELECT statement, or null */
+  readonly query: QueryExpressionOrParensContext | null
+}
+
+function getColumnName(text: string): string {
+  // the last part of a qualified name (e.g. `users.id`) is the column
+  const parts = text.split('.')
+  return unquote(parts[parts.length - 1])
+}
+
+function findColumn(schemaTable: SchemaTable, name: string): SchemaColumn | null {
+  return schemaTable.columns.find(c => c.name.toLowerCase() === name.toLowerCase()) || null
+}
+
+/** Gets the values of a row, with null for DEFAULT */
+export function getRowValues(values: ValuesContext): (ExprContext | null)[] {
+  const row: (ExprContext | null)[] = []
+  for (let i = 0; i < values.childCount; i++) {
+    const child = values.getChild(i)
+    if (child instanceof ExprContext) {
+      row.push(child)
+    } else if (child.text.toUpperCase() === 'DEFAULT') {
+      row.push(null)
+    }
+  }
+  return row
+}
+
+/** Gets the rows of a VALUES clause, e.g. `('a', 1), ('b', DEFAULT)` */
+function getRows(valueList: ValueListContext): InsertRow[] {
+  const closing = valueList.CLOSE_PAR_SYMBOL()
+  return valueList.OPEN_PAR_SYMBOL().map((open, index) => {
+    const start = open.symbol.startIndex
+    const stop = closing[index]?.symbol.stopIndex ?? start
+    // an empty row, e.g. `()`, has no values
+    const values = valueList.values().find(v => v.start.startIndex > start && v.start.startIndex < stop)
+    return { values: values ? getRowValues(values) : [], start, stop }
+  })
+}
+
+function getUpdateListAssignments(updateList: UpdateListContext | undefined, schemaTable: SchemaTable): Assignment[] {
+  const assignments: Assignment[] = []
+  for (const element of updateList?.updateElement() || []) {
+    const schemaColumn = findColumn(schemaTable, getColumnName(element.columnRef().text))
+    const value = element.expr()
+    if (schemaColumn && value) {
+      assignments.push({ schemaTable, schemaColumn, value })
+    }
+  }
+  return assignments
+}
+
+/** Gets the INSERT or REPLACE statement of a parse result, or null if the statement is neither */
+function getInsertStatement(result: ParseResult): InsertStatementContext | ReplaceStatementContext | null {
+  return findDescendant(result.tree, InsertStatementContext) || findDescendant(result.tree, ReplaceStatementContext)
+}
+
+function getSource(insert: InsertStatementContext | ReplaceStatementContext): InsertSource {
+  const tableRef = insert.tableRef()
+  const updateList = insert.updateList()
+  const fromConstructor = insert.insertFromConstructor()
+  const insertQuery = insert.insertQueryExpression()
+  const fields = fromConstructor?.fields() || insertQuery?.fields()
+
+  let columns: string[] | null = null
+  if (updateList) {
+    columns = updateList.updateElement().map(element => getColumnName(element.columnRef().text))
+  } else if (fields) {
+    columns = fields.insertIdentifier().map(identifier => getColumnName(identifier.text))
+  }
+
+  return {
+    table: getQualifiedTableName(tableRef.text),
+    tableRef,
+    columns,
+    rows: fromConstructor ? getRows(fromConstructor.insertValues().valueList()) : [],
+    query: insertQuery?.queryExpressionOrParens() || null
+  }
+}
+
+function getInsertAssignments(
+  insert: InsertStatementContext | ReplaceStatementContext,
+  source: InsertSource,
+  schemaTable: SchemaTable
+): Assignment[] {
+  let assignments: Assignment[] = []
+
+  // without a column list, values are assigned to the columns of the table in order
+  const columns = source.columns ? source.columns.map(name => findColumn(schemaTable, name)) : schemaTable.columns
+  for (const row of source.rows) {
+    row.values.forEach((value, index) => {
+      const schemaColumn = columns[index]
+      if (value && schemaColumn) {
+        assignments.push({ schemaTable, schemaColumn, value })
+      }
+    })
+  }
+
+  assignments = assignments.concat(getUpdateListAssignments(insert.updateList(), schemaTable))
+  if (insert instanceof InsertStatementContext) {
+    assignments = assignments.concat(getUpdateListAssignments(insert.insertUpdateList()?.updateList(), schemaTable))
+  }
+  return assignments
+}
+
+function getUpdateAssignments(update: UpdateStatementContext, schema: Schema): Assignment[] {
+  const tables = getTables(update.tableReferenceList())
+  const assignments: Assignment[] = []
+
+  for (const element of update.updateList().updateElement()) {
+    const value = element.expr()
+    const parts = element
+      .columnRef()
+      .text.split('.')
+      .map(part => unquote(part))
+    const columnName = parts[parts.length - 1]
+    const qualifier = parts.length > 1 ? parts[parts.length - 2] : null
+
+    // an unqualified column belongs to the first table that has it
+    for (const { name, table } of tables) {
+      const schemaTable = table && findSchemaTable(schema, table)
+      const schemaColumn = schemaTable && findColumn(schemaTable, columnName)
+      if (schemaTable && schemaColumn && (qualifier === null || qualifier === name)) {
+        if (value) {
+          assignments.push({ schemaTable, schemaColumn, value })
+        }
+        break
+      }
+    }
+  }
+
+  return assignments
+}
+
+/**
+ * Gets what an INSERT or REPLACE statement inserts: the rows of its VALUES clause or its query, and
+ * the columns they give values to. Returns null if the statement is neither.
+ *
+ * @param result - the result of parsing the statement
+ */
+export function getInsertSource(result: ParseResult): InsertSource | null {
+  const insert = getInsertStatement(result)
+  return insert && getSource(insert)
+}
+/**
+ * Gets the values an INSERT, REPLACE or UPDATE statement writes to columns: the values of each row,
+ * the assignments of SET clauses, and those of ON DUPLICATE KEY UPDATE. DEFAULT is not a value.
+ *
+ * @param result - the result of parsing the statement
+ * @param schema - the schema to resolve tables and columns against
+ */
+export function getAssignments(result: ParseResult, schema: Schema): Assignment[] {
+  const insert = getInsertStatement(result)
+  if (insert) {
+    const source = getSource(insert)
+    const schemaTable = findSchemaTable(schema, source.table)
+    return schemaTable ? getInsertAssignments(insert, source, schemaTable) : []
+  }
+
+  const update = findDescendant(result.tree, UpdateStatementContext)
+  return update ? getUpdateAssignments(update, schema) : []
+}
+
+/**
+ * Gets the columns an INSERT or REPLACE statement gives values to, or null if the statement is not
+ * an INSERT or REPLACE into a table of the schema.
+ *
+ * @param result - the result of parsing the statement
+ * @param schema - the schema to resolve tables and columns against
+ */
+export function getInsertedColumns(result: ParseResult, schema: Schema): InsertedColumns | null {
+  const source = getInsertSource(result)
+  const schemaTable = source && findSchemaTable(schema, source.table)
+  if (!source || !schemaTable) {
+    return null
+  }
+
+  const columns = source.columns?.map(name => findColumn(schemaTable, name))
+  return {
+    schemaTable,
+    columns: columns ? columns.filter((c): c is SchemaColumn => c !== null) : null,
+    tableRef: source.tableRef
+  }
+}
@@ -0,0 +1,69 @@
+import { FileDiagnostics } from './reporters'
+
+/** Represents diagnostics that were accepted, which are matched by code and message so that moving code keeps them */
+export interface BaselineEntry {
+  readonly code: number
+  readonly message: string
+  /** How many diagnostics with the code and message the file has */
+  readonly count: number
+}
+
+/** Represents the diagnostics of a set of files, which are not reported again */
+export interface Baseline {
+  readonly version: 1
+  /** The accepted diagnostics, by file */
+  readonly files: { readonly [file: string]: BaselineEntry[] }
+}
+
+function getKey(diagnostic: { code: number; message: string }): string {
+  return `${diagnostic.code}:${diagnostic.message}`
+}
+
+/** Creates a baseline of the diagnostics of files, with the files and entries sorted so that it diffs well */
+export function createBaseline(files: FileDiagnostics[]): Baseline {
+  const baseline: { [file: string]: BaselineEntry[] } = {}
+
+  for (const { file, diagnostics } of [...files].sort((a, b) => (a.file < b.file ? -1 : a.file > b.file ? 1 : 0))) {
+    const entries = new Map<string, BaselineEntry>()
+    for (const { code, message } of diagnostics) {
+      const key = getKey({ code, message })
+      const entry = entries.get(key)
+      entries.set(key, { code, message, count: entry ? entry.count + 1 : 1 })
+    }
+    if (entries.size) {
+      baseline[file] = Array.from(entries.values()).sort((a, b) => a.code - b.code || (a.message < b.message ? -1 : 1))
+    }
+  }
+
+  return { version: 1, files: baseline }
+}
+
+/**
+ * Removes the diagnostics that are in a baseline. When a file has more diagnostics with a code and message
+ * than the baseline counts, the last ones are kept.
+ */
+export function filterBaseline(files: FileDiagnostics[], baseline: Baseline): FileDiagnostics[] {
+  return files.map(({ file, diagnostics }) => {
+    const remaining = new Map<string, number>()
+    for (const entry of baseline.files[file] || []) {
+      remaining.set(getKey(entry), entry.count)
+    }
+
+    const newDiagnostics = diagnostics.filter(diagnostic => {
+      const key = getKey(diagnostic)
+      const count = remaining.get(key) || 0
+      remaining.set(key, count - 1)
+      return count <= 0
+    })
+    return { file, diagnostics: newDiagnostics }
+  })
+}
+
+/** Parses the text of a baseline file, throwing if it is not a baseline */
+export function parseBaseline(text: string): Baseline {
+  const baseline = JSON.parse(text)
+  if (!baseline || baseline.version !== 1 || typeof baseline.files !== 'object' || baseline.files === null) {
+    throw new Error('The baseline is not a version 1 baseline.')
+  }
+  return baseline
+}
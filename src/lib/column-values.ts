@@ -0,0 +1,155 @@
+import { ParseResult, SimpleExprParamMarkerContext } from 'ts-mysql-parser'
+import { Schema, SchemaColumn, SqlDataType } from 'ts-mysql-schema'
+import { DetailedSchemaColumn } from './schema-builder'
+import { AssignedValue, getParameterValue } from './invalid-assignment'
+import { getConstant } from './constant-conditions'
+import { getAssignments } from './assignments'
+import { ParseTree, findDescendant } from './parse-tree'
+
+/** Represents why a value can't be stored in a column */
+export type InvalidValue =
+  | { readonly kind: 'enum'; readonly values: string[] }
+  | { readonly kind: 'length'; readonly length: number; readonly actualLength: number; readonly unit: string }
+  | { readonly kind: 'range'; readonly min: string; readonly max: string }
+
+/** Represents a value written to a column that can't store it */
+export interface InvalidColumnValue {
+  /** The column the value is written to */
+  readonly schemaColumn: SchemaColumn
+  /** The value, or the value bound to its placeholder */
+  readonly value: AssignedValue
+  /** Why the column can't store the value */
+  readonly invalidValue: InvalidValue
+  /** The starting position of the value in the statement */
+  readonly start: number
+  /** The stopping position of the value in the statement */
+  readonly stop: number
+}
+
+/** Represents a placeholder of a statement and the value bound to it, if any */
+interface BoundPlaceholder {
+  readonly start: number
+  readonly bound: boolean
+  readonly value?: unknown
+}
+
+// the smallest signed value, the largest signed value and the largest unsigned value of each integer type
+const integerRanges: { readonly [sqlType: string]: [string, string, string] } = {
+  [SqlDataType.TINYINT]: ['-128', '127', '255'],
+  [SqlDataType.SMALLINT]: ['-32768', '32767', '65535'],
+  [SqlDataType.MEDIUMINT]: ['-8388608', '8388607', '16777215'],
+  [SqlDataType.INT]: ['-2147483648', '2147483647', '4294967295'],
+  [SqlDataType.INTEGER]: ['-2147483648', '2147483647', '4294967295'],
+  [SqlDataType.BIGINT]: ['-9223372036854775808', '9223372036854775807', '18446744073709551615']
+}
+
+const binaryTypes: string[] = [SqlDataType.BINARY, SqlDataType.VARBINARY]
+const lengthTypes: string[] = [SqlDataType.CHAR, SqlDataType.VARCHAR, ...binaryTypes]
+
+/**
+ * Gets the details of a column's definition. Only schemas built from data definition statements
+ * know them, so every detail may be missing.
+ */
+export function getColumnDetails(schemaColumn: SchemaColumn): Partial<DetailedSchemaColumn> {
+  return schemaColumn as Partial<DetailedSchemaColumn>
+}
+
+/** Gets the value of a literal expression (e.g. `'a'` or `-1`), or null if the expression is not a string or number literal */
+export function getLiteralValue(expr: ParseTree): AssignedValue | null {
+  const constant = getConstant(expr.text)
+  if (typeof constant === 'string') {
+    return { dataType: 'string', value: constant }
+  }
+  if (typeof constant === 'number') {
+    // keep the digits of integers too large to be represented exactly as numbers
+    const digits = expr.text.replace(/[()]/g, '')
+    return { dataType: 'number', value: /^[+-]?\d/.test(digits) ? digits : String(constant) }
+  }
+  return null
+}
+
+/** Compares two integers written in decimal, which may be too large to be represented exactly as numbers */
+function compareIntegers(a: string, b: string): number {
+  const normalize = (value: string): { negative: boolean; digits: string } => {
+    const digits = value.replace(/^[+-]/, '').replace(/^0+(?=\d)/, '')
+    return { negative: value.startsWith('-') && digits !== '0', digits }
+  }
+  const x = normalize(a)
+  const y = normalize(b)
+  if (x.negative !== y.negative) {
+    return x.negative ? -1 : 1
+  }
+
+  const magnitude =
+    x.digits.length !== y.digits.length
+      ? x.digits.length - y.digits.length
+      : x.digits < y.digits
+      ? -1
+      : +(x.digits > y.digits)
+  return x.negative ? -magnitude : magnitude
+}
+
+/**
+ * Checks whether a value can be stored in a column without an error in strict mode: strings must
+ * be allowed by ENUM and SET columns and fit the length of CHAR, VARCHAR, BINARY and VARBINARY
+ * columns, and integers must fit the range of integer columns.
+ *
+ * @returns why the value can't be stored, or null if it can (or if it can't be checked)
+ */
+export function getInvalidValue(schemaColumn: SchemaColumn, { dataType, value }: AssignedValue): InvalidValue | null {
+  const { values, length, unsigned } = getColumnDetails(schemaColumn)
+  const { sqlType } = schemaColumn
+
+  if (dataType === 'string' && values) {
+    const isAllowed = (member: string): boolean => values.some(v => v.toLowerCase() === member.toLowerCase())
+    // a SET value lists any number of its allowed values, separated by commas
+    const members = sqlType === SqlDataType.SET ? value.split(',').filter(Boolean) : [value]
+    return members.every(isAllowed) ? null : { kind: 'enum', values }
+  }
+
+  if (dataType === 'string' && typeof length === 'number' && lengthTypes.includes(sqlType)) {
+    const isBinary = binaryTypes.includes(sqlType)
+    const actualLength = isBinary ? Buffer.byteLength(value) : [...value].length
+    return actualLength > length
+      ? { kind: 'length', length, actualLength, unit: isBinary ? 'bytes' : 'characters' }
+      : null
+  }
+
+  const range = integerRanges[sqlType]
+  if (dataType === 'number' && range && /^[+-]?\d+$/.test(value)) {
+    const [min, max] = unsigned ? ['0', range[2]] : [range[0], range[1]]
+    return compareIntegers(value, min) < 0 || compareIntegers(value, max) > 0 ? { kind: 'range', min, max } : null
+  }
+
+  return null
+}
+
+/**
+ * Gets the values an INSERT, REPLACE or UPDATE statement writes to columns that can't store them
+ * (see `getInvalidValue`). A placeholder is checked against the value bound to it, if any.
+ *
+ * @param result - the result of parsing the statement
+ * @param schema - the schema to resolve tables and columns against
+ * @param placeholders - the placeholders of the statement, with the values bound to them
+ */
+export function getInvalidColumnValues(
+  result: ParseResult,
+  schema: Schema,
+  placeholders: BoundPlaceholder[] = []
+): InvalidColumnValue[] {
+  const invalidValues: InvalidColumnValue[] = []
+  for (const { schemaColumn, value } of getAssignments(result, schema)) {
+    const start = value.start.startIndex
+    const stop = value.stop?.stopIndex || start
+
+    const marker = findDescendant(value, SimpleExprParamMarkerContext)
+    const placeholder = marker?.text === value.text ? placeholders.find(p => p.start === start) : undefined
+    const assignedValue = placeholder?.bound ? getParameterValue(placeholder.value) : getLiteralValue(value)
+
+    const invalidValue = assignedValue && getInvalidValue(schemaColumn, assignedValue)
+    if (assignedValue && invalidValue) {
+      invalidValues.push({ schemaColumn, value: assignedValue, invalidValue, start, stop })
+    }
+  }
+  return invalidValues
+}
@@ -0,0 +1,240 @@
+import MySQLParser, { unquote } from 'ts-mysql-parser'
+import { Schema } from 'ts-mysql-schema'
+import { skipQuotedOrComment } from './placeholders'
+import { resolveScopes, findScope, Scope, ScopeTable } from './scopes'
+import { formatColumnType } from './migrations'
+import { findSchemaTable } from './databases'
+
+/** Represents a suggestion for the word at a position of a text */
+export interface Completion {
+  /** The text of the suggestion */
+  readonly label: string
+  /** What the suggestion is */
+  readonly kind: 'keyword' | 'database' | 'table' | 'alias' | 'column'
+  /** More about the suggestion, e.g. the table and type of a column, or null */
+  readonly detail: string | null
+}
+
+/** Represents the statement completions are requested in */
+export interface CompletionContext {
+  /** The text of the statement */
+  readonly text: string
+  /** The position of the cursor in the statement */
+  readonly offset: number
+  readonly parser: MySQLParser
+  /** The schema of the current database, as returned by `getDatabaseSchema`, if any */
+  readonly schema?: Schema
+  /** The names of the databases of the server, if known */
+  readonly databases?: string[]
+}
+
+// a table name is expected after these keywords, and after the commas of the lists that follow them
+const tableKeywords = ['FROM', 'JOIN', 'UPDATE', 'INTO', 'TABLE']
+const clauseKeywords = /\b(FROM|JOIN|UPDATE|INTO|TABLE|SELECT|WHERE|ON|SET|BY|HAVING|AND|OR|NOT|USING|VALUES|CASE|WHEN|THEN|ELSE)\b/gi
+
+// the table an UPDATE or INSERT statement writes to, and the column list of an INSERT
+const targetKeyword = /\b(UPDATE|INTO)\b/gi
+const tableName = /^(`[^`]*`|[\w$]+)(\.(`[^`]*`|[\w$]+))?/
+const columnList = /^\s*\((?:[^()]*,)?\s*$/
+
+// the name of a column inserted at the cursor, so that the statement parses when there is no word there yet
+const cursorName = '__cursor__'
+
+/** Replaces strings and comments with spaces, so that keywords in them are not found */
+function blankQuotedAndComments(text: string): string {
+  let blanked = ''
+  let i = 0
+  while (i < text.length) {
+    const next = skipQuotedOrComment(text, i)
+    if (next === i) {
+      blanked += text[i++]
+    } else {
+      blanked += ' '.repeat(next - i)
+      i = next
+    }
+  }
+  return blanked
+}
+
+/** Checks whether a position is inside a string or a comment, where nothing is suggested */
+function isInStringOrComment(text: string, offset: number): boolean {
+  let i = 0
+  while (i < offset) {
+    const next = skipQuotedOrComment(text, i)
+    if (next === i) {
+      i++
+      continue
+    }
+    const char = text[i]
+    // a line comment ends at the line break, so a position at its end is still in the comment
+    const isClosed =
+      char === "'" || char === '"'
+        ? next - i > 1 && text[next - 1] === char
+        : char === '/' && next - i >= 4 && text.slice(next - 2, next) === '*/'
+    if (char !== '`' && (next > offset || (next === offset && !isClosed))) {
+      return true
+    }
+    i = next
+  }
+  return false
+}
+
+/** Gets the start of the identifier that ends at a position */
+function getWordStart(text: string, offset: number): number {
+  let start = offset
+  while (start > 0 && /[\w$]/.test(text[start - 1])) {
+    start--
+  }
+  return start
+}
+
+/** Gets the name a word is qualified with (e.g. `u` in `u.na`), or null */
+function getQualifier(text: string, wordStart: number): string | null {
+  if (text[wordStart - 1] !== '.') {
+    return null
+  }
+  const stop = wordStart - 1
+  const start = text[stop - 1] === '`' ? text.lastIndexOf('`', stop - 2) : getWordStart(text, stop)
+  return start === -1 || start === stop ? null : unquote(text.slice(start, stop))
+}
+
+/** Gets the clause of a position: after a keyword that expects a table name, in an expression, or neither */
+function getClause(text: string): 'table' | 'expression' | null {
+  const blanked = blankQuotedAndComments(text)
+  let last: RegExpExecArray | null = null
+  clauseKeywords.lastIndex = 0
+  for (let match = clauseKeywords.exec(blanked); match; match = clauseKeywords.exec(blanked)) {
+    last = match
+  }
+  if (!last) {
+    return null
+  }
+  if (!tableKeywords.includes(last[1].toUpperCase())) {
+    return 'expression'
+  }
+  const rest = text.slice(last.index + last[0].length)
+  // the column list of an INSERT (e.g. `INSERT INTO users (id, `) names columns of the table
+  const name = tableName.exec(rest.trimStart())
+  if (last[1].toUpperCase() === 'INTO' && name && columnList.test(rest.trimStart().slice(name[0].length))) {
+    return 'expression'
+  }
+  return /^\s*$/.test(rest) || /,\s*$/.test(rest) ? 'table' : null
+}
+
+/**
+ * Gets the table an UPDATE or INSERT statement writes to, from its text. A statement that is being
+ * written (e.g. `UPDATE users SET `) doesn't parse, so its tables can't be resolved.
+ */
+function getTargetTable(text: string, schema: Schema): ScopeTable | null {
+  const blanked = blankQuotedAndComments(text)
+  targetKeyword.lastIndex = 0
+  const keyword = targetKeyword.exec(blanked)
+  const name = keyword && tableName.exec(text.slice(keyword.index + keyword[0].length).trimStart())
+  const schemaTable = name && findSchemaTable(schema, name[0])
+  if (!name || !schemaTable) {
+    return null
+  }
+  return {
+    name: unquote(name[3] || name[1]),
+    kind: 'table',
+    table: name[3] ? `${unquote(name[1])}.${unquote(name[3])}` : unquote(name[1]),
+    schemaTable,
+    columns: schemaTable.columns.map(column => ({ name: column.name, schemaColumn: column })),
+    tableRef: null
+  }
+}
+
+function getTableCompletions(schema: Schema, databases: string[], qualifier: string | null): Completion[] {
+  const completions: Completion[] = []
+  for (const table of schema.tables) {
+    const dot = table.name.indexOf('.')
+    const database = dot === -1 ? schema.config.schema : table.name.slice(0, dot)
+    const name = table.name.slice(dot + 1)
+    if (qualifier === null ? dot === -1 : database === qualifier) {
+      completions.push({ label: name, kind: 'table', detail: database ? `${database}.${name}` : name })
+    }
+  }
+  if (qualifier === null) {
+    // a schema built without a USE statement belongs to a database without a name
+    const names = databases.filter(database => database)
+    completions.push(...names.map(database => ({ label: database, kind: 'database' as const, detail: null })))
+  }
+  return completions
+}
+
+function getColumnCompletions(table: ScopeTable): Completion[] {
+  return (table.columns || []).map(column => ({
+    label: column.name,
+    kind: 'column',
+    detail: column.schemaColumn
+      ? `${table.name}.${column.name} ${formatColumnType(column.schemaColumn)}`
+      : `${table.name}.${column.name}`
+  }))
+}
+
+/** Gets the tables a position can refer to: those of its scope, then those of the scopes it is nested in */
+function getVisibleTables(scope: Scope | null): ScopeTable[] {
+  const tables: ScopeTable[] = []
+  for (let current = scope; current; current = current.parent) {
+    tables.push(...current.tables.filter(table => !tables.some(t => t.name.toLowerCase() === table.name.toLowerCase())))
+  }
+  return tables
+}
+
+/**
+ * Gets the completions for the word at the cursor: after a keyword that expects a table name, the tables
+ * of the schema and the databases; after a qualifier, the columns of the table it names (or the tables
+ * of the database it names); in an expression, the columns and aliases of the tables in scope, or the
+ * columns of the table an UPDATE or INSERT writes to while the statement doesn't parse yet. Keywords are
+ * suggested unless the word is qualified, and nothing is suggested in strings and comments. Only the
+ * suggestions that start with the word are returned.
+ */
+export function getCompletions({ text, offset, parser, schema, databases = [] }: CompletionContext): Completion[] {
+  if (isInStringOrComment(text, offset)) {
+    return []
+  }
+
+  const wordStart = getWordStart(text, offset)
+  const word = text.slice(wordStart, offset).toLowerCase()
+  const qualifier = getQualifier(text, wordStart)
+  const clause = getClause(text.slice(0, qualifier === null ? wordStart : text.lastIndexOf('.', wordStart)))
+
+  let completions: Completion[] = []
+  if (schema && (clause === 'table' || (qualifier !== null && databases.includes(qualifier)))) {
+    completions = getTableCompletions(schema, databases, qualifier)
+  } else if (schema && clause === 'expression') {
+    const statement = word ? text : text.slice(0, offset) + cursorName + text.slice(offset)
+    const resolved = resolveScopes(parser.parse(statement), schema)
+    const scopeTables = getVisibleTables(findScope(resolved, offset))
+    const target = scopeTables.length ? null : getTargetTable(text, schema)
+    const tables = target ? [target] : scopeTables
+    if (qualifier !== null) {
+      const table = tables.find(t => t.name.toLowerCase() === qualifier.toLowerCase())
+      completions = table ? getColumnCompletions(table) : []
+    } else {
+      for (const table of tables) {
+        completions.push(...getColumnCompletions(table))
+      }
+      for (const table of tables) {
+        const isAlias = table.kind !== 'derived' && table.table !== null && table.name !== table.table
+        completions.push({ label: table.name, kind: isAlias ? 'alias' : 'table', detail: table.table })
+      }
+    }
+  }
+
+  if (qualifier === null && clause !== 'table') {
+    completions.push(
+      ...parser.getKeywords().map(keyword => ({ label: keyword, kind: 'keyword' as const, detail: null }))
+    )
+  }
+
+  const seen = new Set<string>()
+  return completions.filter(completion => {
+    const key = `${completion.kind}:${completion.label}`
+    if (seen.has(key) || !completion.label.toLowerCase().startsWith(word)) {
+      return false
+    }
+    seen.add(key)
+    return true
+  })
+}
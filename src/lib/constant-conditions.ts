@@ -0,0 +1,128 @@
+import {
+  ExprContext,
+  ExprAndContext,
+  ExprOrContext,
+  ExprIsContext,
+  PrimaryExprCompareContext,
+  PrimaryExprPredicateContext
+} from 'ts-mysql-parser'
+import { ParseTree, findDescendant } from './parse-tree'
+
+/** Represents the value of a literal: a number, a string, or NULL */
+export type Constant = number | string | null
+
+/** Removes the parentheses around a whole expression, e.g. `((1))` becomes `1` */
+function unwrapParentheses(text: string): string {
+  while (text.startsWith('(') && text.endsWith(')')) {
+    let depth = 0
+    for (let i = 0; i < text.length - 1; i++) {
+      depth += text[i] === '(' ? 1 : text[i] === ')' ? -1 : 0
+      // the opening parenthesis closes before the end, e.g. `(1)=(1)`
+      if (depth === 0) {
+        return text
+      }
+    }
+    text = text.slice(1, -1)
+  }
+  return text
+}
+
+/** Gets the value of a literal (e.g. `1`, `'a'`, `TRUE`), or undefined if the text is not a literal */
+export function getConstant(text: string): Constant | undefined {
+  const value = unwrapParentheses(text)
+
+  if (/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(value)) {
+    return Number(value)
+  }
+
+  const quoted = /^'((?:[^'\\]|\\.|'')*)'$|^"((?:[^"\\]|\\.|"")*)"$/.exec(value)
+  if (quoted) {
+    const [quote] = value
+    const content = quoted[1] !== undefined ? quoted[1] : quoted[2]
+    return content.replace(quote === "'" ? /''/g : /""/g, quote).replace(/\\(.)/g, '$1')
+  }
+
+  switch (value.toUpperCase()) {
+    case 'TRUE':
+      return 1
+    case 'FALSE':
+      return 0
+    case 'NULL':
+      return null
+  }
+
+  return undefined
+}
+
+function isTruthy(value: Constant): boolean {
+  // MySQL converts strings to numbers in a boolean context, so 'abc' is false
+  return value !== null && Number(value) !== 0 && !isNaN(Number(value))
+}
+
+/** Compares two literals the way MySQL does, returning null when the result is NULL */
+function compare(left: Constant, right: Constant, operator: string): boolean | null {
+  if (operator === '<=>') {
+    return left === null || right === null ? left === right : compare(left, right, '=')
+  }
+  if (left === null || right === null) {
+    return null
+  }
+
+  // strings are compared case-insensitively, as with the default collations
+  const bothStrings = typeof left === 'string' && typeof right === 'string'
+  const a = bothStrings ? String(left).toLowerCase() : Number(left)
+  const b = bothStrings ? String(right).toLowerCase() : Number(right)
+
+  switch (operator) {
+    case '=':
+      return a === b
+    case '<>':
+    case '!=':
+      return a !== b
+    case '<':
+      return a < b
+    case '<=':
+      return a <= b
+    case '>':
+      return a > b
+    case '>=':
+      return a >= b
+  }
+  return null
+}
+
+/**
+ * Checks whether a condition is true for every row, e.g. `1 = 1`, `TRUE`, or `id = ? OR 1`. Only
+ * conditions made of literals are detected.
+ */
+export function isAlwaysTrue(expr: ParseTree): boolean {
+  if (expr instanceof ExprOrContext) {
+    return isAlwaysTrue(expr.expr(0)) || isAlwaysTrue(expr.expr(1))
+  }
+  if (expr instanceof ExprAndContext) {
+    return isAlwaysTrue(expr.expr(0)) && isAlwaysTrue(expr.expr(1))
+  }
+  if (!(expr instanceof ExprIsContext) || expr.IS_SYMBOL()) {
+    return false
+  }
+
+  const boolPri = expr.boolPri()
+  if (boolPri instanceof PrimaryExprCompareContext) {
+    const left = getConstant(boolPri.boolPri().text)
+    const right = getConstant(boolPri.predicate().text)
+    return left !== undefined && right !== undefined && compare(left, right, boolPri.compOp().text) === true
+  }
+
+  if (boolPri instanceof PrimaryExprPredicateContext) {
+    const value = getConstant(boolPri.text)
+    if (value !== undefined) {
+      return isTruthy(value)
+    }
+
+    // a condition in parentheses, e.g. `(1 = 1 OR id = ?)`
+    const inner = findDescendant(boolPri, ExprContext)
+    return inner !== null && inner.text === unwrapParentheses(boolPri.text) && isAlwaysTrue(inner)
+  }
+
+  return false
+}
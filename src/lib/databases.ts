@@ -0,0 +1,62 @@
+import { unquote } from 'ts-mysql-parser'
+import { Schema, SchemaTable } from 'ts-mysql-schema'
+
+/** Represents the schemas of several databases on the same server, by database name */
+export interface Schemas {
+  readonly [database: string]: Schema
+}
+
+/** Represents the name of a table, qualified with its database or not */
+export interface TableName {
+  /** The database the name is qualified with (e.g. `otherdb` in `otherdb.orders`), or null */
+  readonly database: string | null
+  /** The name of the table */
+  readonly name: string
+}
+
+/** Splits the qualified name of a table (e.g. `` `otherdb`.orders ``) into its database and name */
+export function splitTableName(text: string): TableName {
+  const parts = text.split('.').map(part => unquote(part))
+  return {
+    database: parts.length > 1 ? parts[parts.length - 2] : null,
+    name: parts[parts.length - 1]
+  }
+}
+
+/** Gets the qualified name of a table without quotes (e.g. `otherdb.orders` for `` `otherdb`.`orders` ``) */
+export function getQualifiedTableName(text: string): string {
+  const { database, name } = splitTableName(text)
+  return database === null ? name : `${database}.${name}`
+}
+
+/**
+ * Gets the name a table is listed by in a schema returned by `getDatabaseSchema`: tables of the
+ * current database by name, and tables of other databases by qualified name (e.g. `otherdb.orders`).
+ */
+export function getSchemaTableName(schema: Schema | undefined, { database, name }: TableName): string {
+  return database === null || database === schema?.config.schema ? name : `${database}.${name}`
+}
+
+/** Finds a table in a schema returned by `getDatabaseSchema` by its name in a statement, qualified or not */
+export function findSchemaTable(schema: Schema, text: string): SchemaTable | null {
+  const name = getSchemaTableName(schema, splitTableName(text))
+  return schema.tables.find(t => t.name === name) || null
+}
+
+/**
+ * Combines the schemas of several databases into the schema a statement is checked against while
+ * the given database is the current one. Its tables are listed by name, and the tables of the
+ * other databases by qualified name (e.g. `otherdb.orders`).
+ */
+export function getDatabaseSchema(schemas: Schemas, database: string): Schema {
+  const [firstSchema] = Object.values(schemas)
+  const currentSchema = schemas[database] || firstSchema
+  const otherTables = Object.entries(schemas)
+    .filter(([name]) => name !== database)
+    .flatMap(([name, schema]) => schema.tables.map(table => ({ ...table, name: `${name}.${table.name}` })))
+
+  return {
+    config: { ...currentSchema.config, schema: database },
+    tables: [...(schemas[database]?.tables || []), ...otherTables]
+  }
+}
@@ -0,0 +1,155 @@
+import { ParseResult, TableRefContext, SingleTableContext, DeleteStatementContext, unquote } from 'ts-mysql-parser'
+import { findDescendants } from './parse-tree'
+import { splitTableName } from './databases'
+
+/** Represents the output of `EXPLAIN FORMAT=JSON`, e.g. `{ "query_block": { "select_id": 1, "table": { ... } } }` */
+export interface ExplainPlan {
+  readonly query_block: { readonly [key: string]: unknown }
+}
+
+/** Represents a table of an EXPLAIN plan, in the order MySQL reads it */
+export interface ExplainTable {
+  /** The name of the table in the plan: its alias, its name, or e.g. `<derived2>` for a derived table */
+  readonly name: string
+  /** How MySQL reads the table, e.g. `ALL` for a full table scan or `ref` for an index lookup */
+  readonly accessType: string | null
+  /** The indexes MySQL could have used */
+  readonly possibleKeys: string[]
+  /** The index MySQL chose, or null if it reads the table without one */
+  readonly key: string | null
+  /** The estimated number of rows MySQL reads each time it reads the table */
+  readonly rowsExamined: number | null
+  /** Whether the rows of the part of the query the table is the first table of are sorted with a filesort */
+  readonly usingFilesort: boolean
+  /** Whether the part of the query the table is the first table of uses a temporary table */
+  readonly usingTemporary: boolean
+}
+
+/** Represents a table of an EXPLAIN plan, and where the statement refers to it */
+export interface ExplainedTable extends ExplainTable {
+  /** The starting position of the reference to the table in the statement */
+  readonly start: number
+  /** The stopping position of the reference to the table in the statement */
+  readonly stop: number
+}
+
+/** Represents a reference to a table in a statement, by the name an EXPLAIN plan refers to it */
+export interface ExplainTableRef {
+  /** The alias of the table, or its name */
+  readonly name: string
+  readonly start: number
+  readonly stop: number
+}
+
+function isObject(value: unknown): value is { readonly [key: string]: unknown } {
+  return typeof value === 'object' && value !== null
+}
+
+/** Checks whether a value is an EXPLAIN plan */
+export function isExplainPlan(value: unknown): value is ExplainPlan {
+  return isObject(value) && isObject(value.query_block)
+}
+
+/**
+ * Reads the output of `EXPLAIN FORMAT=JSON`. The output of the `mysql` client is accepted too, e.g.
+ * with an `EXPLAIN: ` label before the document.
+ *
+ * @throws if the text has no EXPLAIN plan
+ */
+export function parseExplainPlan(text: string): ExplainPlan {
+  const start = text.indexOf('{')
+  const stop = text.lastIndexOf('}')
+  let plan: unknown
+  try {
+    plan = JSON.parse(text.slice(start, stop + 1))
+  } catch {
+    plan = null
+  }
+  if (start === -1 || !isExplainPlan(plan)) {
+    throw new Error('The text is not the output of EXPLAIN FORMAT=JSON.')
+  }
+  return plan
+}
+
+/**
+ * Gets the tables of an EXPLAIN plan. The sorts and temporary tables of the plan are attributed to
+ * the first table of the part of the plan they apply to, e.g. the first table of a query block.
+ */
+export function getExplainTables(plan: ExplainPlan): ExplainTable[] {
+  const tables: ExplainTable[] = []
+
+  const visit = (node: unknown, usingFilesort: boolean, usingTemporary: boolean): void => {
+    if (Array.isArray(node)) {
+      for (const item of node) {
+        const count = tables.length
+        visit(item, usingFilesort, usingTemporary)
+        if (tables.length > count) {
+          usingFilesort = usingTemporary = false
+        }
+      }
+      return
+    }
+    if (!isObject(node)) {
+      return
+    }
+
+    usingFilesort = usingFilesort || node.using_filesort === true
+    usingTemporary = usingTemporary || node.using_temporary_table === true
+    if (typeof node.table_name === 'string') {
+      tables.push({
+        name: node.table_name,
+        accessType: typeof node.access_type === 'string' ? node.access_type : null,
+        possibleKeys: Array.isArray(node.possible_keys) ? node.possible_keys.map(String) : [],
+        key: typeof node.key === 'string' ? node.key : null,
+        rowsExamined: typeof node.rows_examined_per_scan === 'number' ? node.rows_examined_per_scan : null,
+        usingFilesort,
+        usingTemporary
+      })
+      usingFilesort = usingTemporary = false
+    }
+
+    for (const value of Object.values(node)) {
+      const count = tables.length
+      visit(value, usingFilesort, usingTemporary)
+      if (tables.length > count) {
+        usingFilesort = usingTemporary = false
+      }
+    }
+  }
+  visit(plan.query_block, false, false)
+
+  return tables
+}
+
+/** Gets the references to tables in a statement, in order, by the name an EXPLAIN plan refers to them */
+export function getExplainTableRefs(result: ParseResult): ExplainTableRef[] {
+  return findDescendants(result.tree, TableRefContext).map(tableRef => {
+    const { parent } = tableRef
+    const alias =
+      parent instanceof SingleTableContext || parent instanceof DeleteStatementContext ? parent.tableAlias() : undefined
+    return {
+      name: alias ? unquote(alias.identifier().text) : splitTableName(tableRef.text).name,
+      start: tableRef.start.startIndex,
+      stop: tableRef.stop?.stopIndex ?? tableRef.start.stopIndex
+    }
+  })
+}
+
+/**
+ * Gets the tables of the EXPLAIN plan of a statement, each with the position of its reference in the
+ * statement. Tables MySQL creates, such as `<derived2>`, are positioned on the whole statement.
+ *
+ * @param text - the text of the statement
+ * @param result - the result of parsing the statement
+ * @param plan - the EXPLAIN plan of the statement
+ */
+export function getExplainedTables(text: string, result: ParseResult, plan: ExplainPlan): ExplainedTable[] {
+  const tableRefs = getExplainTableRefs(result)
+  return getExplainTables(plan).map(table => {
+    // a name can be referred to more than once (e.g. in a subquery), in the order MySQL reads them
+    const index = tableRefs.findIndex(ref => ref.name.toLowerCase() === table.name.toLowerCase())
+    const [tableRef] = index === -1 ? [] : tableRefs.splice(index, 1)
+    const { start, stop } = tableRef || { start: 0, stop: Math.max(text.length - 1, 0) }
+    return { ...table, start, stop }
+  })
+}
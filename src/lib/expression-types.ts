@@ -0,0 +1,420 @@
+import {
+  ParseResult,
+  ExprContext,
+  ExprIsContext,
+  BoolPriContext,
+  PrimaryExprPredicateContext,
+  PrimaryExprCompareContext,
+  PredicateContext,
+  PredicateExprInContext,
+  PredicateExprBetweenContext,
+  BitExprContext,
+  SimpleExprContext,
+  SimpleExprColumnRefContext,
+  SimpleExprLiteralContext,
+  SimpleExprRuntimeFunctionContext,
+  SimpleExprFunctionContext,
+  SimpleExprSumContext,
+  SimpleExprWindowingFunctionContext,
+  SimpleExprCollateContext,
+  SimpleExprUnaryContext,
+  SimpleExprNotContext,
+  SimpleExprListContext,
+  SimpleExprSubQueryContext,
+  SimpleExprMatchContext,
+  SimpleExprBinaryContext,
+  SimpleExprCastContext,
+  SimpleExprConvertContext,
+  SimpleExprConvertUsingContext,
+  SimpleExprCaseContext,
+  SimpleExprIntervalContext,
+  LiteralContext,
+  CastTypeContext,
+  ColumnRefContext,
+  FunctionCallContext,
+  RuntimeFunctionCallContext,
+  SumExprContext
+} from 'ts-mysql-parser'
+import { Schema, SchemaColumn } from 'ts-mysql-schema'
+import { ExpressionType, getCommonType, functionSignatures } from './functions'
+import { ParseTree, findDescendants } from './parse-tree'
+import { resolveScopes } from './scopes'
+import { invalidAssignment } from './invalid-assignment'
+import { getConstant } from './constant-conditions'
+
+/**
+ * Represents a type error in an expression, found at an operand compared with an operand of another
+ * type, at an argument of the wrong type, or at a function call with the wrong number of arguments
+ */
+export type ExpressionError = {
+  /** The starting position of the operand, argument or function call */
+  readonly start: number
+  /** The stopping position of the operand, argument or function call */
+  readonly stop: number
+} & (
+  | { readonly kind: 'comparison'; readonly type: ExpressionType; readonly otherType: ExpressionType }
+  | {
+      /** A literal compared with a column (e.g. `id = 'a'`), which must be a valid value of the column */
+      readonly kind: 'value'
+      readonly type: ExpressionType
+      readonly columnType: string
+    }
+  | {
+      readonly kind: 'argument'
+      readonly name: string
+      /** The position of the argument among the arguments, starting at 1 */
+      readonly position: number
+      readonly type: ExpressionType
+      readonly parameterType: ExpressionType
+    }
+  | {
+      readonly kind: 'argument-count'
+      readonly name: string
+      readonly count: number
+      readonly minArgs: number
+      readonly maxArgs: number
+    }
+)
+
+/** Represents a node of the parse tree that spans a range of the text */
+type RangeNode = ParseTree & { readonly start: { startIndex: number }; readonly stop?: { stopIndex: number } }
+
+// window functions that number or rank rows, rather than return a value of a row
+const rankingFunctions = ['ROW_NUMBER', 'RANK', 'DENSE_RANK', 'CUME_DIST', 'PERCENT_RANK', 'NTILE']
+
+/** Checks whether values of two types can be compared, or passed where the other type is expected */
+function isCompatible(a: ExpressionType, b: ExpressionType): boolean {
+  const types = [a, b]
+  return (
+    a === b ||
+    types.includes('null') ||
+    // booleans are numbers in MySQL, and strings are converted to dates
+    (types.includes('number') && types.includes('boolean')) ||
+    (types.includes('date') && types.includes('string'))
+  )
+}
+
+/** Gets the simple expression an expression consists of (e.g. the column of `users.id`), or null if it has operators */
+function getSimpleExpr(node: ParseTree): SimpleExprContext | null {
+  let current = node
+  while (!(current instanceof SimpleExprContext)) {
+    if (current.childCount !== 1) {
+      return null
+    }
+    current = current.getChild(0)
+  }
+  return current
+}
+
+function getRange(node: RangeNode): { start: number; stop: number } {
+  return { start: node.start.startIndex, stop: node.stop?.stopIndex || node.start.startIndex }
+}
+
+/** Gets the name of a function from its first token, in upper case */
+function getFunctionName(node: RuntimeFunctionCallContext | SumExprContext | SimpleExprContext): string {
+  return (node.start.text || '').toUpperCase()
+}
+
+/** Gets the expressions directly inside a function call, which are its arguments */
+function getArguments(call: ParseTree): ExprContext[] {
+  return findDescendants(call, ExprContext).filter(expr => {
+    let parent = expr.parent
+    while (parent && parent !== call && !(parent instanceof ExprContext)) {
+      parent = parent.parent
+    }
+    return parent === call
+  })
+}
+
+function getLiteralType(literal: LiteralContext): ExpressionType {
+  if (literal.numLiteral()) {
+    return 'number'
+  }
+  if (literal.temporalLiteral()) {
+    return 'date'
+  }
+  if (literal.nullLiteral()) {
+    return 'null'
+  }
+  if (literal.boolLiteral()) {
+    return 'boolean'
+  }
+  // text, hexadecimal and bit literals are strings
+  return 'string'
+}
+
+function getCastType(castType: CastTypeContext): ExpressionType {
+  if (castType.DATE_SYMBOL() || castType.DATETIME_SYMBOL()) {
+    return 'date'
+  }
+  const isString =
+    castType.BINARY_SYMBOL() ||
+    castType.CHAR_SYMBOL() ||
+    castType.nchar() ||
+    castType.TIME_SYMBOL() ||
+    castType.JSON_SYMBOL()
+  return isString ? 'string' : 'number'
+}
+
+class ExpressionTypeChecker {
+  private readonly types: Map<ParseTree, ExpressionType | null> = new Map()
+  public readonly errors: ExpressionError[] = []
+
+  public constructor(private readonly columns: Map<ColumnRefContext, SchemaColumn | null>) {}
+
+  /** Infers the type of every expression below the given node, collecting the errors found */
+  public check(node: ParseTree): void {
+    this.getType(node)
+    for (let i = 0; i < node.childCount; i++) {
+      this.check(node.getChild(i))
+    }
+  }
+
+  /** Gets the type of an expression, or null if it is unknown or the node is not an expression */
+  public getType(node: ParseTree): ExpressionType | null {
+    if (!this.types.has(node)) {
+      this.types.set(node, this.inferType(node))
+    }
+    return this.types.get(node) || null
+  }
+
+  private inferType(node: ParseTree): ExpressionType | null {
+    if (node instanceof ExprContext) {
+      // `IS TRUE`, NOT, AND, OR and XOR give 1 or 0
+      return node instanceof ExprIsContext && !node.IS_SYMBOL() ? this.getType(node.boolPri()) : 'number'
+    }
+    if (node instanceof BoolPriContext) {
+      if (node instanceof PrimaryExprPredicateContext) {
+        return this.getType(node.predicate())
+      }
+      if (node instanceof PrimaryExprCompareContext) {
+        this.checkComparison(node.boolPri(), node.predicate())
+      }
+      return 'number'
+    }
+    if (node instanceof PredicateContext) {
+      return this.getPredicateType(node)
+    }
+    if (node instanceof BitExprContext) {
+      const simpleExpr = node.simpleExpr()
+      if (simpleExpr) {
+        return this.getType(simpleExpr)
+      }
+      // adding an interval to a date (e.g. `created + INTERVAL 1 DAY`) gives a date
+      return node.INTERVAL_SYMBOL() ? 'date' : 'number'
+    }
+    if (node instanceof SimpleExprContext) {
+      return this.getSimpleExprType(node)
+    }
+    return null
+  }
+
+  private getPredicateType(predicate: PredicateContext): ExpressionType | null {
+    const [left] = predicate.bitExpr()
+    const operations = predicate.predicateOperations()
+    if (operations instanceof PredicateExprInContext) {
+      for (const expr of operations.exprList()?.expr() || []) {
+        this.checkComparison(left, expr)
+      }
+      return 'number'
+    }
+    if (operations instanceof PredicateExprBetweenContext) {
+      this.checkComparison(left, operations.bitExpr())
+      this.checkComparison(left, operations.predicate())
+      return 'number'
+    }
+    // LIKE, REGEXP, SOUNDS LIKE and MEMBER OF give 1 or 0
+    return predicate.childCount > 1 ? 'number' : this.getType(left)
+  }
+
+  private getSimpleExprType(node: SimpleExprContext): ExpressionType | null {
+    if (node instanceof SimpleExprColumnRefContext) {
+      // JSON operators (e.g. `data->'$.name'`) give JSON values, which are strings
+      const tsType = node.jsonOperator() ? 'string' : this.columns.get(node.columnRef())?.tsType
+      return tsType === 'string' || tsType === 'number' || tsType === 'boolean' || tsType === 'date' ? tsType : null
+    }
+    if (node instanceof SimpleExprLiteralContext) {
+      return getLiteralType(node.literal())
+    }
+    if (node instanceof SimpleExprRuntimeFunctionContext) {
+      const call = node.runtimeFunctionCall()
+      return this.getCallType(getFunctionName(call), getArguments(call))
+    }
+    if (node instanceof SimpleExprFunctionContext) {
+      return this.getFunctionCallType(node.functionCall())
+    }
+    if (node instanceof SimpleExprSumContext) {
+      return this.getSumExprType(node.sumExpr())
+    }
+    if (node instanceof SimpleExprWindowingFunctionContext) {
+      return rankingFunctions.includes(getFunctionName(node)) ? 'number' : null
+    }
+    if (node instanceof SimpleExprCollateContext) {
+      return this.getType(node.simpleExpr())
+    }
+    if (node instanceof SimpleExprUnaryContext || node instanceof SimpleExprNotContext) {
+      return 'number'
+    }
+    if (node instanceof SimpleExprListContext) {
+      // a list of more than one expression is a row
+      const exprs = node.exprList().expr()
+      return exprs.length === 1 && !node.ROW_SYMBOL() ? this.getType(exprs[0]) : null
+    }
+    if (node instanceof SimpleExprSubQueryContext) {
+      return node.EXISTS_SYMBOL() ? 'number' : null
+    }
+    if (node instanceof SimpleExprMatchContext) {
+      return 'number'
+    }
+    if (node instanceof SimpleExprBinaryContext || node instanceof SimpleExprConvertUsingContext) {
+      return 'string'
+    }
+    if (node instanceof SimpleExprCastContext || node instanceof SimpleExprConvertContext) {
+      return getCastType(node.castType())
+    }
+    if (node instanceof SimpleExprCaseContext) {
+      return this.getCaseType(node)
+    }
+    if (node instanceof SimpleExprIntervalContext) {
+      return 'date'
+    }
+    return null
+  }
+
+  private getCaseType(node: SimpleExprCaseContext): ExpressionType | null {
+    // a simple CASE compares its value with each WHEN
+    const value = node.expr()
+    if (value) {
+      for (const when of node.whenExpression()) {
+        this.checkComparison(value, when.expr())
+      }
+    }
+
+    const results = node.thenExpression().map(then => then.expr())
+    const elseExpression = node.elseExpression()
+    // without ELSE, a CASE gives NULL when no WHEN matches
+    const types = results.map(result => this.getType(result))
+    return getCommonType(elseExpression ? [...types, this.getType(elseExpression.expr())] : [...types, 'null'])
+  }
+
+  private getFunctionCallType(call: FunctionCallContext): ExpressionType | null {
+    // stored functions are called by qualified name (e.g. `db.f()`), and their types are unknown
+    const name = call.pureIdentifier()?.text.toUpperCase()
+    if (!name) {
+      return null
+    }
+
+    const signature = functionSignatures[name]
+    const args =
+      call
+        .udfExprList()
+        ?.udfExpr()
+        .map(udfExpr => udfExpr.expr()) || []
+    if (signature && (args.length < signature.minArgs || args.length > signature.maxArgs)) {
+      const { minArgs, maxArgs } = signature
+      this.errors.push({ kind: 'argument-count', ...getRange(call), name, count: args.length, minArgs, maxArgs })
+      return null
+    }
+    return this.getCallType(name, args)
+  }
+
+  private getSumExprType(sumExpr: SumExprContext): ExpressionType | null {
+    // the ORDER BY of GROUP_CONCAT is not an argument
+    const inSumExpr = sumExpr.inSumExpr()
+    const args = inSumExpr ? [inSumExpr.expr()] : sumExpr.exprList()?.expr() || []
+    return this.getCallType(getFunctionName(sumExpr), args)
+  }
+
+  /** Checks the types of the arguments of a call to a built-in function, and gets the type it returns */
+  private getCallType(name: string, args: ExprContext[]): ExpressionType | null {
+    const signature = functionSignatures[name]
+    if (!signature) {
+      return null
+    }
+
+    const { parameters } = signature
+    const types = args.map((arg, index) => {
+      const type = this.getType(arg)
+      const parameterType = parameters[Math.min(index, parameters.length - 1)]
+      if (type && parameterType && parameterType !== 'any' && !isCompatible(type, parameterType)) {
+        this.errors.push({ kind: 'argument', ...getRange(arg), name, position: index + 1, type, parameterType })
+      }
+      return type
+    })
+    return signature.returns(types)
+  }
+
+  private checkComparison(left: RangeNode, right: RangeNode): void {
+    if (this.checkColumnValue(left, right) || this.checkColumnValue(right, left)) {
+      return
+    }
+
+    const type = this.getType(right)
+    const otherType = this.getType(left)
+    if (type && otherType && !isCompatible(type, otherType)) {
+      this.errors.push({ kind: 'comparison', ...getRange(right), type, otherType })
+    }
+  }
+
+  /**
+   * Checks a literal compared with a column as a value assigned to the column, which is stricter
+   * about NULL and date strings
+   *
+   * @returns whether the operands are a column and a literal
+   */
+  private checkColumnValue(columnOperand: ParseTree, valueOperand: ParseTree): boolean {
+    const columnExpr = getSimpleExpr(columnOperand)
+    const valueExpr = getSimpleExpr(valueOperand)
+    if (!(columnExpr instanceof SimpleExprColumnRefContext) || !(valueExpr instanceof SimpleExprLiteralContext)) {
+      return false
+    }
+
+    const schemaColumn = this.columns.get(columnExpr.columnRef())
+    const literal = valueExpr.literal()
+    const type = getLiteralType(literal)
+    const constant = getConstant(literal.text)
+    const value = { dataType: type, value: constant === undefined ? literal.text : String(constant) }
+    if (schemaColumn && !columnExpr.jsonOperator() && invalidAssignment(schemaColumn, value)) {
+      this.errors.push({ kind: 'value', ...getRange(valueExpr), type, columnType: schemaColumn.tsType })
+    }
+    return true
+  }
+}
+
+function getSchemaColumns(result: ParseResult, schema?: Schema): Map<ColumnRefContext, SchemaColumn | null> {
+  const columns = new Map<ColumnRefContext, SchemaColumn | null>()
+  if (schema) {
+    for (const { columnRef, column } of resolveScopes(result, schema).columnRefs) {
+      columns.set(columnRef, column?.schemaColumn || null)
+    }
+  }
+  return columns
+}
+
+/**
+ * Checks the types of the expressions of a statement: the operands of comparisons, including literals
+ * compared with columns, and the number and types of the arguments of built-in functions. The types of columns are only known with a
+ * schema, and the types of placeholders, variables and subqueries are unknown.
+ *
+ * @param result - the result of parsing the statement
+ * @param schema - the schema to resolve columns against, if any
+ * @returns the errors, in the order of the text
+ */
+export function checkExpressions(result: ParseResult, schema?: Schema): ExpressionError[] {
+  const checker = new ExpressionTypeChecker(getSchemaColumns(result, schema))
+  checker.check(result.tree)
+  return checker.errors.sort((a, b) => a.start - b.start)
+}
+
+/**
+ * Gets a function that infers the types of the expressions of a statement (e.g. `number` for
+ * `COUNT(*)`), with the same rules as {@link checkExpressions}.
+ *
+ * @param result - the result of parsing the statement
+ * @param schema - the schema to resolve columns against, if any
+ * @returns a function that gets the type of an expression, or null if it is unknown
+ */
+export function getExpressionTyper(result: ParseResult, schema?: Schema): (node: ParseTree) => ExpressionType | null {
+  const checker = new ExpressionTypeChecker(getSchemaColumns(result, schema))
+  return (node): ExpressionType | null => checker.getType(node)
+}
@@ -0,0 +1,197 @@
+import ts from 'typescript'
+
+/** Represents the options passed to the query extractor */
+export interface QueryExtractorOptions {
+  /** The tags of template literals that contain SQL (e.g. `sql` matches sql`SELECT 1`). Defaults to `sql` and `SQL` */
+  readonly tags?: string[]
+  /**
+   * The functions whose first argument is SQL. A pattern matches the full callee (e.g. `connection.query`)
+   * or its last name (e.g. `query` matches `db.query`). Defaults to `query` and `execute`
+   */
+  readonly functions?: string[]
+}
+
+/** Represents a query found in a TypeScript or JavaScript source file */
+export interface ExtractedQuery {
+  /** The SQL text. Template placeholders (`${...}`) are replaced with `?` parameters */
+  readonly text: string
+  /** The name of the variable a tagged template is assigned to (e.g. `getUser` for `const getUser = sql`...``), if any */
+  readonly name: string | null
+  /** The starting position of the literal that contains the query in the source file */
+  readonly start: number
+  /** The stopping position of the literal that contains the query in the source file */
+  readonly stop: number
+  /** The position in the source file of every character of the text */
+  readonly offsets: number[]
+}
+
+const defaultTags = ['sql', 'SQL']
+const defaultFunctions = ['query', 'execute']
+/** The extensions of the TypeScript and JavaScript files queries are extracted from */
+export const sourceFileExtensions = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs']
+
+/** Checks whether a file is a TypeScript or JavaScript file, whose queries are embedded in its code */
+export function isSourceFile(fileName: string): boolean {
+  return sourceFileExtensions.some(extension => fileName.toLowerCase().endsWith(extension))
+}
+
+function getScriptKind(fileName: string): ts.ScriptKind {
+  const extension = fileName.slice(fileName.lastIndexOf('.')).toLowerCase()
+  switch (extension) {
+    case '.tsx':
+      return ts.ScriptKind.TSX
+    case '.jsx':
+      return ts.ScriptKind.JSX
+    case '.js':
+    case '.mjs':
+    case '.cjs':
+      return ts.ScriptKind.JS
+  }
+  return ts.ScriptKind.TS
+}
+
+function matchesPattern(expression: ts.Expression, patterns: string[]): boolean {
+  const lastName = ts.isPropertyAccessExpression(expression) ? expression.name.text : expression.getText()
+  return patterns.includes(expression.getText()) || patterns.includes(lastName)
+}
+
+/** Reads a single escape sequence, returning the character and the length of the sequence */
+function readEscape(raw: string, index: number): [string, number] {
+  const next = raw[index + 1]
+  switch (next) {
+    case 'n':
+      return ['\n', 2]
+    case 't':
+      return ['\t', 2]
+    case 'r':
+      return ['\r', 2]
+    case 'b':
+      return ['\b', 2]
+    case 'f':
+      return ['\f', 2]
+    case 'v':
+      return ['\v', 2]
+    case '0':
+      return ['\0', 2]
+    case 'x':
+      return [String.fromCharCode(parseInt(raw.substr(index + 2, 2), 16)), 4]
+    case 'u': {
+      if (raw[index + 2] === '{') {
+        const end = raw.indexOf('}', index)
+        return [String.fromCodePoint(parseInt(raw.slice(index + 3, end), 16)), end - index + 1]
+      }
+      return [String.fromCharCode(parseInt(raw.substr(index + 2, 4), 16)), 6]
+    }
+    // line continuations are not part of the string
+    case '\r':
+      return ['', raw[index + 2] === '\n' ? 3 : 2]
+    case '\n':
+      return ['', 2]
+  }
+  return [next, 2]
+}
+
+class QueryBuilder {
+  private text = ''
+  private readonly offsets: number[] = []
+
+  /** Adds the contents of a literal, given its raw source text and where that starts in the file */
+  public addLiteral(raw: string, rawStart: number): void {
+    for (let i = 0; i < raw.length; ) {
+      const [char, length] = raw[i] === '\\' ? readEscape(raw, i) : [raw[i], 1]
+      for (const c of char) {
+        this.text += c
+        this.offsets.push(rawStart + i)
+      }
+      i += length
+    }
+  }
+
+  /** Adds a parameter in place of the template placeholder at the given position */
+  public addPlaceholder(start: number): void {
+    this.text += '?'
+    this.offsets.push(start)
+  }
+
+  public build(node: ts.Node, sourceFile: ts.SourceFile): ExtractedQuery {
+    return { text: this.text, name: null, start: node.getStart(sourceFile), stop: node.end, offsets: this.offsets }
+  }
+}
+
+function extractQuery(node: ts.Node, sourceFile: ts.SourceFile): ExtractedQuery | null {
+  const source = sourceFile.text
+  const builder = new QueryBuilder()
+
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    const start = node.getStart(sourceFile) + 1
+    builder.addLiteral(source.slice(start, node.end - 1), start)
+    return builder.build(node, sourceFile)
+  }
+
+  if (ts.isTemplateExpression(node)) {
+    const headStart = node.head.getStart(sourceFile) + 1
+    builder.addLiteral(source.slice(headStart, node.head.end - 2), headStart)
+    for (const span of node.templateSpans) {
+      builder.addPlaceholder(span.expression.getStart(sourceFile) - 2)
+      const literalStart = span.literal.getStart(sourceFile) + 1
+      const literalEnd = ts.isTemplateTail(span.literal) ? span.literal.end - 1 : span.literal.end - 2
+      builder.addLiteral(source.slice(literalStart, literalEnd), literalStart)
+    }
+    return builder.build(node, sourceFile)
+  }
+
+  return null
+}
+
+/**
+ * Extracts the SQL queries in tagged template literals and function calls of a TypeScript or
+ * JavaScript source file.
+ *
+ * @param fileName - the name of the file, used to detect the language
+ * @param sourceText - the contents of the file
+ * @param options - the tags and functions that contain SQL
+ */
+export function extractQueries(
+  fileName: string,
+  sourceText: string,
+  options: QueryExtractorOptions = {}
+): ExtractedQuery[] {
+  const tags = options.tags || defaultTags
+  const functions = options.functions || defaultFunctions
+  const sourceFile = ts.createSourceFile(fileName, sourceText, ts.ScriptTarget.Latest, true, getScriptKind(fileName))
+  const queries: ExtractedQuery[] = []
+
+  const visit = (node: ts.Node): void => {
+    let query: ExtractedQuery | null = null
+
+    if (ts.isTaggedTemplateExpression(node) && matchesPattern(node.tag, tags)) {
+      query = extractQuery(node.template, sourceFile)
+      const { parent } = node
+      if (query && ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name)) {
+        query = { ...query, name: parent.name.text }
+      }
+    } else if (ts.isCallExpression(node) && node.arguments.length && matchesPattern(node.expression, functions)) {
+      query = extractQuery(node.arguments[0], sourceFile)
+    }
+
+    if (query) {
+      queries.push(query)
+    }
+
+    ts.forEachChild(node, visit)
+  }
+
+  visit(sourceFile)
+  return queries
+}
+
+/**
+ * Maps a position in an extracted query to the position in the source file.
+ * Positions past the end of the query map to the end of the literal.
+ */
+export function getSourceOffset(query: ExtractedQuery, offset: number): number {
+  if (offset < 0) {
+    return query.offsets.length ? query.offsets[0] : query.start
+  }
+  return offset < query.offsets.length ? query.offsets[offset] : query.stop - 1
+}
@@ -0,0 +1,97 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+const globCharacters = /[*?[{]/
+
+// directories that never contain files worth analyzing
+const ignoredDirectories = ['node_modules', '.git']
+
+async function walk(directory: string): Promise<string[]> {
+  const files: string[] = []
+
+  const entries = await fs.readdir(directory, { withFileTypes: true })
+  for (const entry of entries) {
+    const entryPath = path.join(directory, entry.name)
+    if (entry.isDirectory() && !ignoredDirectories.includes(entry.name)) {
+      files.push(...(await walk(entryPath)))
+    } else if (entry.isFile()) {
+      files.push(entryPath)
+    }
+  }
+
+  return files
+}
+
+/** Converts a glob pattern (supporting `**`, `*`, `?`, `[...]` and `{a,b}`) to a regular expression */
+function globToRegExp(pattern: string): RegExp {
+  let source = ''
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === '*' && pattern[i + 1] === '*') {
+      const followedBySlash = pattern[i + 2] === '/'
+      source += followedBySlash ? '(?:.*/)?' : '.*'
+      i += followedBySlash ? 2 : 1
+    } else if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i)
+      source += end === -1 ? '\\[' : pattern.slice(i, end + 1)
+      i = end === -1 ? i : end
+    } else if (char === '{') {
+      const end = pattern.indexOf('}', i)
+      const alternatives = end === -1 ? null : pattern.slice(i + 1, end).split(',')
+      source += alternatives ? `(?:${alternatives.map(a => a.replace(/[.+^$()|\\]/g, '\\$&')).join('|')})` : '\\{'
+      i = end === -1 ? i : end
+    } else {
+      source += char.replace(/[.+^$()|\\]/g, '\\$&')
+    }
+  }
+
+  return new RegExp(`^${source}$`)
+}
+
+/**
+ * Finds the files given by a path or glob pattern. Directories are searched for files with one of
+ * the given extensions.
+ *
+ * @param pattern - a file, directory or glob pattern (e.g. `queries/**\/*.sql`)
+ * @param extensions - the extensions of files to find in directories
+ * @returns the paths of the files found, sorted
+ */
+export async function findFiles(pattern: string, extensions = ['.sql']): Promise<string[]> {
+  if (!globCharacters.test(pattern)) {
+    const stats = await fs.stat(pattern)
+    if (stats.isDirectory()) {
+      const files = await walk(pattern)
+      return files.filter(file => extensions.some(extension => file.toLowerCase().endsWith(extension))).sort()
+    }
+    return [pattern]
+  }
+
+  // search from the deepest directory that does not contain glob characters
+  const normalized = pattern.split(path.sep).join('/')
+  const segments = normalized.split('/')
+  const firstGlobSegment = segments.findIndex(segment => globCharacters.test(segment))
+  const base = segments.slice(0, firstGlobSegment).join('/') || '.'
+  const regExp = globToRegExp(segments.slice(firstGlobSegment).join('/'))
+
+  let files: string[]
+  try {
+    files = await walk(base)
+  } catch (error) {
+    return []
+  }
+
+  return files
+    .filter(file => {
+      const relative = path
+        .relative(base, file)
+        .split(path.sep)
+        .join('/')
+      return regExp.test(relative)
+    })
+    .sort()
+}
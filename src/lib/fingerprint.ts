@@ -0,0 +1,138 @@
+import { createHash } from 'crypto'
+import MySQLParser from 'ts-mysql-parser'
+import { skipQuotedOrComment } from './placeholders'
+import { functionSignatures } from './functions'
+
+/** Represents the shape of a statement, shared by every statement that only differs in its values */
+export interface QueryFingerprint {
+  /**
+   * The statement with its values replaced by `?`, its IN lists and the rows of its VALUES collapsed
+   * to one, its comments removed, its reserved keywords upper cased and its spaces normalized,
+   * e.g. `SELECT * FROM users WHERE id IN (?)`
+   */
+  readonly fingerprint: string
+  /** The SHA-256 digest of the fingerprint, in hex */
+  readonly digest: string
+}
+
+/** Gets the stop of the parenthesized list that starts at the given token, or -1 if it doesn't close */
+function findClosingParen(tokens: string[], open: number): number {
+  let depth = 0
+  for (let i = open; i < tokens.length; i++) {
+    if (tokens[i] === '(') {
+      depth++
+    } else if (tokens[i] === ')' && --depth === 0) {
+      return i
+    }
+  }
+  return -1
+}
+
+/** Checks whether the tokens of a list between parentheses are only values, e.g. `?, ?, ?` */
+function isValueList(tokens: string[]): boolean {
+  return tokens.every((token, i) => (i % 2 === 0 ? token === '?' : token === ','))
+}
+
+function tokenize(text: string): string[] {
+  const tokens: string[] = []
+  let i = 0
+  while (i < text.length) {
+    if (/\s/.test(text[i])) {
+      i++
+      continue
+    }
+
+    const next = skipQuotedOrComment(text, i)
+    if (next !== i) {
+      // strings are values, quoted identifiers are names, and comments are dropped
+      if (text[i] === "'" || text[i] === '"') {
+        tokens.push('?')
+      } else if (text[i] === '`') {
+        tokens.push(text.slice(i, next))
+      }
+      i = next
+      continue
+    }
+
+    const match = /^(0x[0-9a-f]+|x'[0-9a-f]*'|b'[01]*'|\d+(\.\d*)?(e[+-]?\d+)?|\.\d+(e[+-]?\d+)?)(?![\w$])/i.exec(
+      text.slice(i)
+    )
+    if (match) {
+      tokens.push('?')
+      i += match[0].length
+      continue
+    }
+
+    const word = /^(@@?|:)?[\w$]+/.exec(text.slice(i))
+    const operator = /^(<=>|->>|->|<=|>=|<>|!=|:=|\|\||&&|<<|>>)/.exec(text.slice(i))
+    const token = word ? word[0] : operator ? operator[0] : text[i]
+    // named placeholders are values too
+    tokens.push(word && word[1] === ':' ? '?' : token)
+    i += token.length
+  }
+  return tokens
+}
+
+/**
+ * Fingerprints a statement, so that the statements that only differ in their values (e.g. the queries
+ * of a log) can be grouped.
+ *
+ * @param text - the statement
+ * @param parser - the parser that tells reserved keywords apart from names
+ */
+export function fingerprintQuery(text: string, parser = new MySQLParser()): QueryFingerprint {
+  let tokens = tokenize(text.trim().replace(/;+$/, ''))
+
+  // signs are part of the numbers they come before, e.g. in `id = -1`
+  tokens = tokens.filter(
+    (token, i) =>
+      !(
+        (token === '-' || token === '+') &&
+        tokens[i + 1] === '?' &&
+        (i === 0 || /^[^\w$`)?]/.test(tokens[i - 1]) || parser.isReservedKeyword(tokens[i - 1]))
+      )
+  )
+
+  const collapsed: string[] = []
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]
+    const keyword = token.toUpperCase()
+    collapsed.push(parser.isReservedKeyword(token) ? keyword : token)
+
+    if ((keyword === 'IN' || keyword === 'VALUES' || keyword === 'VALUE') && tokens[i + 1] === '(') {
+      const close = findClosingParen(tokens, i + 1)
+      if (close === -1 || !isValueList(tokens.slice(i + 2, close))) {
+        continue
+      }
+      collapsed.push('(', '?', ')')
+      i = close
+      // the rows of VALUES after the first one are dropped
+      while (keyword !== 'IN' && tokens[i + 1] === ',' && tokens[i + 2] === '(') {
+        const nextClose = findClosingParen(tokens, i + 2)
+        if (nextClose === -1 || !isValueList(tokens.slice(i + 3, nextClose))) {
+          break
+        }
+        i = nextClose
+      }
+    }
+  }
+
+  let fingerprint = ''
+  for (const [i, token] of collapsed.entries()) {
+    const previous = collapsed[i - 1]
+    const glued =
+      i === 0 ||
+      [',', ')', '.'].includes(token) ||
+      previous === '(' ||
+      previous === '.' ||
+      (token === '(' && previous.toUpperCase() in functionSignatures)
+    fingerprint += (glued ? '' : ' ') + token
+  }
+
+  return {
+    fingerprint,
+    digest: createHash('sha256')
+      .update(fingerprint)
+      .digest('hex')
+  }
+}
@@ -0,0 +1,78 @@
+import { MySQLAnalyzerDiagnostic, MySQLAnalyzerFix, MySQLAnalyzerTextEdit } from '../diagnostic'
+import { formatColumnList } from './index-advisor'
+import { splitTableName } from './databases'
+
+/**
+ * Creates a fix that replaces an identifier, keeping its quotes.
+ *
+ * @param text - the text that contains the identifier
+ * @param start - the starting position of the identifier
+ * @param stop - the stopping position of the identifier (inclusive, like reference positions)
+ * @param replacement - the unquoted identifier to replace it with
+ */
+export function getIdentifierFix(text: string, start: number, stop: number, replacement: string): MySQLAnalyzerFix {
+  const quote = text[start] === '`' || text[start] === '"' ? text[start] : ''
+  return {
+    message: `Change to '${replacement}'.`,
+    edits: [{ start, stop: stop + 1, text: `${quote}${replacement}${quote}` }]
+  }
+}
+
+/**
+ * Applies the first fix of every diagnostic that edits the source text. Fixes that overlap a fix
+ * applied before them are skipped, so the result may still contain problems.
+ *
+ * @param text - the source text that was analyzed
+ * @param diagnostics - the diagnostics returned by the analyzer for the text
+ * @returns the fixed text
+ */
+export function applyFixes(text: string, diagnostics: MySQLAnalyzerDiagnostic[]): string {
+  const edits: MySQLAnalyzerTextEdit[] = []
+
+  for (const diagnostic of diagnostics) {
+    const fix = diagnostic.fixes?.find(f => f.edits.length > 0)
+    if (!fix) {
+      continue
+    }
+
+    const overlaps = fix.edits.some(edit => edits.some(e => edit.start < e.stop && e.start < edit.stop))
+    if (!overlaps) {
+      edits.push(...fix.edits)
+    }
+  }
+
+  // apply from the end so earlier positions stay valid
+  edits.sort((a, b) => b.start - a.start)
+
+  let fixed = text
+  for (const edit of edits) {
+    fixed = fixed.slice(0, edit.start) + edit.text + fixed.slice(edit.stop)
+  }
+
+  return fixed
+}
+
+/** Quotes an identifier with backticks, so that reserved words and any character can be used */
+function quoteIdentifier(name: string): string {
+  return `\`${name.replace(/`/g, '``')}\``
+}
+
+/**
+ * Creates a fix that adds an index to a table. The index is named after its columns.
+ *
+ * @param table - the name of the table, qualified with its database if it is not the current one
+ * @param columns - the columns of the index, in index order
+ */
+export function getIndexFix(table: string, columns: string[]): MySQLAnalyzerFix {
+  const tableName = splitTableName(table)
+  const quotedTable = [tableName.database, tableName.name]
+    .filter((part): part is string => part !== null)
+    .map(quoteIdentifier)
+    .join('.')
+  const quotedColumns = columns.map(quoteIdentifier).join(', ')
+  return {
+    message: `Create an index for ${formatColumnList(columns)}.`,
+    edits: [],
+    statement: `CREATE INDEX ${quoteIdentifier(columns.join('_'))} ON ${quotedTable} (${quotedColumns});`
+  }
+}
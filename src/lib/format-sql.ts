@@ -0,0 +1,253 @@
+import MySQLParser, {
+  ParseResult,
+  IdentifierContext,
+  LabelIdentifierContext,
+  LValueIdentifierContext,
+  RoleIdentifierContext
+} from 'ts-mysql-parser'
+import { skipQuotedOrComment, findPlaceholders, replaceNamedPlaceholders } from './placeholders'
+import { functionSignatures } from './functions'
+import { findDescendants } from './parse-tree'
+
+interface Token {
+  readonly kind: 'word' | 'quoted' | 'comment' | 'symbol'
+  readonly text: string
+  /** The position of the token in the text */
+  readonly start: number
+  /** Whether a line break came before the token, which is kept before comments */
+  readonly afterLineBreak: boolean
+}
+
+// these keywords start a new line when they are not in parentheses, as does ON of ON DUPLICATE KEY UPDATE
+const clauseKeywords = [
+  'SELECT',
+  'FROM',
+  'WHERE',
+  'GROUP',
+  'HAVING',
+  'WINDOW',
+  'ORDER',
+  'LIMIT',
+  'UNION',
+  'SET',
+  'VALUES',
+  'JOIN',
+  'STRAIGHT_JOIN',
+  'INNER',
+  'CROSS',
+  'NATURAL',
+  'LEFT',
+  'RIGHT'
+]
+const joinModifiers = ['INNER', 'CROSS', 'NATURAL', 'LEFT', 'RIGHT', 'OUTER']
+const operators = /^(<=>|->>|->|<=|>=|<>|!=|:=|\|\||&&|<<|>>)/
+// e.g. `b'101'`, `X'0A'`, `N'abc'` and `_utf8mb4'a'`, which mean something else with a space before the string
+const prefixedString = /^(_[\w$]+|[bnx])'/i
+const numberPattern = /^(\d+(\.\d*)?(e[+-]?\d+)?|\.\d+(e[+-]?\d+)?)(?![\w$])/i
+// the JSON operators, e.g. `doc->>'$.name'`
+const jsonOperators = ['->', '->>']
+// the contexts that non-reserved keywords are names in (e.g. a column named `name`)
+const identifierContexts = [IdentifierContext, LabelIdentifierContext, LValueIdentifierContext, RoleIdentifierContext]
+
+/** Represents a statement of a text, and the result of parsing it, or null if it doesn't parse */
+interface ParsedStatement {
+  readonly start: number
+  readonly result: ParseResult | null
+}
+
+function isKeyword(token: Token | undefined, keywords: string[]): boolean {
+  return !!token && token.kind === 'word' && keywords.includes(token.text.toUpperCase())
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  let afterLineBreak = false
+  let i = 0
+  while (i < text.length) {
+    if (/\s/.test(text[i])) {
+      afterLineBreak = afterLineBreak || text[i] === '\n'
+      i++
+      continue
+    }
+
+    let next = skipQuotedOrComment(text, i)
+    let kind: Token['kind']
+    const prefix = prefixedString.exec(text.slice(i))
+    // e.g. `1e-3`, or `.5` unless it follows a name
+    const number = /[\w$`)]/.test(text[i - 1] || '') ? null : numberPattern.exec(text.slice(i))
+    if (prefix) {
+      next = skipQuotedOrComment(text, i + prefix[0].length - 1)
+      kind = 'quoted'
+    } else if (next !== i) {
+      kind = /['"`]/.test(text[i]) ? 'quoted' : 'comment'
+    } else if (number) {
+      next = i + number[0].length
+      kind = 'word'
+    } else if (/[\w$]/.test(text[i]) || (/[@:]/.test(text[i]) && /[\w$@]/.test(text[i + 1] || ''))) {
+      // variables (`@a`) and named placeholders (`:a`) are words
+      const match = /^(@@?|:)?[\w$]+/.exec(text.slice(i))
+      next = i + (match ? match[0].length : 1)
+      kind = 'word'
+    } else {
+      const match = operators.exec(text.slice(i))
+      next = i + (match ? match[0].length : 1)
+      kind = 'symbol'
+    }
+
+    tokens.push({ kind, text: text.slice(i, next), start: i, afterLineBreak })
+    afterLineBreak = false
+    i = next
+  }
+  return tokens
+}
+
+/** Checks whether a token is the VALUES() function, which refers to the inserted values in ON DUPLICATE KEY UPDATE */
+function isValuesFunction(tokens: Token[], i: number): boolean {
+  const previous: Token | undefined = tokens[i - 1]
+  return isKeyword(tokens[i], ['VALUES']) && !!previous && previous.kind === 'symbol' && previous.text !== ')'
+}
+
+/** Checks whether a token starts a clause, e.g. `ORDER` of `ORDER BY` or `LEFT` of `LEFT JOIN` */
+function isClauseStart(tokens: Token[], i: number): boolean {
+  const token = tokens[i]
+  const previous = tokens[i - 1]
+  const next = tokens[i + 1]
+  if (isKeyword(token, ['ON'])) {
+    return isKeyword(next, ['DUPLICATE'])
+  }
+  if (!isKeyword(token, clauseKeywords)) {
+    return false
+  }
+
+  switch (token.text.toUpperCase()) {
+    case 'LEFT':
+    case 'RIGHT':
+      // LEFT() and RIGHT() are also functions
+      return isKeyword(next, ['JOIN', 'OUTER'])
+    case 'JOIN':
+    case 'INNER':
+    case 'CROSS':
+    case 'NATURAL':
+      return !isKeyword(previous, joinModifiers)
+    case 'FROM':
+      return !isKeyword(previous, ['DELETE'])
+    case 'SET':
+      return !isKeyword(previous, ['CHARACTER', 'CHARSET'])
+    case 'VALUES':
+      return !isValuesFunction(tokens, i)
+    default:
+      return true
+  }
+}
+
+/** Checks whether a token is a unary `-` or `+`, which is written next to its operand */
+function isSign(tokens: Token[], i: number, parser: MySQLParser): boolean {
+  const token = tokens[i]
+  const previous: Token | undefined = tokens[i - 1]
+  if (token.text !== '-' && token.text !== '+') {
+    return false
+  }
+  return (
+    !previous ||
+    (previous.kind === 'symbol' && previous.text !== ')') ||
+    (previous.kind === 'word' && parser.isReservedKeyword(previous.text))
+  )
+}
+
+/**
+ * Writes the tokens of a text of queries out formatted
+ *
+ * @param keywords - the positions of the words that are used as keywords, besides reserved keywords
+ */
+function formatTokens(tokens: Token[], parser: MySQLParser, keywords: Set<number>): string {
+  let formatted = ''
+  let depth = 0
+  let statementStart = true
+  for (const [i, token] of tokens.entries()) {
+    const previous = tokens[i - 1]
+    const isKeywordToken = token.kind === 'word' && (parser.isReservedKeyword(token.text) || keywords.has(token.start))
+
+    let separator = ' '
+    if (statementStart) {
+      separator = formatted ? '\n\n' : ''
+    } else if (token.kind === 'comment' && token.afterLineBreak) {
+      separator = '\n'
+    } else if (previous.kind === 'comment' && !previous.text.startsWith('/*')) {
+      // a line comment runs to the end of the line
+      separator = '\n'
+    } else if (depth === 0 && isClauseStart(tokens, i)) {
+      separator = '\n'
+    } else if ([',', ')', ';', '.'].includes(token.text) || previous.text === '(' || previous.text === '.') {
+      separator = ''
+    } else if (token.text === '(' && previous.kind === 'word' && previous.text.toUpperCase() in functionSignatures) {
+      separator = ''
+    } else if (token.text === '(' && isValuesFunction(tokens, i - 1)) {
+      separator = ''
+    } else if (jsonOperators.includes(token.text) || jsonOperators.includes(previous.text)) {
+      separator = ''
+    } else if (isSign(tokens, i - 1, parser)) {
+      separator = ''
+    }
+
+    formatted += separator + (isKeywordToken ? token.text.toUpperCase() : token.text)
+    statementStart = false
+
+    if (token.text === '(') {
+      depth++
+    } else if (token.text === ')') {
+      depth = Math.max(depth - 1, 0)
+    } else if (token.text === ';') {
+      depth = 0
+      statementStart = i < tokens.length - 1
+    }
+  }
+
+  return formatted ? `${formatted}\n` : ''
+}
+
+/** Parses each statement of a text */
+function parseStatements(text: string, parser: MySQLParser): ParsedStatement[] {
+  return parser.splitStatements(text).map(statement => {
+    const result = parser.parse(replaceNamedPlaceholders(statement.text, findPlaceholders(statement.text)))
+    return { start: statement.start, result: result.lexerError || result.parserError ? null : result }
+  })
+}
+
+/**
+ * Finds the non-reserved keywords of the statements that parse which are used as keywords (e.g.
+ * `DUPLICATE` of `ON DUPLICATE KEY UPDATE`) rather than as names, by their positions in the text
+ */
+function findKeywords(statements: ParsedStatement[], parser: MySQLParser): Set<number> {
+  const keywords = new Set<number>()
+  for (const { start, result } of statements) {
+    if (!result) {
+      continue
+    }
+    const names = identifierContexts.flatMap(type =>
+      findDescendants<{ start: { startIndex: number } }>(result.tree, type)
+    )
+    const nameStarts = new Set(names.map(name => name.start.startIndex))
+    for (const token of result.tokenStream.getTokens()) {
+      if (token.text && parser.isKeyword(token.text) && !nameStarts.has(token.startIndex)) {
+        keywords.add(start + token.startIndex)
+      }
+    }
+  }
+  return keywords
+}
+
+/**
+ * Formats a text of MySQL queries: keywords are upper cased, clauses start on new lines, spaces are
+ * normalized, and statements are separated by blank lines. Strings, quoted identifiers and comments
+ * are kept as they are. The text is returned unchanged if a statement that parses would no longer
+ * parse once formatted.
+ */
+export function formatSQL(text: string, parser = new MySQLParser()): string {
+  const statements = parseStatements(text, parser)
+  const formatted = formatTokens(tokenize(text), parser, findKeywords(statements, parser))
+  const formattedStatements = parseStatements(formatted, parser)
+  const broken =
+    statements.length !== formattedStatements.length ||
+    statements.some((statement, i) => statement.result && !formattedStatements[i].result)
+  return broken ? text : formatted
+}
@@ -0,0 +1,255 @@
+/**
+ * Represents the type of the value of an expression: the TypeScript type it is returned as, or
+ * `null` for NULL
+ */
+export type ExpressionType = 'string' | 'number' | 'boolean' | 'date' | 'null'
+
+/** Represents the type of a parameter of a function, where `any` accepts a value of every type */
+export type ParameterType = ExpressionType | 'any'
+
+/** Represents the signature of a MySQL built-in function */
+export interface FunctionSignature {
+  /** The types of the parameters. The last one is repeated for functions that take any number of arguments */
+  readonly parameters: ParameterType[]
+  /** The smallest number of arguments the function takes */
+  readonly minArgs: number
+  /** The largest number of arguments the function takes, or Infinity */
+  readonly maxArgs: number
+  /** Gets the type the function returns from the types of its arguments, which are null if unknown */
+  readonly returns: (argumentTypes: (ExpressionType | null)[]) => ExpressionType | null
+}
+
+/**
+ * Gets the type MySQL gives the result of expressions of several types, such as the branches of
+ * `IF` or the arguments of `COALESCE`: numbers and booleans give numbers, and other mixes give strings.
+ *
+ * @returns the type, or null if the type of any expression is unknown
+ */
+export function getCommonType(types: (ExpressionType | null)[]): ExpressionType | null {
+  if (types.some(type => type === null)) {
+    return null
+  }
+
+  const known = types.filter(type => type !== 'null')
+  if (known.length === 0) {
+    return 'null'
+  }
+  if (known.every(type => type === known[0])) {
+    return known[0]
+  }
+  return known.every(type => type === 'number' || type === 'boolean') ? 'number' : 'string'
+}
+
+function signature(
+  returns: ExpressionType | FunctionSignature['returns'],
+  parameters: ParameterType[],
+  minArgs = parameters.length,
+  maxArgs = minArgs
+): FunctionSignature {
+  return {
+    parameters,
+    minArgs,
+    maxArgs,
+    returns: typeof returns === 'string' ? (): ExpressionType => returns : returns
+  }
+}
+
+const stringFunction = signature('string', ['any'])
+const numberFunction = signature('number', ['number'])
+const datePartFunction = signature('number', ['date'])
+const currentTimeFunction = signature('date', ['number'], 0, 1)
+
+/** The signatures of MySQL built-in functions, by upper case name */
+export const functionSignatures: { readonly [name: string]: FunctionSignature } = {
+  // string functions
+  ASCII: signature('number', ['any']),
+  BIT_LENGTH: signature('number', ['any']),
+  CHAR: signature('string', ['any'], 1, Infinity),
+  CHAR_LENGTH: signature('number', ['any']),
+  CHARACTER_LENGTH: signature('number', ['any']),
+  CONCAT: signature('string', ['any'], 1, Infinity),
+  CONCAT_WS: signature('string', ['any'], 2, Infinity),
+  ELT: signature('string', ['number', 'any'], 2, Infinity),
+  FIELD: signature('number', ['any'], 2, Infinity),
+  FIND_IN_SET: signature('number', ['any', 'any']),
+  FORMAT: signature('string', ['number', 'number', 'any'], 2, 3),
+  FROM_BASE64: stringFunction,
+  HEX: stringFunction,
+  INSERT: signature('string', ['any', 'number', 'number', 'any']),
+  INSTR: signature('number', ['any', 'any']),
+  LCASE: stringFunction,
+  LEFT: signature('string', ['any', 'number']),
+  LENGTH: signature('number', ['any']),
+  LOCATE: signature('number', ['any', 'any', 'number'], 2, 3),
+  LOWER: stringFunction,
+  LPAD: signature('string', ['any', 'number', 'any']),
+  LTRIM: stringFunction,
+  MD5: stringFunction,
+  OCTET_LENGTH: signature('number', ['any']),
+  ORD: signature('number', ['any']),
+  QUOTE: stringFunction,
+  REPEAT: signature('string', ['any', 'number']),
+  REPLACE: signature('string', ['any', 'any', 'any']),
+  REVERSE: stringFunction,
+  RIGHT: signature('string', ['any', 'number']),
+  RPAD: signature('string', ['any', 'number', 'any']),
+  RTRIM: stringFunction,
+  SHA: stringFunction,
+  SHA1: stringFunction,
+  SHA2: signature('string', ['any', 'number']),
+  SOUNDEX: stringFunction,
+  SPACE: signature('string', ['number']),
+  STRCMP: signature('number', ['any', 'any']),
+  SUBSTR: signature('string', ['any', 'number', 'number'], 2, 3),
+  SUBSTRING: signature('string', ['any', 'number', 'number'], 2, 3),
+  SUBSTRING_INDEX: signature('string', ['any', 'any', 'number']),
+  TO_BASE64: stringFunction,
+  TRIM: signature('string', ['any'], 1, 2),
+  UCASE: stringFunction,
+  UNHEX: stringFunction,
+  UPPER: stringFunction,
+  UUID: signature('string', []),
+
+  // numeric functions
+  ABS: numberFunction,
+  ACOS: numberFunction,
+  ASIN: numberFunction,
+  ATAN: signature('number', ['number'], 1, 2),
+  ATAN2: signature('number', ['number', 'number']),
+  CEIL: numberFunction,
+  CEILING: numberFunction,
+  CONV: signature('string', ['any', 'number', 'number']),
+  COS: numberFunction,
+  COT: numberFunction,
+  CRC32: signature('number', ['any']),
+  DEGREES: numberFunction,
+  EXP: numberFunction,
+  FLOOR: numberFunction,
+  GREATEST: signature(getCommonType, ['any'], 2, Infinity),
+  LEAST: signature(getCommonType, ['any'], 2, Infinity),
+  LN: numberFunction,
+  LOG: signature('number', ['number'], 1, 2),
+  LOG10: numberFunction,
+  LOG2: numberFunction,
+  MOD: signature('number', ['number', 'number']),
+  PI: signature('number', []),
+  POW: signature('number', ['number', 'number']),
+  POWER: signature('number', ['number', 'number']),
+  RADIANS: numberFunction,
+  RAND: signature('number', ['number'], 0, 1),
+  ROUND: signature('number', ['number'], 1, 2),
+  SIGN: numberFunction,
+  SIN: numberFunction,
+  SQRT: numberFunction,
+  TAN: numberFunction,
+  TRUNCATE: signature('number', ['number', 'number']),
+
+  // date and time functions
+  ADDDATE: signature('date', ['date', 'number']),
+  CONVERT_TZ: signature('date', ['date', 'any', 'any']),
+  CURDATE: signature('date', []),
+  CURRENT_DATE: signature('date', []),
+  CURRENT_TIME: signature('string', ['number'], 0, 1),
+  CURRENT_TIMESTAMP: currentTimeFunction,
+  CURTIME: signature('string', ['number'], 0, 1),
+  DATE: signature('date', ['date']),
+  DATE_ADD: signature('date', ['date', 'number']),
+  DATE_FORMAT: signature('string', ['date', 'any']),
+  DATE_SUB: signature('date', ['date', 'number']),
+  DATEDIFF: signature('number', ['date', 'date']),
+  DAY: datePartFunction,
+  DAYNAME: signature('string', ['date']),
+  DAYOFMONTH: datePartFunction,
+  DAYOFWEEK: datePartFunction,
+  DAYOFYEAR: datePartFunction,
+  EXTRACT: signature('number', ['any']),
+  // with a format, FROM_UNIXTIME returns a formatted string
+  FROM_UNIXTIME: signature(types => (types.length > 1 ? 'string' : 'date'), ['number', 'any'], 1, 2),
+  FROM_DAYS: signature('date', ['number']),
+  HOUR: signature('number', ['any']),
+  LAST_DAY: signature('date', ['date']),
+  LOCALTIME: currentTimeFunction,
+  LOCALTIMESTAMP: currentTimeFunction,
+  MAKEDATE: signature('date', ['number', 'number']),
+  MICROSECOND: signature('number', ['any']),
+  MINUTE: signature('number', ['any']),
+  MONTH: datePartFunction,
+  MONTHNAME: signature('string', ['date']),
+  NOW: currentTimeFunction,
+  QUARTER: datePartFunction,
+  SEC_TO_TIME: signature('string', ['number']),
+  SECOND: signature('number', ['any']),
+  STR_TO_DATE: signature('date', ['any', 'any']),
+  SUBDATE: signature('date', ['date', 'number']),
+  SYSDATE: currentTimeFunction,
+  TIME: signature('string', ['any']),
+  TIME_TO_SEC: signature('number', ['any']),
+  TIMEDIFF: signature('string', ['any', 'any']),
+  TIMESTAMP: signature('date', ['date', 'any'], 1, 2),
+  TIMESTAMPADD: signature('date', ['any', 'number', 'date']),
+  TIMESTAMPDIFF: signature('number', ['any', 'date', 'date']),
+  TO_DAYS: datePartFunction,
+  TO_SECONDS: datePartFunction,
+  UNIX_TIMESTAMP: signature('number', ['date'], 0, 1),
+  UTC_DATE: signature('date', []),
+  UTC_TIME: signature('string', ['number'], 0, 1),
+  UTC_TIMESTAMP: currentTimeFunction,
+  WEEK: signature('number', ['date', 'number'], 1, 2),
+  WEEKDAY: datePartFunction,
+  WEEKOFYEAR: datePartFunction,
+  YEAR: datePartFunction,
+  YEARWEEK: signature('number', ['date', 'number'], 1, 2),
+
+  // control flow functions
+  COALESCE: signature(getCommonType, ['any'], 1, Infinity),
+  IF: signature(types => getCommonType(types.slice(1)), ['any', 'any', 'any']),
+  IFNULL: signature(getCommonType, ['any', 'any']),
+  ISNULL: signature('number', ['any']),
+  NULLIF: signature(types => types[0], ['any', 'any']),
+
+  // information functions
+  CONNECTION_ID: signature('number', []),
+  CURRENT_USER: signature('string', []),
+  DATABASE: signature('string', []),
+  FOUND_ROWS: signature('number', []),
+  LAST_INSERT_ID: signature('number', ['number'], 0, 1),
+  ROW_COUNT: signature('number', []),
+  SCHEMA: signature('string', []),
+  USER: signature('string', []),
+  VERSION: signature('string', []),
+
+  // JSON functions, whose JSON values are returned as strings
+  JSON_ARRAY: signature('string', ['any'], 0, Infinity),
+  JSON_CONTAINS: signature('number', ['any', 'any', 'any'], 2, 3),
+  JSON_EXTRACT: signature('string', ['any'], 2, Infinity),
+  JSON_INSERT: signature('string', ['any'], 3, Infinity),
+  JSON_KEYS: signature('string', ['any', 'any'], 1, 2),
+  JSON_LENGTH: signature('number', ['any', 'any'], 1, 2),
+  JSON_OBJECT: signature('string', ['any'], 0, Infinity),
+  JSON_REMOVE: signature('string', ['any'], 2, Infinity),
+  JSON_REPLACE: signature('string', ['any'], 3, Infinity),
+  JSON_SET: signature('string', ['any'], 3, Infinity),
+  JSON_TYPE: stringFunction,
+  JSON_UNQUOTE: stringFunction,
+  JSON_VALID: signature('number', ['any']),
+
+  // aggregate functions
+  AVG: numberFunction,
+  BIT_AND: signature('number', ['any']),
+  BIT_OR: signature('number', ['any']),
+  BIT_XOR: signature('number', ['any']),
+  COUNT: signature('number', ['any'], 0, Infinity),
+  GROUP_CONCAT: signature('string', ['any'], 1, Infinity),
+  JSON_ARRAYAGG: stringFunction,
+  JSON_OBJECTAGG: signature('string', ['any', 'any']),
+  MAX: signature(getCommonType, ['any']),
+  MIN: signature(getCommonType, ['any']),
+  STD: numberFunction,
+  STDDEV: numberFunction,
+  STDDEV_POP: numberFunction,
+  STDDEV_SAMP: numberFunction,
+  SUM: numberFunction,
+  VAR_POP: numberFunction,
+  VAR_SAMP: numberFunction,
+  VARIANCE: numberFunction
+}
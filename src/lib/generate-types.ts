@@ -0,0 +1,140 @@
+import path from 'path'
+import MySQLParser, { LimitOptionContext } from 'ts-mysql-parser'
+import { Schema, TsDataType } from 'ts-mysql-schema'
+import { MySQLAnalyzerDiagnostic } from '../diagnostic'
+import { findDescendants } from './parse-tree'
+import { findPlaceholders, replaceNamedPlaceholders } from './placeholders'
+import { resolveReferences } from './resolve-references'
+import { resolvePlaceholders } from './resolve-placeholders'
+import { getResultColumns, isSelectStatement } from './result-columns'
+import { extractQueries, QueryExtractorOptions } from './extract-queries'
+
+/** Represents a query to generate types for */
+export interface NamedQuery {
+  /** The name of the query, used to name its types (e.g. `getUser` is typed by `GetUserParams` and `GetUserRow`) */
+  readonly name: string
+  /** The text of the query */
+  readonly text: string
+}
+
+/** Represents the diagnostics of a query that is invalid */
+export interface NamedQueryDiagnostics {
+  readonly query: NamedQuery
+  /** The diagnostics, with positions in the text of the query */
+  readonly diagnostics: MySQLAnalyzerDiagnostic[]
+}
+
+/** Represents the result of generating types for queries */
+export interface GeneratedTypes {
+  /** The TypeScript module that declares the types, or null if any query is invalid */
+  readonly output: string | null
+  /** The diagnostics of the invalid queries */
+  readonly diagnostics: NamedQueryDiagnostics[]
+}
+
+interface TypedValue {
+  readonly name: string
+  readonly tsType: string | null
+  readonly nullable: boolean
+}
+
+const header = '// This file was generated by ts-mysql-analyzer. Do not edit it by hand.\n'
+
+function getTypeName(name: string): string {
+  const typeName = name.replace(/(?:^|[^A-Za-z0-9]+)([A-Za-z0-9])/g, (_, char: string) => char.toUpperCase())
+  return /^[0-9]/.test(typeName) ? `Query${typeName}` : typeName
+}
+
+function getPropertyName(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : `'${name.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+}
+
+function getType({ tsType, nullable }: Omit<TypedValue, 'name'>): string {
+  if (tsType === null) {
+    return 'unknown'
+  }
+  const type = tsType === TsDataType.DATE ? 'Date' : tsType
+  return nullable ? `${type} | null` : type
+}
+
+function renderInterface(name: string, values: TypedValue[]): string {
+  // later columns with the same name overwrite earlier ones in a row, as they do in the MySQL drivers
+  const properties = new Map(values.map(value => [value.name, `  ${getPropertyName(value.name)}: ${getType(value)}\n`]))
+  return `export interface ${name} {\n${[...properties.values()].join('')}}\n`
+}
+
+/**
+ * Generates the types of a query: its parameters (a tuple for `?` placeholders, or an interface for
+ * named placeholders, where `?` placeholders are named by their position among them) and, for SELECT
+ * statements, the rows it returns.
+ *
+ * @param query - the query, which must be valid
+ * @param parser - the parser to parse the query with
+ * @param schema - the schema to resolve tables and columns against
+ */
+export function generateQueryTypes(query: NamedQuery, parser: MySQLParser, schema: Schema): string {
+  const typeName = getTypeName(query.name)
+  const placeholders = findPlaceholders(query.text)
+  const text = replaceNamedPlaceholders(query.text, placeholders)
+  const result = parser.parse(text)
+
+  const resolvedPlaceholders = resolvePlaceholders(result, resolveReferences(result, schema))
+  // the row count and offset of LIMIT are numbers
+  const limitPlaceholders = findDescendants(result.tree, LimitOptionContext)
+    .filter(option => option.PARAM_MARKER())
+    .map(option => option.start.startIndex)
+  const positionalPlaceholders = placeholders.filter(p => p.name === null)
+  const params = placeholders.map(({ name, start }) => {
+    const schemaColumn = resolvedPlaceholders.find(p => p.start === start)?.schemaColumn
+    const tsType = schemaColumn ? schemaColumn.tsType : limitPlaceholders.includes(start) ? TsDataType.NUMBER : null
+    return {
+      name: name === null ? String(positionalPlaceholders.findIndex(p => p.start === start)) : name,
+      tsType,
+      nullable: schemaColumn ? schemaColumn.optional : false
+    }
+  })
+
+  const declarations: string[] = []
+  if (placeholders.some(p => p.name !== null)) {
+    // a named placeholder used more than once is typed by its first use that resolves to a column
+    const named = new Map<string, TypedValue>()
+    for (const param of params) {
+      const existing = named.get(param.name)
+      if (!existing || (existing.tsType === null && param.tsType !== null)) {
+        named.set(param.name, param)
+      }
+    }
+    declarations.push(renderInterface(`${typeName}Params`, [...named.values()]))
+  } else {
+    declarations.push(`export type ${typeName}Params = [${params.map(getType).join(', ')}]\n`)
+  }
+
+  if (isSelectStatement(result)) {
+    declarations.push(renderInterface(`${typeName}Row`, getResultColumns(text, result, schema)))
+  }
+
+  return declarations.join('\n')
+}
+
+/** Renders the module that declares the types of every query */
+export function renderTypesModule(declarations: string[]): string {
+  return [header, ...declarations].join('\n')
+}
+
+/**
+ * Gets the named queries of a file: a .sql file is a single query named after the file, and the
+ * queries of a TypeScript or JavaScript file are the tagged templates assigned to variables.
+ *
+ * @param fileName - the name of the file
+ * @param text - the contents of the file
+ * @param options - the tags and functions that contain SQL
+ */
+export function getNamedQueries(fileName: string, text: string, options: QueryExtractorOptions = {}): NamedQuery[] {
+  if (fileName.toLowerCase().endsWith('.sql')) {
+    return [{ name: path.basename(fileName, path.extname(fileName)), text }]
+  }
+
+  return extractQueries(fileName, text, options)
+    .filter(query => query.name !== null)
+    .map(query => ({ name: query.name as string, text: query.text }))
+}
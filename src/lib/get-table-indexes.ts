@@ -0,0 +1,23 @@
+import { SchemaTable, SchemaIndexKey } from 'ts-mysql-schema'
+import { SchemaIndex, IndexedSchemaTable } from './schema-builder'
+
+/**
+ * Gets the indexes of a table. Schemas built from data definition statements know every index,
+ * while schemas read from a live database only know the key of each column, so every indexed
+ * column is treated as an index of its own, apart from the columns of the primary key.
+ */
+export function getTableIndexes(schemaTable: SchemaTable): SchemaIndex[] {
+  const { indexes } = schemaTable as Partial<IndexedSchemaTable>
+  if (indexes) {
+    return indexes
+  }
+
+  const primaryColumns = schemaTable.columns.filter(c => c.index === 'primary').map(c => c.name)
+  const columnIndexes = schemaTable.columns
+    .filter(c => c.index === 'unique' || c.index === 'nonunique')
+    .map(c => ({ name: c.name, key: c.index as SchemaIndexKey, columns: [c.name] }))
+
+  return primaryColumns.length > 0
+    ? [{ name: 'PRIMARY', key: 'primary', columns: primaryColumns }, ...columnIndexes]
+    : columnIndexes
+}
@@ -0,0 +1,96 @@
+import { ParseResult } from 'ts-mysql-parser'
+import { Schema, SchemaColumn } from 'ts-mysql-schema'
+import { resolveScopes, ScopeTable } from './scopes'
+import { getTableIndexes } from './get-table-indexes'
+import { formatColumnType } from './migrations'
+
+/** Represents a column of the schema, as shown when hovering over it */
+export interface HoverColumn {
+  readonly name: string
+  /** The SQL type of the column, e.g. `VARCHAR(255)`, or `unknown` for an expression */
+  readonly sqlType: string
+  /** Whether the column can be NULL */
+  readonly nullable: boolean
+  /** The default value of the column, or null if it has none */
+  readonly default: string | null
+  /** The names of the indexes the column is part of, e.g. `PRIMARY` */
+  readonly indexes: string[]
+}
+
+/** Represents what is at a position of a text: a column, or a table and its columns */
+export type Hover =
+  | {
+      readonly kind: 'column'
+      /** The table the column belongs to, qualified with its database if it is not the current one */
+      readonly table: string
+      readonly column: HoverColumn
+      /** The starting position of the hovered name in the text */
+      readonly start: number
+      /** The stopping position of the hovered name in the text */
+      readonly stop: number
+    }
+  | {
+      readonly kind: 'table'
+      /** The name of the table, qualified with its database if it is not the current one */
+      readonly table: string
+      /** The columns of the table, or null if they are unknown */
+      readonly columns: HoverColumn[] | null
+      readonly start: number
+      readonly stop: number
+    }
+
+function getHoverColumn(table: ScopeTable, column: SchemaColumn): HoverColumn {
+  const indexes = table.schemaTable ? getTableIndexes(table.schemaTable) : []
+  return {
+    name: column.name,
+    sqlType: formatColumnType(column),
+    nullable: column.optional,
+    default: column.default,
+    indexes: indexes.filter(index => index.columns.includes(column.name)).map(index => index.name)
+  }
+}
+
+function getTableHover(table: ScopeTable, start: number, stop: number): Hover {
+  // the columns of common table expressions and derived tables that are expressions have no type
+  const columns =
+    table.columns &&
+    table.columns.map(column =>
+      column.schemaColumn
+        ? { ...getHoverColumn(table, column.schemaColumn), name: column.name }
+        : { name: column.name, sqlType: 'unknown', nullable: true, default: null, indexes: [] }
+    )
+  return { kind: 'table', table: table.table || table.name, columns, start, stop }
+}
+
+/**
+ * Gets what is at a position of a statement: the column of a column reference, or the table of a
+ * table reference or of the qualifier of a column reference.
+ *
+ * @returns the hover, or null if there is nothing known at the position
+ */
+export function getHover(result: ParseResult, schema: Schema, offset: number): Hover | null {
+  const { tables, columnRefs } = resolveScopes(result, schema)
+
+  for (const ref of columnRefs) {
+    if (offset >= ref.start && offset <= ref.stop) {
+      const schemaColumn = ref.column?.schemaColumn
+      if (!ref.table || !schemaColumn) {
+        return null
+      }
+      const column = { ...getHoverColumn(ref.table, schemaColumn), name: ref.name }
+      return { kind: 'column', table: ref.table.table || ref.table.name, column, start: ref.start, stop: ref.stop }
+    }
+    if (ref.table && offset >= ref.columnRef.start.startIndex && offset < ref.start) {
+      return getTableHover(ref.table, ref.columnRef.start.startIndex, ref.start - 2)
+    }
+  }
+
+  for (const table of tables) {
+    const { tableRef } = table
+    if (tableRef && offset >= tableRef.start.startIndex && offset <= (tableRef.stop?.stopIndex ?? -1)) {
+      return getTableHover(table, tableRef.start.startIndex, tableRef.stop?.stopIndex ?? tableRef.start.stopIndex)
+    }
+  }
+
+  return null
+}
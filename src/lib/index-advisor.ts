@@ -0,0 +1,537 @@
+import {
+  ParseResult,
+  unquote,
+  QuerySpecificationContext,
+  QueryExpressionBodyContext,
+  QueryExpressionContext,
+  UpdateStatementContext,
+  DeleteStatementContext,
+  TableReferenceListContext,
+  TableReferenceContext,
+  TableFactorContext,
+  TableReferenceListParensContext,
+  SingleTableContext,
+  TableRefContext,
+  TableAliasContext,
+  ExprContext,
+  ExprAndContext,
+  ExprIsContext,
+  PrimaryExprCompareContext,
+  PrimaryExprIsNullContext,
+  PrimaryExprPredicateContext,
+  PredicateExprInContext,
+  PredicateExprBetweenContext,
+  PredicateExprLikeContext,
+  OrderClauseContext,
+  GroupByClauseContext,
+  ColumnRefContext
+} from 'ts-mysql-parser'
+import { Schema, SchemaTable, SchemaColumn, SqlDataType, TsDataType } from 'ts-mysql-schema'
+import { getTableIndexes } from './get-table-indexes'
+import { ParseTree, findDescendants, findDescendant } from './parse-tree'
+import { splitTableName, findSchemaTable } from './databases'
+
+/** Represents a table that is read in full, because no index starts with any of the columns it is filtered by */
+export interface FullTableScan {
+  /** The name of the table in the schema */
+  readonly table: string
+  /** The columns the table is filtered by */
+  readonly columns: string[]
+  /** The starting position of the first filter in the statement */
+  readonly start: number
+  /** The stopping position of the first filter in the statement */
+  readonly stop: number
+  /** The columns of the index that would avoid the scan, in index order */
+  readonly index: string[]
+}
+
+/** Represents an ORDER BY or GROUP BY clause that no index returns the rows in the order of */
+export interface UnindexedSort {
+  /** The name of the table in the schema */
+  readonly table: string
+  /** The clause that sorts the rows */
+  readonly clause: 'ORDER BY' | 'GROUP BY'
+  /** The columns the rows are sorted by */
+  readonly columns: string[]
+  /** The starting position of the clause in the statement */
+  readonly start: number
+  /** The stopping position of the clause in the statement */
+  readonly stop: number
+  /** The columns of the index that would avoid sorting, in index order */
+  readonly index: string[]
+}
+
+/** Represents a filter on an indexed column that can't use the index (e.g. `LOWER(email) = ?`) */
+export interface NonSargablePredicate {
+  /** The name of the column */
+  readonly column: string
+  /** Why the index can't be used: the column is wrapped in an expression, the LIKE pattern starts with a wildcard, or the column is converted to a number */
+  readonly reason: 'expression' | 'wildcard' | 'conversion'
+  /** The starting position of the filtered expression in the statement */
+  readonly start: number
+  /** The stopping position of the filtered expression in the statement */
+  readonly stop: number
+}
+
+/** Represents the ways the queries of a statement could make better use of indexes */
+export interface IndexAdvice {
+  readonly fullTableScans: FullTableScan[]
+  readonly unindexedSorts: UnindexedSort[]
+  readonly nonSargablePredicates: NonSargablePredicate[]
+}
+
+/** Represents a node of the parse tree that spans a range of the statement */
+type RangeNode = ParseTree & {
+  readonly start: { readonly startIndex: number }
+  readonly stop?: { readonly stopIndex: number }
+}
+
+/** Represents a table read by a query */
+interface QueryTable {
+  /** The name the table is referred to by in the query: its alias, or its name */
+  readonly name: string
+  /** The table in the schema, or null if it does not exist */
+  readonly schemaTable: SchemaTable | null
+  /** The position of the table in the FROM clause */
+  readonly position: number
+}
+
+/** Represents a filter on a column that an index can be used for */
+interface Predicate {
+  readonly table: QueryTable
+  readonly column: SchemaColumn
+  /** Whether the column is compared by equality (e.g. `=`, `IN`) or by range (e.g. `<`, `BETWEEN`) */
+  readonly kind: 'equality' | 'range'
+  /** Whether the column is compared with columns of other tables, as in a join condition */
+  readonly join: boolean
+  readonly node: RangeNode
+}
+
+/** Represents a single query: a SELECT query specification, or an UPDATE or DELETE statement */
+interface Query {
+  readonly tables: QueryTable[]
+  readonly predicates: Predicate[]
+  readonly orderClause?: OrderClauseContext
+  readonly groupByClause?: GroupByClauseContext
+}
+
+function isSameName(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase()
+}
+
+function unique(names: string[]): string[] {
+  return names.filter((name, index) => names.findIndex(n => isSameName(n, name)) === index)
+}
+
+function getRange(node: RangeNode): { start: number; stop: number } {
+  return { start: node.start.startIndex, stop: node.stop ? node.stop.stopIndex : node.start.startIndex }
+}
+
+/** Gets the conditions that are combined with AND (e.g. `a = 1`, `b = 2` and `c = 3` in `a = 1 AND b = 2 AND c = 3`) */
+function getConjuncts(expr: ExprContext): ExprContext[] {
+  if (expr instanceof ExprAndContext) {
+    return [...getConjuncts(expr.expr(0)), ...getConjuncts(expr.expr(1))]
+  }
+  return [expr]
+}
+
+/** Gets the column reference of an operand that is nothing but a column (e.g. `id` or `users.id`) */
+function getBareColumnRef(operand: ParseTree): ColumnRefContext | null {
+  const columnRef = findDescendant(operand, ColumnRefContext)
+  return columnRef && columnRef.text === operand.text ? columnRef : null
+}
+
+function getComparisonKind(operator: string): Predicate['kind'] | null {
+  switch (operator) {
+    case '=':
+    case '<=>':
+      return 'equality'
+    case '<':
+    case '<=':
+    case '>':
+    case '>=':
+      return 'range'
+  }
+  return null
+}
+
+// columns of these types can't be indexed as a whole, only by a prefix or a functional key part
+const unindexableTypes: string[] = [
+  SqlDataType.JSON,
+  SqlDataType.GEOMETRY,
+  SqlDataType.TINYTEXT,
+  SqlDataType.TEXT,
+  SqlDataType.MEDIUMTEXT,
+  SqlDataType.LONGTEXT,
+  SqlDataType.TINYBLOB,
+  SqlDataType.BLOB,
+  SqlDataType.MEDIUMBLOB,
+  SqlDataType.LONGBLOB
+]
+
+/** Checks whether comparing a column with a value makes MySQL convert the column to a number */
+function isNumericConversion(column: SchemaColumn, value: ParseTree | null): boolean {
+  const isString = column.tsType === TsDataType.STRING && column.sqlType !== SqlDataType.ENUM
+  return isString && value !== null && /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(value.text)
+}
+
+/** Gets the ORDER BY clause of a query specification, unless the query is part of a UNION */
+function getOrderClause(query: QuerySpecificationContext): OrderClauseContext | undefined {
+  const body = query.parent
+  if (!(body instanceof QueryExpressionBodyContext) || body.UNION_SYMBOL()) {
+    return undefined
+  }
+  return body.parent instanceof QueryExpressionContext ? body.parent.orderClause() : undefined
+}
+
+/** Formats a list of columns for a message (e.g. `column 'a'`, or `columns 'a', 'b' and 'c'`) */
+export function formatColumnList(columns: string[], conjunction = 'and'): string {
+  const quoted = columns.map(column => `'${column}'`)
+  if (quoted.length === 1) {
+    return `column ${quoted[0]}`
+  }
+  return `columns ${quoted.slice(0, -1).join(', ')} ${conjunction} ${quoted[quoted.length - 1]}`
+}
+
+/** Analyzes how the queries of a statement use the indexes of the tables they read */
+class IndexAdvisor {
+  private readonly fullTableScans: FullTableScan[] = []
+  private readonly unindexedSorts: UnindexedSort[] = []
+  private readonly nonSargablePredicates: NonSargablePredicate[] = []
+
+  public constructor(private readonly schema: Schema) {}
+
+  public adviseStatement(result: ParseResult): IndexAdvice {
+    for (const query of findDescendants(result.tree, QuerySpecificationContext)) {
+      const tableReferenceList = query.fromClause()?.tableReferenceList()
+      this.adviseQuery(
+        this.getQuery(tableReferenceList, [], query.whereClause()?.expr(), getOrderClause(query), query.groupByClause())
+      )
+    }
+
+    const update = findDescendant(result.tree, UpdateStatementContext)
+    if (update) {
+      const where = update.whereClause()?.expr()
+      this.adviseQuery(this.getQuery(update.tableReferenceList(), [], where, update.orderClause()))
+    }
+
+    const del = findDescendant(result.tree, DeleteStatementContext)
+    const tableRef = del?.tableRef()
+    if (del && tableRef) {
+      const table = this.getQueryTable(tableRef, del.tableAlias(), 0)
+      this.adviseQuery(this.getQuery(undefined, [table], del.whereClause()?.expr(), del.orderClause()))
+    } else if (del) {
+      this.adviseQuery(this.getQuery(del.tableReferenceList(), [], del.whereClause()?.expr(), del.orderClause()))
+    }
+
+    const { fullTableScans, unindexedSorts, nonSargablePredicates } = this
+    return { fullTableScans, unindexedSorts, nonSargablePredicates }
+  }
+
+  private getQuery(
+    tableReferenceList: TableReferenceListContext | undefined,
+    tables: QueryTable[],
+    where: ExprContext | undefined,
+    orderClause?: OrderClauseContext,
+    groupByClause?: GroupByClauseContext
+  ): Query {
+    const query: Query = { tables, predicates: [], orderClause, groupByClause }
+    for (const reference of tableReferenceList?.tableReference() || []) {
+      this.addTableReference(reference, query)
+    }
+    if (where) {
+      this.addPredicates(where, query)
+    }
+    return query
+  }
+
+  private getQueryTable(tableRef: TableRefContext, alias: TableAliasContext | undefined, position: number): QueryTable {
+    return {
+      name: alias ? unquote(alias.identifier().text) : splitTableName(tableRef.text).name,
+      schemaTable: findSchemaTable(this.schema, tableRef.text),
+      position
+    }
+  }
+
+  private addTableFactor(factor: TableFactorContext | undefined, query: Query): void {
+    const singleTableParens = factor?.singleTableParens()
+    const singleTable = singleTableParens
+      ? findDescendant(singleTableParens, SingleTableContext)
+      : factor?.singleTable()
+    const tableReferenceList = factor?.tableReferenceListParens()
+
+    // derived tables are analyzed as queries of their own
+    if (singleTable) {
+      query.tables.push(this.getQueryTable(singleTable.tableRef(), singleTable.tableAlias(), query.tables.length))
+    } else if (tableReferenceList) {
+      let parens: TableReferenceListParensContext | undefined = tableReferenceList
+      while (parens && !parens.tableReferenceList()) {
+        parens = parens.tableReferenceListParens()
+      }
+      for (const reference of parens?.tableReferenceList()?.tableReference() || []) {
+        this.addTableReference(reference, query)
+      }
+    }
+  }
+
+  private addTableReference(reference: TableReferenceContext, query: Query): void {
+    const escaped = reference.escapedTableReference()
+    this.addTableFactor(reference.tableFactor() || escaped?.tableFactor(), query)
+
+    for (const join of escaped ? escaped.joinedTable() : reference.joinedTable()) {
+      const joinStart = query.tables.length
+      const joinedReference = join.tableReference()
+      if (joinedReference) {
+        this.addTableReference(joinedReference, query)
+      } else {
+        this.addTableFactor(join.tableFactor(), query)
+      }
+
+      const condition = join.expr()
+      if (condition) {
+        this.addPredicates(condition, query)
+      }
+
+      // USING (column) compares the column of the joined tables with the tables before them
+      const identifiers =
+        join
+          .identifierListWithParentheses()
+          ?.identifierList()
+          .identifier() || []
+      for (const identifier of identifiers) {
+        for (const table of query.tables.slice(joinStart)) {
+          const column = table.schemaTable?.columns.find(c => isSameName(c.name, unquote(identifier.text)))
+          if (column) {
+            query.predicates.push({ table, column, kind: 'equality', join: true, node: identifier })
+          }
+        }
+      }
+    }
+  }
+
+  /** Resolves a column reference to a table of the query, by its qualifier or by the first table that has the column */
+  private resolveColumn(columnRef: ColumnRefContext, query: Query): Pick<Predicate, 'table' | 'column'> | null {
+    const parts = columnRef.text.split('.').map(part => unquote(part))
+    const columnName = parts[parts.length - 1]
+    const qualifier = parts.length > 1 ? parts[parts.length - 2] : null
+
+    for (const table of query.tables) {
+      if (!table.schemaTable || (qualifier !== null && qualifier !== table.name)) {
+        continue
+      }
+      const column = table.schemaTable.columns.find(c => c.name === columnName)
+      if (column) {
+        return { table, column }
+      }
+    }
+    return null
+  }
+
+  private getReferencedTables(tree: ParseTree | null, query: Query): QueryTable[] {
+    if (!tree) {
+      return []
+    }
+    return findDescendants(tree, ColumnRefContext)
+      .map(columnRef => this.resolveColumn(columnRef, query)?.table)
+      .filter((table): table is QueryTable => table !== undefined)
+  }
+
+  private addPredicates(expr: ExprContext, query: Query): void {
+    for (const conjunct of getConjuncts(expr)) {
+      if (!(conjunct instanceof ExprIsContext) || conjunct.IS_SYMBOL()) {
+        continue
+      }
+
+      const boolPri = conjunct.boolPri()
+      if (boolPri instanceof PrimaryExprCompareContext) {
+        const kind = getComparisonKind(boolPri.compOp().text)
+        if (kind) {
+          this.addComparison(boolPri.boolPri(), boolPri.predicate(), kind, query)
+          this.addComparison(boolPri.predicate(), boolPri.boolPri(), kind, query)
+        }
+      } else if (boolPri instanceof PrimaryExprIsNullContext && !boolPri.notRule()) {
+        this.addComparison(boolPri.boolPri(), null, 'equality', query)
+      } else if (boolPri instanceof PrimaryExprPredicateContext) {
+        const predicate = boolPri.predicate()
+        const operation = predicate.predicateOperations()
+        const subject = predicate.bitExpr(0)
+        if (!operation || predicate.notRule()) {
+          continue
+        }
+
+        if (operation instanceof PredicateExprInContext) {
+          this.addComparison(subject, operation, 'equality', query)
+        } else if (operation instanceof PredicateExprBetweenContext) {
+          this.addComparison(subject, operation, 'range', query)
+        } else if (operation instanceof PredicateExprLikeContext) {
+          const columnRef = getBareColumnRef(subject)
+          const resolved = columnRef && this.resolveColumn(columnRef, query)
+          // a pattern that starts with a wildcard matches anywhere in the value, so no range of the index can be read
+          if (resolved && /^['"][%_]/.test(operation.simpleExpr(0).text)) {
+            this.addNonSargablePredicate(resolved, 'wildcard', subject)
+          } else {
+            this.addComparison(subject, operation, 'range', query)
+          }
+        }
+      }
+    }
+  }
+
+  /** Adds a predicate for an operand compared with a value, if the operand is a column that an index can be used for */
+  private addComparison(operand: RangeNode, value: ParseTree | null, kind: Predicate['kind'], query: Query): void {
+    const valueTables = this.getReferencedTables(value, query)
+    const columnRef = getBareColumnRef(operand)
+
+    if (columnRef) {
+      const resolved = this.resolveColumn(columnRef, query)
+      if (!resolved || valueTables.includes(resolved.table)) {
+        return
+      }
+      if (isNumericConversion(resolved.column, value)) {
+        this.addNonSargablePredicate(resolved, 'conversion', columnRef)
+      } else {
+        query.predicates.push({ ...resolved, kind, join: valueTables.length > 0, node: columnRef })
+      }
+      return
+    }
+
+    // a column wrapped in an expression (e.g. `LOWER(email)` or `id + 1`) has to be computed for every row
+    for (const ref of findDescendants(operand, ColumnRefContext)) {
+      const resolved = this.resolveColumn(ref, query)
+      if (resolved && !valueTables.includes(resolved.table)) {
+        this.addNonSargablePredicate(resolved, 'expression', operand)
+        return
+      }
+    }
+  }
+
+  private addNonSargablePredicate(
+    { table, column }: Pick<Predicate, 'table' | 'column'>,
+    reason: NonSargablePredicate['reason'],
+    node: RangeNode
+  ): void {
+    // only filters on indexed columns lose anything
+    const indexes = table.schemaTable ? getTableIndexes(table.schemaTable) : []
+    if (!indexes.some(index => index.columns.some(name => isSameName(name, column.name)))) {
+      return
+    }
+    const { start, stop } = getRange(node)
+    this.nonSargablePredicates.push({ column: column.name, reason, start, stop })
+  }
+
+  private adviseQuery(query: Query): void {
+    for (const table of query.tables) {
+      if (table.schemaTable) {
+        this.adviseTableScan(table.schemaTable, this.getAccessPredicates(table, query))
+      }
+    }
+
+    const [first] = query.tables
+    if (!first?.schemaTable) {
+      return
+    }
+
+    // sorting grouped rows can only use an index if the groups can, so GROUP BY is checked instead of ORDER BY
+    const sortClause = query.groupByClause || query.orderClause
+    if (sortClause) {
+      this.adviseSort(first, first.schemaTable, sortClause, this.getAccessPredicates(first, query), query)
+    }
+  }
+
+  /** Gets the predicates an index can be used for to read a table, in the order they appear */
+  private getAccessPredicates(table: QueryTable, query: Query): Predicate[] {
+    // the first table is read before the tables it is joined with, so join conditions can't be used to read it
+    return query.predicates
+      .filter(p => p.table === table && (!p.join || table.position > 0) && !unindexableTypes.includes(p.column.sqlType))
+      .sort((a, b) => getRange(a.node).start - getRange(b.node).start)
+  }
+
+  private adviseTableScan(schemaTable: SchemaTable, predicates: Predicate[]): void {
+    if (predicates.length === 0) {
+      return
+    }
+
+    const columns = unique(predicates.map(p => p.column.name))
+    const indexes = getTableIndexes(schemaTable)
+    if (indexes.some(index => columns.some(column => isSameName(column, index.columns[0])))) {
+      return
+    }
+
+    // the equality columns come first, so that the index can also be used for a range after them
+    const equalityColumns = unique(predicates.filter(p => p.kind === 'equality').map(p => p.column.name))
+    const rangeColumn = predicates.find(p => p.kind === 'range')?.column.name
+    const index = unique(rangeColumn ? [...equalityColumns, rangeColumn] : equalityColumns)
+
+    this.fullTableScans.push({ table: schemaTable.name, columns, ...getRange(predicates[0].node), index })
+  }
+
+  private adviseSort(
+    table: QueryTable,
+    schemaTable: SchemaTable,
+    clause: OrderClauseContext | GroupByClauseContext,
+    predicates: Predicate[],
+    query: Query
+  ): void {
+    const items = clause.orderList().orderExpression()
+    const columns: string[] = []
+    for (const item of items) {
+      const columnRef = getBareColumnRef(item.expr())
+      const resolved = columnRef && this.resolveColumn(columnRef, query)
+      // sorting by expressions or by the columns of other tables can't use an index of this table
+      if (!resolved || resolved.table !== table || unindexableTypes.includes(resolved.column.sqlType)) {
+        return
+      }
+      columns.push(resolved.column.name)
+    }
+
+    const isOrderBy = clause instanceof OrderClauseContext
+    // an index is read in one direction, so mixed directions always need sorting
+    if (isOrderBy && new Set(items.map(item => !!item.direction()?.DESC_SYMBOL())).size > 1) {
+      return
+    }
+
+    const constants = unique(predicates.filter(p => p.kind === 'equality' && !p.join).map(p => p.column.name))
+    const isConstant = (name: string): boolean => constants.some(c => isSameName(c, name))
+    const matches = (names: string[]): boolean =>
+      names.length === columns.length &&
+      (isOrderBy
+        ? names.every((name, i) => isSameName(name, columns[i]))
+        : names.every(name => columns.some(c => isSameName(c, name))))
+
+    // an index returns rows in the order of its columns after those compared with constants
+    const sorted = getTableIndexes(schemaTable).some(({ columns: indexColumns }) => {
+      for (let i = 0; i < indexColumns.length; i++) {
+        if (matches(indexColumns.slice(i, i + columns.length))) {
+          return true
+        }
+        if (!isConstant(indexColumns[i])) {
+          return false
+        }
+      }
+      return false
+    })
+    if (sorted) {
+      return
+    }
+
+    this.unindexedSorts.push({
+      table: schemaTable.name,
+      clause: isOrderBy ? 'ORDER BY' : 'GROUP BY',
+      columns,
+      ...getRange(clause),
+      index: unique([...constants.filter(c => !columns.some(column => isSameName(c, column))), ...columns])
+    })
+  }
+}
+
+/**
+ * Analyzes how the queries of a statement use the indexes of the tables they read: tables read in
+ * full because no index starts with a filtered column, ORDER BY and GROUP BY clauses that need the
+ * rows to be sorted, and filters that can't use an index at all.
+ *
+ * @param result - the result of parsing the statement
+ * @param schema - the schema to get the indexes of tables from
+ */
+export function adviseIndexes(result: ParseResult, schema: Schema): IndexAdvice {
+  return new IndexAdvisor(schema).adviseStatement(result)
+}
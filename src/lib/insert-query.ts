@@ -0,0 +1,56 @@
+import { ParseResult, QuerySpecificationContext } from 'ts-mysql-parser'
+import { Schema } from 'ts-mysql-schema'
+import { InsertSource } from './assignments'
+import { ResultColumn, getResultColumns } from './result-columns'
+import { findDescendant } from './parse-tree'
+
+/** Represents a column selected by the query of an INSERT ... SELECT statement */
+export interface SelectedColumn {
+  /** The inferred column, or null if it can't be inferred without a schema */
+  readonly column: ResultColumn | null
+  /** The starting position of the select item, or of the query for columns of a wildcard */
+  readonly start: number
+  /** The stopping position of the select item, or of the query for columns of a wildcard */
+  readonly stop: number
+}
+
+/**
+ * Gets the columns selected by the query of an INSERT ... SELECT statement, in order. Wildcards
+ * (e.g. `*` or `users.*`) can only be expanded with a schema, so without one the columns of a
+ * query with a wildcard are unknown.
+ *
+ * @param text - the text of the statement
+ * @param result - the result of parsing the statement
+ * @param source - what the statement inserts
+ * @param schema - the schema to resolve tables and columns against, if any
+ * @returns the selected columns, or null if they are unknown or the statement has no query
+ */
+export function getSelectedColumns(
+  text: string,
+  result: ParseResult,
+  source: InsertSource,
+  schema?: Schema
+): SelectedColumn[] | null {
+  // the columns of a UNION are those of its first query
+  const query = source.query && findDescendant(source.query, QuerySpecificationContext)
+  if (!query) {
+    return null
+  }
+
+  const columns = schema ? getResultColumns(text, result, schema) : null
+  const selectItemList = query.selectItemList()
+  const items = selectItemList.selectItem()
+  const hasWildcard = !!selectItemList.MULT_OPERATOR() || items.some(item => item.tableWild())
+
+  if (hasWildcard) {
+    const start = query.start.startIndex
+    const stop = query.stop?.stopIndex || start
+    return columns && columns.length > 0 ? columns.map(column => ({ column, start, stop })) : null
+  }
+
+  return items.map((item, index) => ({
+    column: columns?.[index] || null,
+    start: item.start.startIndex,
+    stop: item.stop?.stopIndex || item.start.startIndex
+  }))
+}
@@ -1,7 +1,10 @@
 import { SchemaColumn, TsDataType } from 'ts-mysql-schema'
 import { ValueReference } from 'ts-mysql-parser'
 
-export function invalidAssignment(schemaColumn: SchemaColumn, valueRef: ValueReference): boolean {
+/** Represents a value compared with or assigned to a column */
+export type AssignedValue = Pick<ValueReference, 'dataType' | 'value'>
+
+export function invalidAssignment(schemaColumn: SchemaColumn, valueRef: AssignedValue): boolean {
   if (valueRef.dataType === 'null' && schemaColumn.optional) {
     return false
   }
@@ -14,3 +17,32 @@ export function invalidAssignment(schemaColumn: SchemaColumn, valueRef: ValueRef
 
   return valueRef.dataType !== schemaColumn.tsType
 }
+
+/**
+ * Gets the value a parameter bound to a placeholder is sent as, or null if its type can't be checked
+ * (e.g. an array that expands to a list of values).
+ */
+export function getParameterValue(value: unknown): AssignedValue | null {
+  if (value === null || value === undefined) {
+    return { dataType: 'null', value: 'NULL' }
+  }
+  if (value instanceof Date) {
+    return { dataType: 'date', value: value.toISOString() }
+  }
+  // buffers are sent as binary strings
+  if (Buffer.isBuffer(value)) {
+    return { dataType: 'string', value: value.toString() }
+  }
+
+  switch (typeof value) {
+    case 'string':
+      return { dataType: 'string', value }
+    case 'number':
+    case 'bigint':
+      return { dataType: 'number', value: String(value) }
+    case 'boolean':
+      return { dataType: 'boolean', value: String(value) }
+  }
+
+  return null
+}
@@ -0,0 +1,156 @@
+/** Represents a JSON-RPC 2.0 request, or a notification when it has no ID */
+export interface JSONRPCRequest {
+  readonly jsonrpc: '2.0'
+  readonly id?: number | string
+  readonly method: string
+  readonly params?: unknown
+}
+
+/** Represents a JSON-RPC 2.0 response */
+export interface JSONRPCResponse {
+  readonly jsonrpc: '2.0'
+  readonly id: number | string | null
+  readonly result?: unknown
+  readonly error?: { readonly code: number; readonly message: string }
+}
+
+/** The error codes of JSON-RPC, and of the Language Server Protocol */
+export enum JSONRPCErrorCode {
+  ParseError = -32700,
+  MethodNotFound = -32601,
+  InternalError = -32603,
+  ServerNotInitialized = -32002
+}
+
+/** An error a request handler throws to respond with a specific error code */
+export class JSONRPCError extends Error {
+  public constructor(public readonly code: JSONRPCErrorCode, message: string) {
+    super(message)
+  }
+}
+
+type Handler = (params: unknown) => unknown
+
+const headerDelimiter = '\r\n\r\n'
+
+/**
+ * A JSON-RPC connection over a pair of streams, with messages framed by `Content-Length` headers as in
+ * the Language Server Protocol. Both sides of a connection, server and client, use it.
+ */
+export class JSONRPCConnection {
+  private readonly requestHandlers = new Map<string, Handler>()
+  private readonly notificationHandlers = new Map<string, Handler>()
+  private readonly pending = new Map<number | string, { resolve: Handler; reject: (error: Error) => void }>()
+  private buffer = Buffer.alloc(0)
+  private nextId = 1
+
+  public constructor(private readonly input: NodeJS.ReadableStream, private readonly output: NodeJS.WritableStream) {}
+
+  /** Starts reading messages from the input stream */
+  public listen(): void {
+    this.input.on('data', (chunk: Buffer | string) => {
+      this.buffer = Buffer.concat([this.buffer, typeof chunk === 'string' ? Buffer.from(chunk) : chunk])
+      this.readMessages()
+    })
+  }
+
+  /** Handles the requests of a method. The handler returns the result, or throws to respond with an error */
+  public onRequest<P, R>(method: string, handler: (params: P) => R | Promise<R>): void {
+    this.requestHandlers.set(method, handler as Handler)
+  }
+
+  /** Handles the notifications of a method */
+  public onNotification<P>(method: string, handler: (params: P) => void): void {
+    this.notificationHandlers.set(method, handler as Handler)
+  }
+
+  /** Sends a request, resolving with its result or rejecting with its error */
+  public sendRequest<R>(method: string, params?: unknown): Promise<R> {
+    const id = this.nextId++
+    return new Promise<R>((resolve, reject) => {
+      this.pending.set(id, { resolve: resolve as Handler, reject })
+      this.write({ jsonrpc: '2.0', id, method, params })
+    })
+  }
+
+  public sendNotification(method: string, params?: unknown): void {
+    this.write({ jsonrpc: '2.0', method, params })
+  }
+
+  private write(message: JSONRPCRequest | JSONRPCResponse): void {
+    const content = Buffer.from(JSON.stringify(message), 'utf8')
+    this.output.write(`Content-Length: ${content.length}${headerDelimiter}`)
+    this.output.write(content)
+  }
+
+  private readMessages(): void {
+    for (;;) {
+      const headerEnd = this.buffer.indexOf(headerDelimiter)
+      if (headerEnd === -1) {
+        return
+      }
+
+      const header = this.buffer.slice(0, headerEnd).toString('ascii')
+      const match = /Content-Length: *(\d+)/i.exec(header)
+      if (!match) {
+        // a message without a length can't be read, so skip its header
+        this.buffer = this.buffer.slice(headerEnd + headerDelimiter.length)
+        continue
+      }
+
+      const start = headerEnd + headerDelimiter.length
+      const end = start + Number(match[1])
+      if (this.buffer.length < end) {
+        return
+      }
+      const content = this.buffer.slice(start, end).toString('utf8')
+      this.buffer = this.buffer.slice(end)
+
+      let message: JSONRPCRequest | JSONRPCResponse
+      try {
+        message = JSON.parse(content)
+      } catch {
+        this.write({ jsonrpc: '2.0', id: null, error: { code: JSONRPCErrorCode.ParseError, message: 'Parse error.' } })
+        continue
+      }
+      this.handleMessage(message)
+    }
+  }
+
+  private handleMessage(message: JSONRPCRequest | JSONRPCResponse): void {
+    if (!('method' in message)) {
+      const pending = message.id !== null && this.pending.get(message.id)
+      if (pending) {
+        this.pending.delete(message.id as number | string)
+        if (message.error) {
+          pending.reject(new JSONRPCError(message.error.code, message.error.message))
+        } else {
+          pending.resolve(message.result)
+        }
+      }
+      return
+    }
+
+    const { id, method, params } = message
+    if (id === undefined) {
+      this.notificationHandlers.get(method)?.(params)
+      return
+    }
+
+    const handler = this.requestHandlers.get(method)
+    if (!handler) {
+      const error = { code: JSONRPCErrorCode.MethodNotFound, message: `Unhandled method '${method}'.` }
+      this.write({ jsonrpc: '2.0', id, error })
+      return
+    }
+
+    // the handler is called right away, so that messages are handled in the order they arrive
+    new Promise(resolve => resolve(handler(params))).then(
+      result => this.write({ jsonrpc: '2.0', id, result: result === undefined ? null : result }),
+      error => {
+        const code = error instanceof JSONRPCError ? error.code : JSONRPCErrorCode.InternalError
+        this.write({ jsonrpc: '2.0', id, error: { code, message: (error as Error).message } })
+      }
+    )
+  }
+}
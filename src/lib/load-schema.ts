@@ -0,0 +1,23 @@
+import { promises as fs } from 'fs'
+import { MySQLSchema, Schema } from 'ts-mysql-schema'
+import { getSchemaFromDDLFile, SchemaBuilderOptions } from './schema-builder'
+
+/**
+ * Loads a schema from a MySQL connection URI (e.g. `mysql://root@127.0.0.1:3306/test`), a JSON
+ * snapshot of a schema (a `.json` file), or a file of data definition statements.
+ *
+ * @param source - the URI or path of the schema
+ * @param options - the options used when building the schema from data definition statements
+ */
+export async function loadSchema(source: string, options: SchemaBuilderOptions = {}): Promise<Schema> {
+  if (/^mysqlx?:\/\//i.test(source)) {
+    return new MySQLSchema({ uri: source }).getSchema()
+  }
+
+  if (source.toLowerCase().endsWith('.json')) {
+    const json = await fs.readFile(source, 'utf8')
+    return JSON.parse(json) as Schema
+  }
+
+  return getSchemaFromDDLFile(source, options)
+}
@@ -0,0 +1,356 @@
+import {
+  ParseResult,
+  unquote,
+  AlterAlgorithmOptionContext,
+  AlterListItemContext,
+  AlterTableContext,
+  CreateIndexContext,
+  DropIndexContext,
+  TableConstraintDefContext
+} from 'ts-mysql-parser'
+import { Schema, SchemaTable, SchemaColumn, SqlDataType } from 'ts-mysql-schema'
+import { DetailedSchemaColumn, SchemaIndex, getColumnDefinition, getKeyColumns } from './schema-builder'
+import { getColumnDetails } from './column-values'
+import { getTableIndexes } from './get-table-indexes'
+import { findSchemaTable } from './databases'
+import { findDescendant } from './parse-tree'
+
+/** Represents a change a data definition statement makes to a table, at its position in the statement */
+export type TableChange = { readonly start: number; readonly stop: number } & (
+  | {
+      readonly kind: 'add-column'
+      readonly column: DetailedSchemaColumn
+      /** Whether the column is a STORED generated column, whose values are written to every row */
+      readonly stored: boolean
+    }
+  | { readonly kind: 'change-column'; readonly column: SchemaColumn; readonly definition: DetailedSchemaColumn }
+  | { readonly kind: 'rename-column'; readonly column: SchemaColumn; readonly name: string }
+  | { readonly kind: 'drop-column'; readonly column: SchemaColumn }
+  | { readonly kind: 'add-index'; readonly index: SchemaIndex }
+  | { readonly kind: 'drop-index'; readonly index: SchemaIndex }
+  | { readonly kind: 'convert-charset' }
+)
+
+/** Represents the changes a data definition statement makes to an existing table of the schema */
+export interface TableMigration {
+  readonly table: SchemaTable
+  /** The changes, in the order of the statement */
+  readonly changes: TableChange[]
+  /** The algorithm the statement asks for (e.g. `INPLACE` for `ALGORITHM=INPLACE`), or null */
+  readonly algorithm: string | null
+}
+
+interface TypeCapacity {
+  /** The values the type can hold, e.g. `integer` or `text` */
+  readonly family: string
+  /** The size of the type within its family, or null if unknown */
+  readonly size: number | null
+}
+
+// the capacity of each type within its family: integers by size in bytes, strings by length
+const typeCapacities: { readonly [sqlType: string]: TypeCapacity } = {
+  [SqlDataType.TINYINT]: { family: 'integer', size: 1 },
+  [SqlDataType.SMALLINT]: { family: 'integer', size: 2 },
+  [SqlDataType.MEDIUMINT]: { family: 'integer', size: 3 },
+  [SqlDataType.INT]: { family: 'integer', size: 4 },
+  [SqlDataType.INTEGER]: { family: 'integer', size: 4 },
+  [SqlDataType.BIGINT]: { family: 'integer', size: 8 },
+  [SqlDataType.FLOAT]: { family: 'float', size: 4 },
+  [SqlDataType.DOUBLE]: { family: 'float', size: 8 },
+  [SqlDataType.TINYTEXT]: { family: 'text', size: 255 },
+  [SqlDataType.TEXT]: { family: 'text', size: 65535 },
+  [SqlDataType.MEDIUMTEXT]: { family: 'text', size: 16777215 },
+  [SqlDataType.LONGTEXT]: { family: 'text', size: 4294967295 },
+  [SqlDataType.TINYBLOB]: { family: 'binary', size: 255 },
+  [SqlDataType.BLOB]: { family: 'binary', size: 65535 },
+  [SqlDataType.MEDIUMBLOB]: { family: 'binary', size: 16777215 },
+  [SqlDataType.LONGBLOB]: { family: 'binary', size: 4294967295 },
+  // a DATETIME holds every DATE and TIMESTAMP, and a TIMESTAMP only holds dates from 1970 to 2038
+  [SqlDataType.YEAR]: { family: 'date', size: 1 },
+  [SqlDataType.DATE]: { family: 'date', size: 2 },
+  [SqlDataType.TIMESTAMP]: { family: 'date', size: 3 },
+  [SqlDataType.DATETIME]: { family: 'date', size: 4 }
+}
+
+const lengthTypes: string[] = [SqlDataType.CHAR, SqlDataType.VARCHAR, SqlDataType.BINARY, SqlDataType.VARBINARY]
+
+// the largest number of bytes a character takes, assuming the utf8mb4 character set
+const maxBytesPerCharacter = 4
+
+function getCapacity(column: SchemaColumn): TypeCapacity {
+  const capacity = typeCapacities[column.sqlType]
+  if (capacity) {
+    return capacity
+  }
+
+  const { length } = getColumnDetails(column)
+  switch (column.sqlType) {
+    case SqlDataType.CHAR:
+    case SqlDataType.VARCHAR:
+      return { family: 'text', size: length ?? null }
+    case SqlDataType.BINARY:
+    case SqlDataType.VARBINARY:
+      return { family: 'binary', size: length ?? null }
+  }
+
+  return { family: column.sqlType, size: null }
+}
+
+function isSameName(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase()
+}
+
+interface Range {
+  readonly start: { readonly startIndex: number }
+  readonly stop?: { readonly stopIndex: number }
+}
+
+function getPosition(ctx: Range): { start: number; stop: number } {
+  return { start: ctx.start.startIndex, stop: ctx.stop?.stopIndex || ctx.start.startIndex }
+}
+
+/** Gets the name MySQL gives an index, which is the name of its first column if it has none */
+function getIndexName(name: string, columns: string[]): string {
+  return name || columns[0] || ''
+}
+
+function getConstraintIndex(ctx: TableConstraintDefContext): SchemaIndex | null {
+  // foreign keys and check constraints do not create indexes of their own here
+  if (ctx.FOREIGN_SYMBOL() || ctx.checkConstraint()) {
+    return null
+  }
+
+  const columns = getKeyColumns(ctx.keyListVariants())
+  if (ctx.PRIMARY_SYMBOL()) {
+    return { name: 'PRIMARY', key: 'primary', columns }
+  }
+
+  const name = unquote((ctx.indexName() || ctx.indexNameAndType()?.indexName())?.identifier().text)
+  return { name: getIndexName(name, columns), key: ctx.UNIQUE_SYMBOL() ? 'unique' : 'nonunique', columns }
+}
+
+function findIndex(schemaTable: SchemaTable, name: string): SchemaIndex | null {
+  return getTableIndexes(schemaTable).find(i => isSameName(i.name, name)) || null
+}
+
+function getAlterTableChange(schemaTable: SchemaTable, ctx: AlterListItemContext): TableChange[] {
+  const position = getPosition(ctx)
+  const columnRef = ctx.columnInternalRef()
+  const column = columnRef && schemaTable.columns.find(c => isSameName(c.name, unquote(columnRef.text)))
+  const fieldDefinition = ctx.fieldDefinition()
+  const constraint = ctx.tableConstraintDef()
+
+  if (ctx.ADD_SYMBOL()) {
+    const index = constraint && getConstraintIndex(constraint)
+    if (index) {
+      return [{ kind: 'add-index', ...position, index }]
+    }
+    if (fieldDefinition) {
+      const definition = getColumnDefinition(unquote(ctx.identifier()?.text), fieldDefinition)
+      const stored = fieldDefinition.STORED_SYMBOL() !== undefined
+      return [{ kind: 'add-column', ...position, column: definition, stored }]
+    }
+    return []
+  }
+
+  if ((ctx.CHANGE_SYMBOL() || ctx.MODIFY_SYMBOL()) && column && fieldDefinition) {
+    const name = ctx.CHANGE_SYMBOL() ? unquote(ctx.identifier()?.text) : column.name
+    const changes: TableChange[] = [
+      { kind: 'change-column', ...position, column, definition: getColumnDefinition(name, fieldDefinition) }
+    ]
+    if (!isSameName(name, column.name)) {
+      changes.unshift({ kind: 'rename-column', ...position, column, name })
+    }
+    return changes
+  }
+
+  if (ctx.RENAME_SYMBOL() && column && ctx.identifier()) {
+    return [{ kind: 'rename-column', ...position, column, name: unquote(ctx.identifier()?.text) }]
+  }
+
+  if (ctx.DROP_SYMBOL() && !ctx.ALTER_SYMBOL() && !ctx.FOREIGN_SYMBOL()) {
+    const indexRef = ctx.indexRef()
+    const index = ctx.PRIMARY_SYMBOL()
+      ? findIndex(schemaTable, 'PRIMARY')
+      : indexRef
+      ? findIndex(schemaTable, unquote(indexRef.text))
+      : null
+    if (index) {
+      return [{ kind: 'drop-index', ...position, index }]
+    }
+    if (column) {
+      return [{ kind: 'drop-column', ...position, column }]
+    }
+    return []
+  }
+
+  if (ctx.CONVERT_SYMBOL()) {
+    return [{ kind: 'convert-charset', ...position }]
+  }
+
+  return []
+}
+
+/**
+ * Gets the changes a data definition statement (`ALTER TABLE`, `CREATE INDEX` or `DROP INDEX`)
+ * makes to a table of the schema.
+ *
+ * @returns the changes, or null if the statement does not change a table of the schema
+ */
+export function getTableMigration(result: ParseResult, schema: Schema): TableMigration | null {
+  const alterTable = findDescendant(result.tree, AlterTableContext)
+  if (alterTable) {
+    const schemaTable = findSchemaTable(schema, alterTable.tableRef().text)
+    if (!schemaTable) {
+      return null
+    }
+
+    const items =
+      alterTable
+        .alterTableActions()
+        ?.alterCommandList()
+        ?.alterList()
+        ?.alterListItem() || []
+    const algorithm = findDescendant(alterTable, AlterAlgorithmOptionContext)?.identifier()
+    return {
+      table: schemaTable,
+      changes: items.flatMap(item => getAlterTableChange(schemaTable, item)),
+      algorithm: algorithm ? unquote(algorithm.text).toUpperCase() : null
+    }
+  }
+
+  const createIndex = findDescendant(result.tree, CreateIndexContext)
+  const target = createIndex?.createIndexTarget()
+  if (createIndex && target) {
+    const schemaTable = findSchemaTable(schema, target.tableRef().text)
+    if (!schemaTable) {
+      return null
+    }
+
+    const name = unquote((createIndex.indexName() || createIndex.indexNameAndType()?.indexName())?.identifier().text)
+    const columns = getKeyColumns(target.keyListVariants())
+    const key = createIndex.UNIQUE_SYMBOL() ? 'unique' : 'nonunique'
+    const index: SchemaIndex = { name: getIndexName(name, columns), key, columns }
+    // the statement is reported from its start, as the index context starts after CREATE
+    return {
+      table: schemaTable,
+      changes: [{ kind: 'add-index', ...getPosition(createIndex), start: 0, index }],
+      algorithm: null
+    }
+  }
+
+  const dropIndex = findDescendant(result.tree, DropIndexContext)
+  if (dropIndex) {
+    const schemaTable = findSchemaTable(schema, dropIndex.tableRef().text)
+    const index = schemaTable && findIndex(schemaTable, unquote(dropIndex.indexRef().text))
+    if (!schemaTable || !index) {
+      return null
+    }
+    return {
+      table: schemaTable,
+      changes: [{ kind: 'drop-index', ...getPosition(dropIndex), start: 0, index }],
+      algorithm: null
+    }
+  }
+
+  return null
+}
+
+/** Formats the type of a column the way it is defined, e.g. `VARCHAR(255)` or `INT UNSIGNED` */
+export function formatColumnType(column: SchemaColumn): string {
+  const { length, unsigned, values } = getColumnDetails(column)
+  const type = column.sqlType.toUpperCase()
+  if (values) {
+    return `${type}(${values.map(value => `'${value}'`).join(', ')})`
+  }
+
+  const withLength = typeof length === 'number' && lengthTypes.includes(column.sqlType) ? `${type}(${length})` : type
+  return unsigned ? `${withLength} UNSIGNED` : withLength
+}
+
+/**
+ * Checks whether changing the definition of a column can lose or reject some of its values, such as
+ * a shorter string, a smaller integer, fewer ENUM values or another kind of type. Converting to a
+ * string type of at least 255 characters keeps every value.
+ */
+export function isNarrowing(column: SchemaColumn, definition: DetailedSchemaColumn): boolean {
+  const capacity = getCapacity(column)
+  const newCapacity = getCapacity(definition)
+
+  if (capacity.family !== newCapacity.family) {
+    return newCapacity.family !== 'text' || (newCapacity.size !== null && newCapacity.size < 255)
+  }
+
+  const { unsigned, values } = getColumnDetails(column)
+  if (capacity.family === 'integer' && unsigned !== undefined) {
+    // unsigned columns lose negative values, and signed columns of the same size lose the upper half
+    const signChange = unsigned !== definition.unsigned
+    if (definition.unsigned ? signChange : signChange && newCapacity.size === capacity.size) {
+      return true
+    }
+  }
+
+  if (values && definition.values) {
+    return values.some(value => !definition.values?.includes(value))
+  }
+
+  return capacity.size !== null && newCapacity.size !== null && newCapacity.size < capacity.size
+}
+
+/** Gets the number of bytes MySQL stores the length of a VARCHAR or VARBINARY value in */
+function getLengthBytes(column: SchemaColumn, length: number): number {
+  const bytesPerCharacter = column.sqlType === SqlDataType.VARBINARY ? 1 : maxBytesPerCharacter
+  return length * bytesPerCharacter > 255 ? 2 : 1
+}
+
+/**
+ * Checks whether changing the definition of a column makes MySQL copy the whole table. Changing
+ * its name, nullability or default is done in place, and so is making a VARCHAR longer while its
+ * length fits in the same number of bytes or adding values at the end of an ENUM or SET.
+ */
+function isCopyingColumnChange(column: SchemaColumn, definition: DetailedSchemaColumn): boolean {
+  if (column.sqlType !== definition.sqlType) {
+    return true
+  }
+
+  const { unsigned, values } = getColumnDetails(column)
+  if (unsigned !== undefined && unsigned !== definition.unsigned) {
+    return true
+  }
+
+  if (values && definition.values) {
+    return values.some((value, index) => definition.values?.[index] !== value)
+  }
+
+  const { size } = getCapacity(column)
+  const newSize = getCapacity(definition).size
+  if (size === null || newSize === null || size === newSize) {
+    return false
+  }
+
+  const isVariable = column.sqlType === SqlDataType.VARCHAR || column.sqlType === SqlDataType.VARBINARY
+  return !isVariable || newSize < size || getLengthBytes(column, size) !== getLengthBytes(column, newSize)
+}
+
+/**
+ * Gets the changes of a migration that MySQL can't make in place or instantly (`ALGORITHM=INPLACE`
+ * or `ALGORITHM=INSTANT`), and makes by copying the whole table instead.
+ */
+export function getCopyingChanges({ changes }: TableMigration): TableChange[] {
+  const addsPrimaryKey = changes.some(change => change.kind === 'add-index' && change.index.key === 'primary')
+
+  return changes.filter(change => {
+    switch (change.kind) {
+      case 'change-column':
+        return isCopyingColumnChange(change.column, change.definition)
+      case 'add-column':
+        return change.stored
+      case 'drop-index':
+        // dropping the primary key is only done in place when another one is added
+        return change.index.key === 'primary' && !addsPrimaryKey
+      case 'convert-charset':
+        return true
+    }
+    return false
+  })
+}
@@ -0,0 +1,50 @@
+import { ParseResult } from 'ts-mysql-parser'
+
+/** Represents a node of a parse tree */
+export type ParseTree = ReturnType<ParseResult['tree']['getChild']>
+
+type ContextType<T> = new (...args: never[]) => T
+
+/** Finds all nodes of the given context type below the given node, in source order */
+export function findDescendants<T>(tree: ParseTree, type: ContextType<T>): T[] {
+  const found: T[] = []
+
+  for (let i = 0; i < tree.childCount; i++) {
+    const child = tree.getChild(i)
+    if (child instanceof type) {
+      found.push(child)
+    }
+    found.push(...findDescendants(child, type))
+  }
+
+  return found
+}
+
+/** Finds the first node of the given context type below the given node */
+export function findDescendant<T>(tree: ParseTree, type: ContextType<T>): T | null {
+  for (let i = 0; i < tree.childCount; i++) {
+    const child = tree.getChild(i)
+    if (child instanceof type) {
+      return child
+    }
+    const descendant = findDescendant(child, type)
+    if (descendant) {
+      return descendant
+    }
+  }
+
+  return null
+}
+
+/** Finds the closest node of the given context type above the given node */
+export function findAncestor<T>(tree: ParseTree, type: ContextType<T>): T | null {
+  let parent = tree.parent
+  while (parent) {
+    if (parent instanceof type) {
+      return parent
+    }
+    parent = parent.parent
+  }
+
+  return null
+}
@@ -0,0 +1,89 @@
+/** Represents a prepared statement placeholder: `?`, or a named `:name` */
+export interface Placeholder {
+  /** The name of a named placeholder, without the colon, or null for `?` */
+  readonly name: string | null
+  /** The starting position of the placeholder in the text */
+  readonly start: number
+  /** The stopping position of the placeholder in the text */
+  readonly stop: number
+}
+
+const identifierStart = /[A-Za-z_]/
+const identifierPart = /[A-Za-z0-9_$]/
+
+/** Gets the position after the quoted string, identifier or comment that starts at the given position, if any */
+export function skipQuotedOrComment(text: string, i: number): number {
+  const char = text[i]
+
+  if (char === "'" || char === '"' || char === '`') {
+    let j = i + 1
+    while (j < text.length) {
+      if (text[j] === '\\' && char !== '`') {
+        j += 2
+      } else if (text[j] === char) {
+        // a doubled quote is an escaped quote
+        if (text[j + 1] !== char) {
+          return j + 1
+        }
+        j += 2
+      } else {
+        j++
+      }
+    }
+    return text.length
+  }
+
+  if (char === '#' || (char === '-' && text[i + 1] === '-' && /\s/.test(text[i + 2] || ' '))) {
+    const end = text.indexOf('\n', i)
+    return end === -1 ? text.length : end
+  }
+
+  if (char === '/' && text[i + 1] === '*') {
+    const end = text.indexOf('*/', i + 2)
+    return end === -1 ? text.length : end + 2
+  }
+
+  return i
+}
+
+/** Finds the placeholders in a text of MySQL queries, ignoring those in strings and comments */
+export function findPlaceholders(text: string): Placeholder[] {
+  const placeholders: Placeholder[] = []
+
+  let i = 0
+  while (i < text.length) {
+    const next = skipQuotedOrComment(text, i)
+    if (next !== i) {
+      i = next
+      continue
+    }
+
+    if (text[i] === '?') {
+      placeholders.push({ name: null, start: i, stop: i })
+    } else if (text[i] === ':' && identifierStart.test(text[i + 1] || '') && !identifierPart.test(text[i - 1] || '')) {
+      let stop = i + 1
+      while (identifierPart.test(text[stop + 1] || '')) {
+        stop++
+      }
+      placeholders.push({ name: text.slice(i + 1, stop + 1), start: i, stop })
+      i = stop
+    }
+    i++
+  }
+
+  return placeholders
+}
+
+/**
+ * Replaces named placeholders with `?`, which is what the MySQL grammar understands. The names are
+ * padded with spaces so that positions in the text don't change.
+ */
+export function replaceNamedPlaceholders(text: string, placeholders: Placeholder[]): string {
+  let replaced = text
+  for (const { name, start, stop } of placeholders) {
+    if (name !== null) {
+      replaced = replaced.slice(0, start) + '?'.padEnd(stop - start + 1) + replaced.slice(stop + 1)
+    }
+  }
+  return replaced
+}
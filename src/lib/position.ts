@@ -0,0 +1,37 @@
+/** Represents a 1-based line and column in a text */
+export interface LineAndColumn {
+  readonly line: number
+  readonly column: number
+}
+
+/** Gets the offset of the start of every line in the text */
+export function getLineStarts(text: string): number[] {
+  const lineStarts = [0]
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') {
+      lineStarts.push(i + 1)
+    }
+  }
+  return lineStarts
+}
+
+/**
+ * Converts a zero-based offset to a 1-based line and column.
+ *
+ * @param lineStarts - the line starts of the text, as returned by `getLineStarts`
+ * @param offset - the offset in the text
+ */
+export function getLineAndColumn(lineStarts: number[], offset: number): LineAndColumn {
+  let low = 0
+  let high = lineStarts.length - 1
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2)
+    if (lineStarts[middle] <= offset) {
+      low = middle
+    } else {
+      high = middle - 1
+    }
+  }
+
+  return { line: low + 1, column: offset - lineStarts[low] + 1 }
+}
@@ -0,0 +1,227 @@
+import MySQLParser from 'ts-mysql-parser'
+import { MySQLAnalyzerDiagnostic } from '../diagnostic'
+import { fingerprintQuery } from './fingerprint'
+
+/** Represents a query read from a MySQL log */
+export interface LoggedQuery {
+  /** The text of the query, without its trailing semicolon */
+  readonly text: string
+  /** The database selected when the query ran, or null if the log doesn't tell */
+  readonly database: string | null
+  /** When the query ran, as written in the log, or null if the log doesn't tell */
+  readonly timestamp: string | null
+  /** The time the query took in seconds, which only slow query logs have */
+  readonly queryTime: number | null
+  /** The time the query waited for locks in seconds, which only slow query logs have */
+  readonly lockTime: number | null
+  /** The number of rows the query returned, which only slow query logs have */
+  readonly rowsSent: number | null
+  /** The number of rows the query read, which only slow query logs have */
+  readonly rowsExamined: number | null
+}
+
+/** Represents the queries of a log that have the same fingerprint, and what they cost together */
+export interface QueryGroup {
+  /** The fingerprint of the queries (see `fingerprintQuery`) */
+  readonly fingerprint: string
+  readonly digest: string
+  /** The slowest query of the group, which the diagnostics of the group refer to */
+  readonly sample: string
+  /** The database the queries ran on, or null if the log doesn't tell */
+  readonly database: string | null
+  /** The number of times the queries ran */
+  readonly count: number
+  /** The total time the queries took in seconds */
+  readonly queryTime: number
+  /** The longest time one of the queries took in seconds */
+  readonly maxQueryTime: number
+  /** The total number of rows the queries read */
+  readonly rowsExamined: number
+  /** The diagnostics of the sample query */
+  readonly diagnostics: MySQLAnalyzerDiagnostic[]
+}
+
+// the lines that a server writes at the start of its logs, each time it starts
+const serverHeaderPattern = /^(\S+, Version: .* started with:|Tcp port: .*|Time\s+Id\s+Command\s+Argument)$/
+
+// e.g. `2023-01-01T10:00:00.123456Z     8 Query     SELECT 1`, or `230101 10:00:00     8 Query     SELECT 1` before MySQL 5.7
+const generalEntryPattern = /^(\d{4}-\d\d-\d\dT\S+|\d{6} +\d?\d:\d\d:\d\d)?\s+(\d+) (Connect|Query|Execute|Init DB|Prepare|Close stmt|Quit|Field List|Statistics|Ping|Reset stmt|Long Data|Change user|Refresh|Shutdown|Kill|Binlog Dump|Table Dump|Debug|Processlist|Set option|Fetch|Daemon)\t?(.*)$/
+
+function toNumber(value: string | undefined): number | null {
+  return value === undefined ? null : Number(value)
+}
+
+function unquoteDatabase(database: string): string {
+  return database.replace(/^`(.*)`$/, '$1').replace(/``/g, '`')
+}
+
+/**
+ * Reads the queries of a MySQL slow query log, with the time each took and the rows it read.
+ * The `use` and `SET timestamp` statements MySQL writes before queries are not queries of their own.
+ */
+export function parseSlowLog(text: string): LoggedQuery[] {
+  const queries: LoggedQuery[] = []
+  let database: string | null = null
+  let timestamp: string | null = null
+  let stats: { [name: string]: string } = {}
+  let lines: string[] = []
+
+  const flush = (): void => {
+    const query = lines
+      .join('\n')
+      .trim()
+      .replace(/;$/, '')
+    lines = []
+    // e.g. `# administrator command: Ping;` has no query
+    if (query) {
+      queries.push({
+        text: query,
+        database,
+        timestamp,
+        queryTime: toNumber(stats.Query_time),
+        lockTime: toNumber(stats.Lock_time),
+        rowsSent: toNumber(stats.Rows_sent),
+        rowsExamined: toNumber(stats.Rows_examined)
+      })
+    }
+    stats = {}
+  }
+
+  for (const line of text.split(/\r?\n/)) {
+    if (line.startsWith('#')) {
+      if (lines.length) {
+        flush()
+      }
+      const time = /^# Time: (.+)$/.exec(line)
+      if (time) {
+        timestamp = time[1].trim()
+      }
+      const pattern = /(\w+): (\S+)/g
+      let match: RegExpExecArray | null
+      if (line.startsWith('# Query_time:')) {
+        while ((match = pattern.exec(line))) {
+          stats[match[1]] = match[2]
+        }
+      }
+      continue
+    }
+
+    if (serverHeaderPattern.test(line)) {
+      continue
+    }
+
+    const use = /^use (\S+);$/i.exec(line)
+    if (use && !lines.length) {
+      database = unquoteDatabase(use[1])
+      continue
+    }
+    const setTimestamp = /^SET timestamp=(\d+);$/i.exec(line)
+    if (setTimestamp && !lines.length) {
+      timestamp = timestamp || new Date(Number(setTimestamp[1]) * 1000).toISOString()
+      continue
+    }
+
+    lines.push(line)
+    if (/;\s*$/.test(line)) {
+      flush()
+    }
+  }
+  flush()
+
+  return queries
+}
+
+/**
+ * Reads the queries of a MySQL general query log. The database of each query is the one its
+ * connection selected, and the log has no times or row counts.
+ */
+export function parseGeneralLog(text: string): LoggedQuery[] {
+  const queries: { text: string; database: string | null; timestamp: string | null }[] = []
+  const databases = new Map<string, string>()
+  let timestamp: string | null = null
+  // the lines of a query after its first one don't start with a thread ID
+  let current: { text: string } | null = null
+
+  for (const line of text.split(/\r?\n/)) {
+    const entry = generalEntryPattern.exec(line)
+    if (!entry) {
+      if (current && !serverHeaderPattern.test(line)) {
+        current.text += `\n${line}`
+      }
+      continue
+    }
+
+    const [, time, threadId, command, argument] = entry
+    // entries at the same time as the one before them have no time before MySQL 5.7
+    timestamp = time || timestamp
+    current = null
+    if (command === 'Connect') {
+      const connect = / on (\S+)/.exec(argument)
+      if (connect) {
+        databases.set(threadId, unquoteDatabase(connect[1]))
+      }
+    } else if (command === 'Init DB') {
+      databases.set(threadId, unquoteDatabase(argument.trim()))
+    } else if (command === 'Query' || command === 'Execute') {
+      current = { text: argument }
+      queries.push(Object.assign(current, { database: databases.get(threadId) ?? null, timestamp }))
+    }
+  }
+
+  return queries
+    .map(query => ({ ...query, text: query.text.trim().replace(/;$/, '') }))
+    .filter(query => query.text !== '')
+    .map(query => ({ ...query, queryTime: null, lockTime: null, rowsSent: null, rowsExamined: null }))
+}
+
+/** Reads the queries of a MySQL slow query log or general query log, detecting which one it is */
+export function parseQueryLog(text: string): LoggedQuery[] {
+  return /^# Query_time:/m.test(text) ? parseSlowLog(text) : parseGeneralLog(text)
+}
+
+/**
+ * Groups logged queries by database and fingerprint, ranked by the total time they took and then by
+ * the number of times they ran. The diagnostics of the groups are left empty.
+ */
+export function groupQueries(queries: LoggedQuery[], parser = new MySQLParser()): QueryGroup[] {
+  const groups = new Map<string, QueryGroup>()
+  // the time of the sample query of each group
+  const sampleTimes = new Map<string, number>()
+
+  for (const query of queries) {
+    const { fingerprint, digest } = fingerprintQuery(query.text, parser)
+    const key = `${query.database ?? ''}\0${digest}`
+    const queryTime = query.queryTime ?? 0
+    const group = groups.get(key)
+    if (!group) {
+      sampleTimes.set(key, queryTime)
+      groups.set(key, {
+        fingerprint,
+        digest,
+        sample: query.text,
+        database: query.database,
+        count: 1,
+        queryTime,
+        maxQueryTime: queryTime,
+        rowsExamined: query.rowsExamined ?? 0,
+        diagnostics: []
+      })
+      continue
+    }
+
+    const isSlowest = queryTime > (sampleTimes.get(key) as number)
+    if (isSlowest) {
+      sampleTimes.set(key, queryTime)
+    }
+    groups.set(key, {
+      ...group,
+      sample: isSlowest ? query.text : group.sample,
+      count: group.count + 1,
+      queryTime: group.queryTime + queryTime,
+      maxQueryTime: Math.max(group.maxQueryTime, queryTime),
+      rowsExamined: group.rowsExamined + (query.rowsExamined ?? 0)
+    })
+  }
+
+  return Array.from(groups.values()).sort((a, b) => b.queryTime - a.queryTime || b.count - a.count)
+}
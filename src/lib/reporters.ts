@@ -0,0 +1,440 @@
+import path from 'path'
+import { pathToFileURL } from 'url'
+import { MySQLAnalyzerDiagnostic, MySQLAnalyzerFix, DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+import { QueryGroup } from './query-log'
+
+/** Represents the diagnostics of a file, as reported by the command-line interface */
+export interface FileDiagnostics {
+  /** The path of the file, or a name such as `<stdin>` */
+  readonly file: string
+  readonly diagnostics: MySQLAnalyzerDiagnostic[]
+}
+
+/** Represents the rule a diagnostic is reported under by reporters */
+export interface DiagnosticRule {
+  /** The identifier of the rule: the name of the rule that reported the diagnostic, e.g. `missing-table` */
+  readonly id: string
+  /** The name of the rule, e.g. `MissingTable` */
+  readonly name: string
+  /** What the diagnostics of the rule are about */
+  readonly description: string
+  /** How to resolve the diagnostics of the rule */
+  readonly help: string
+}
+
+/** Represents a diagnostic in the JSON format, whose fields stay the same across versions */
+export interface JSONDiagnostic {
+  readonly ruleId: string
+  readonly code: number
+  readonly severity: 'error' | 'warning' | 'suggestion'
+  readonly message: string
+  readonly start: number
+  readonly stop: number
+  readonly startLine: number
+  readonly startColumn: number
+  readonly stopLine: number
+  readonly stopColumn: number
+  readonly statementIndex: number
+  readonly fixes: MySQLAnalyzerFix[]
+}
+
+const toolName = 'ts-mysql-analyzer'
+const toolUri = 'https://github.com/stevenmiller888/ts-mysql-analyzer'
+
+const ruleDescriptions: { readonly [code in DiagnosticCode]: [string, string] } = {
+  [DiagnosticCode.EmptyQuery]: [
+    'An empty query.',
+    'The text has no statement to run. Remove it, or add the query it was meant to contain.'
+  ],
+  [DiagnosticCode.LexerError]: [
+    'A query that contains a lexer error.',
+    "The query contains text MySQL can't split into tokens, such as an unterminated string or comment."
+  ],
+  [DiagnosticCode.ParserError]: [
+    'A query that contains a parser error.',
+    'The query is not valid MySQL syntax. Check the statement near the reported position.'
+  ],
+  [DiagnosticCode.ColumnRowMismatch]: [
+    'A mismatch in the number of rows and columns in an INSERT statement.',
+    'Every row of an INSERT must give a value to each of its columns, and an INSERT ... SELECT must select as many columns as it inserts.'
+  ],
+  [DiagnosticCode.MissingTable]: [
+    'A table reference that does not exist in the schema.',
+    'The table is not in the schema. Check its name and database, or create it first.'
+  ],
+  [DiagnosticCode.MissingColumn]: [
+    'A column reference that does not exist in the referenced table.',
+    'The column is not in the table it refers to. Check its name and the alias of its table.'
+  ],
+  [DiagnosticCode.TypeMismatch]: [
+    'An invalid type assignment or comparison.',
+    'A value is compared with or written to a column or expression of another type, which MySQL converts implicitly.'
+  ],
+  [DiagnosticCode.MissingIndex]: [
+    'A table that is read in full because no index starts with a column it is filtered by.',
+    'No index starts with a column the table is filtered or joined by, so every row is read. Add an index on those columns.'
+  ],
+  [DiagnosticCode.ParameterCountMismatch]: [
+    'A mismatch in the number of placeholders and the values bound to them.',
+    'Every placeholder of a prepared statement must be bound to exactly one value.'
+  ],
+  [DiagnosticCode.UnfilteredUpdate]: [
+    'An UPDATE statement that changes every row of a table.',
+    'The UPDATE has no WHERE clause, so it changes every row. Add a WHERE clause, or a LIMIT if that is intended.'
+  ],
+  [DiagnosticCode.UnfilteredDelete]: [
+    'A DELETE statement that deletes every row of a table.',
+    'The DELETE has no WHERE clause, so it deletes every row. Add a WHERE clause, or use TRUNCATE if that is intended.'
+  ],
+  [DiagnosticCode.AlwaysTrueFilter]: [
+    'A WHERE clause that is true for every row.',
+    'The WHERE clause is true for every row, so the statement changes every row of the table.'
+  ],
+  [DiagnosticCode.UnconditionedJoin]: [
+    'A table joined in a multi-table statement without any condition.',
+    'Without a join condition, every row of the table is combined with every row of the other tables.'
+  ],
+  [DiagnosticCode.Filesort]: [
+    'An ORDER BY or GROUP BY clause that sorts rows without an index.',
+    'No index returns the rows in the order of the clause, so MySQL sorts them itself. Add an index in that order.'
+  ],
+  [DiagnosticCode.NonSargablePredicate]: [
+    "A filter that can't use the index of its column.",
+    'The filter wraps an indexed column in an expression or compares it with a value of another type, so its index is not used.'
+  ],
+  [DiagnosticCode.MissingRequiredColumn]: [
+    'An INSERT statement that gives no value to a NOT NULL column without a default.',
+    'A NOT NULL column without a default value must be given a value by every INSERT.'
+  ],
+  [DiagnosticCode.InvalidEnumValue]: [
+    'A value that is not allowed by an ENUM or SET column.',
+    'ENUM and SET columns only accept the values they are defined with.'
+  ],
+  [DiagnosticCode.ValueTooLong]: [
+    'A string longer than the length of its column.',
+    'The string is longer than its column allows, so it is rejected in strict mode.'
+  ],
+  [DiagnosticCode.ValueOutOfRange]: [
+    'An integer outside the range of its column.',
+    'The integer is outside the range of the type of its column, so it is rejected in strict mode.'
+  ],
+  [DiagnosticCode.GeneratedColumnWrite]: [
+    'A value written to a generated column.',
+    'Generated columns compute their values from other columns, and only accept DEFAULT.'
+  ],
+  [DiagnosticCode.AmbiguousColumn]: [
+    'An unqualified column that exists in more than one table it can refer to.',
+    'The column exists in more than one table of the query. Qualify it with its table or alias.'
+  ],
+  [DiagnosticCode.MissingDatabase]: [
+    'A reference to a database that is not in the schemas.',
+    'The database is not one of the schemas the analyzer was given. Check its name.'
+  ],
+  [DiagnosticCode.InvalidArgumentType]: [
+    'An argument of a built-in function of the wrong type.',
+    'The argument is not of the type the function expects, so MySQL converts it implicitly.'
+  ],
+  [DiagnosticCode.ArgumentCountMismatch]: [
+    'A call to a built-in function with the wrong number of arguments.',
+    'The function is called with too few or too many arguments, which MySQL rejects.'
+  ],
+  [DiagnosticCode.DroppedColumn]: [
+    'A column dropped by a migration.',
+    'Dropping a column deletes its data, and the queries that still use it fail. Remove them first.'
+  ],
+  [DiagnosticCode.RenamedColumn]: [
+    'A column renamed by a migration.',
+    'The queries that use the old name of the column fail. Update them along with the migration.'
+  ],
+  [DiagnosticCode.RequiredColumnWithoutDefault]: [
+    'A NOT NULL column without a default value added to an existing table.',
+    'The rows already in the table get an implicit value for the column. Give it a default value.'
+  ],
+  [DiagnosticCode.NarrowedColumnType]: [
+    "A column changed to a type that can't hold all of its values.",
+    "The new type can't hold every value of the old one, so values are truncated or the migration fails."
+  ],
+  [DiagnosticCode.DroppedLastIndex]: [
+    'A dropped index that leaves a table without any index.',
+    'Without any index, every query of the table reads all of its rows.'
+  ],
+  [DiagnosticCode.DuplicateIndex]: [
+    'An index with the same leading columns as an existing index.',
+    'An index whose columns start another index is redundant, and slows down writes. Drop one of them.'
+  ],
+  [DiagnosticCode.TableCopy]: [
+    'A table change that MySQL makes by copying the whole table.',
+    'MySQL copies the whole table and blocks writes to it until the copy is done. Run the change with an online schema change tool, or while the table is not written to.'
+  ],
+  [DiagnosticCode.FullTableScan]: [
+    'A table an EXPLAIN plan reads in full.',
+    'MySQL reads every row of the table. Add an index on the columns it is filtered or joined by.'
+  ],
+  [DiagnosticCode.PlannedFilesort]: [
+    'A sort an EXPLAIN plan does with a filesort.',
+    'MySQL sorts the rows after reading them. Add an index that returns them in the order of the ORDER BY or GROUP BY clause.'
+  ],
+  [DiagnosticCode.TemporaryTable]: [
+    'A temporary table an EXPLAIN plan creates.',
+    'MySQL copies the rows to a temporary table to group, sort or deduplicate them, which can spill to disk. Add an index on the columns of the GROUP BY or DISTINCT.'
+  ],
+  [DiagnosticCode.LargeRowsExamined]: [
+    'A table an EXPLAIN plan estimates many rows are read from.',
+    'MySQL estimates it reads many rows of the table for each lookup. Add a more selective index, or filter the table further.'
+  ],
+  [DiagnosticCode.UnusedIndex]: [
+    'A table an EXPLAIN plan reads without any of the indexes it could use.',
+    "MySQL found indexes for the table but estimated reading it in full is cheaper. Check the table's statistics with ANALYZE TABLE, or make the filter more selective."
+  ],
+  [DiagnosticCode.UnknownQualifier]: [
+    'A qualifier of a column that is not a table or alias the query can refer to.',
+    'MySQL rejects the query. Qualify the column with a table of the query, by its alias if it has one.'
+  ]
+}
+
+/**
+ * Gets the rule a diagnostic is reported under: the rule that reported it, described by its code.
+ * Without the name of the rule, the rule is named after the code (e.g. `missing-table` for
+ * `MissingTable`), and codes of custom rules are reported under the code itself.
+ *
+ * @param code - the code of the diagnostic
+ * @param ruleName - the name of the rule that reported the diagnostic, if known
+ */
+export function getDiagnosticRule(code: number, ruleName?: string): DiagnosticRule {
+  const descriptions = ruleDescriptions[code as DiagnosticCode]
+  if (!descriptions) {
+    const id = ruleName || String(code)
+    return { id, name: id, description: '', help: '' }
+  }
+
+  const name = DiagnosticCode[code]
+  const id = ruleName || name.replace(/[a-z](?=[A-Z])/g, letter => `${letter}-`).toLowerCase()
+  return { id, name, description: descriptions[0], help: descriptions[1] }
+}
+
+function getSeverityName(severity: DiagnosticSeverity): JSONDiagnostic['severity'] {
+  switch (severity) {
+    case DiagnosticSeverity.Error:
+      return 'error'
+    case DiagnosticSeverity.Warning:
+      return 'warning'
+    case DiagnosticSeverity.Suggestion:
+      return 'suggestion'
+  }
+}
+
+function toJSONDiagnostic(diagnostic: MySQLAnalyzerDiagnostic): JSONDiagnostic {
+  return {
+    ruleId: getDiagnosticRule(diagnostic.code, diagnostic.rule).id,
+    code: diagnostic.code,
+    severity: getSeverityName(diagnostic.severity),
+    message: diagnostic.message,
+    start: diagnostic.start,
+    stop: diagnostic.stop,
+    startLine: diagnostic.startLine,
+    startColumn: diagnostic.startColumn,
+    stopLine: diagnostic.stopLine,
+    stopColumn: diagnostic.stopColumn,
+    statementIndex: diagnostic.statementIndex,
+    fixes: diagnostic.fixes || []
+  }
+}
+
+function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+/** Gets the URI of a file for SARIF: a `file:` URI for an absolute path, or a relative URI */
+function getFileUri(file: string): string {
+  return path.isAbsolute(file) ? pathToFileURL(file).href : encodeURI(file.split(path.sep).join('/'))
+}
+
+/** Formats diagnostics as lines of `file:line:column severity code message` */
+export function formatCompact(files: FileDiagnostics[]): string {
+  const lines: string[] = []
+
+  for (const { file, diagnostics } of files) {
+    for (const { startLine, startColumn, severity, code, message } of diagnostics) {
+      lines.push(`${file}:${startLine}:${startColumn} ${getSeverityName(severity)} ${code} ${message}`)
+    }
+  }
+
+  return lines.map(line => `${line}\n`).join('')
+}
+
+/**
+ * Formats diagnostics as a JSON array of files and their diagnostics, with the rule of each
+ * diagnostic and its severity by name (see `JSONDiagnostic`).
+ */
+export function formatJSON(files: FileDiagnostics[]): string {
+  const output = files.map(({ file, diagnostics }) => ({ file, diagnostics: diagnostics.map(toJSONDiagnostic) }))
+  return `${JSON.stringify(output, null, 2)}\n`
+}
+
+/**
+ * Formats diagnostics as a SARIF 2.1.0 log for code scanning tools. Errors are reported at the
+ * `error` level, warnings at the `warning` level and suggestions at the `note` level.
+ */
+export function formatSARIF(files: FileDiagnostics[]): string {
+  // each rule is described once, in the order of the codes of its diagnostics
+  const rules: DiagnosticRule[] = []
+  const sorted = files.flatMap(({ diagnostics }) => diagnostics).sort((a, b) => a.code - b.code)
+  for (const rule of sorted.map(diagnostic => getDiagnosticRule(diagnostic.code, diagnostic.rule))) {
+    if (!rules.some(r => r.id === rule.id)) {
+      rules.push(rule)
+    }
+  }
+
+  const levels = {
+    [DiagnosticSeverity.Error]: 'error',
+    [DiagnosticSeverity.Warning]: 'warning',
+    [DiagnosticSeverity.Suggestion]: 'note'
+  }
+  const results = files.flatMap(({ file, diagnostics }) =>
+    diagnostics.map(diagnostic => ({
+      ruleId: getDiagnosticRule(diagnostic.code, diagnostic.rule).id,
+      ruleIndex: rules.findIndex(rule => rule.id === getDiagnosticRule(diagnostic.code, diagnostic.rule).id),
+      level: levels[diagnostic.severity],
+      message: { text: diagnostic.message },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: getFileUri(file) },
+            // SARIF regions end after their last character, and diagnostics end on it
+            region: {
+              startLine: diagnostic.startLine,
+              startColumn: diagnostic.startColumn,
+              endLine: diagnostic.stopLine,
+              endColumn: diagnostic.stopColumn + 1,
+              charOffset: diagnostic.start,
+              charLength: diagnostic.stop - diagnostic.start + 1
+            }
+          }
+        }
+      ]
+    }))
+  )
+
+  const log = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: toolName,
+            informationUri: toolUri,
+            rules: rules.map(rule => ({
+              id: rule.id,
+              name: rule.name,
+              shortDescription: { text: rule.description || rule.id },
+              help: { text: rule.help || rule.description || rule.id }
+            }))
+          }
+        },
+        results
+      }
+    ]
+  }
+  return `${JSON.stringify(log, null, 2)}\n`
+}
+
+/**
+ * Formats diagnostics as JUnit XML, with a test suite for each file and a failed test case for each
+ * diagnostic. A file without diagnostics has a single passed test case.
+ */
+export function formatJUnit(files: FileDiagnostics[]): string {
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>']
+  const failureCount = files.reduce((count, { diagnostics }) => count + diagnostics.length, 0)
+  const testCount = files.reduce((count, { diagnostics }) => count + Math.max(diagnostics.length, 1), 0)
+  lines.push(`<testsuites name="${toolName}" tests="${testCount}" failures="${failureCount}">`)
+
+  for (const { file, diagnostics } of files) {
+    const name = escapeXML(file)
+    const tests = Math.max(diagnostics.length, 1)
+    lines.push(`  <testsuite name="${name}" tests="${tests}" failures="${diagnostics.length}" errors="0">`)
+    if (diagnostics.length === 0) {
+      lines.push(`    <testcase name="${name}" classname="${name}" />`)
+    }
+    for (const diagnostic of diagnostics) {
+      const { id } = getDiagnosticRule(diagnostic.code, diagnostic.rule)
+      const location = `${diagnostic.startLine}:${diagnostic.startColumn}`
+      const severity = getSeverityName(diagnostic.severity)
+      const message = escapeXML(diagnostic.message)
+      lines.push(`    <testcase name="${id} (${location})" classname="${name}">`)
+      lines.push(`      <failure type="${severity}" message="${message}">${name}:${location} ${message}</failure>`)
+      lines.push('    </testcase>')
+    }
+    lines.push('  </testsuite>')
+  }
+
+  lines.push('</testsuites>')
+  return lines.map(line => `${line}\n`).join('')
+}
+
+/**
+ * Formats diagnostics as Checkstyle XML. Errors and warnings keep their severity, and suggestions
+ * are reported as `info`.
+ */
+export function formatCheckstyle(files: FileDiagnostics[]): string {
+  const severities = {
+    [DiagnosticSeverity.Error]: 'error',
+    [DiagnosticSeverity.Warning]: 'warning',
+    [DiagnosticSeverity.Suggestion]: 'info'
+  }
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>', '<checkstyle version="4.3">']
+
+  for (const { file, diagnostics } of files) {
+    lines.push(`  <file name="${escapeXML(file)}">`)
+    for (const diagnostic of diagnostics) {
+      const attributes = [
+        `line="${diagnostic.startLine}"`,
+        `column="${diagnostic.startColumn}"`,
+        `severity="${severities[diagnostic.severity]}"`,
+        `message="${escapeXML(diagnostic.message)}"`,
+        `source="${toolName}.${getDiagnosticRule(diagnostic.code, diagnostic.rule).id}"`
+      ]
+      lines.push(`    <error ${attributes.join(' ')} />`)
+    }
+    lines.push('  </file>')
+  }
+
+  lines.push('</checkstyle>')
+  return lines.map(line => `${line}\n`).join('')
+}
+
+/**
+ * Formats the query groups of a log as a ranked report: the cost of each group, its fingerprint, and
+ * the diagnostics of its sample query at their line and column in the sample.
+ */
+export function formatQueryGroups(groups: QueryGroup[]): string {
+  const lines: string[] = []
+
+  for (const [i, group] of groups.entries()) {
+    const cost = [
+      `${group.count} ${group.count === 1 ? 'query' : 'queries'}`,
+      `${group.queryTime.toFixed(3)}s total`,
+      `${group.maxQueryTime.toFixed(3)}s max`,
+      `${group.rowsExamined} rows examined`
+    ]
+    const database = group.database === null ? '' : ` on ${group.database}`
+    lines.push(`#${i + 1} ${group.digest.slice(0, 16)}${database}: ${cost.join(', ')}`)
+    lines.push(`  ${group.fingerprint}`)
+    for (const { startLine, startColumn, severity, code, message } of group.diagnostics) {
+      lines.push(`  ${startLine}:${startColumn} ${getSeverityName(severity)} ${code} ${message}`)
+    }
+  }
+
+  return lines.map(line => `${line}\n`).join('')
+}
+
+/** Formats the query groups of a log as a JSON array, with their diagnostics as in `formatJSON` */
+export function formatQueryGroupsJSON(groups: QueryGroup[]): string {
+  const output = groups.map(group => ({ ...group, diagnostics: group.diagnostics.map(toJSONDiagnostic) }))
+  return `${JSON.stringify(output, null, 2)}\n`
+}
@@ -0,0 +1,138 @@
+import {
+  ParseResult,
+  SimpleExprParamMarkerContext,
+  PrimaryExprCompareContext,
+  PredicateContext,
+  PredicateExprInContext,
+  PredicateExprBetweenContext,
+  PredicateExprLikeContext,
+  ExprListContext,
+  UpdateElementContext,
+  ValuesContext,
+  InsertStatementContext,
+  ReplaceStatementContext,
+  ColumnRefContext,
+  ExprContext
+} from 'ts-mysql-parser'
+import { SchemaColumn } from 'ts-mysql-schema'
+import { ResolvedTable } from './resolve-references'
+import { getRowValues } from './assignments'
+import { ParseTree, findDescendants, findDescendant, findAncestor } from './parse-tree'
+
+/** Represents a placeholder resolved to the column it is compared with or assigned to */
+export interface ResolvedPlaceholder {
+  /** The starting position of the placeholder in the statement */
+  readonly start: number
+  /** The column in the schema */
+  readonly schemaColumn: SchemaColumn
+}
+
+/** Gets the column reference of an operand that is nothing but a column (e.g. `id` or `users.id`) */
+function getBareColumnRef(operand: ParseTree | undefined): ColumnRefContext | null {
+  if (!operand) {
+    return null
+  }
+  const columnRef = findDescendant(operand, ColumnRefContext)
+  return columnRef && columnRef.text === operand.text ? columnRef : null
+}
+
+/** Gets the schema column of a column reference that was resolved against the schema */
+function getResolvedColumn(columnRef: ColumnRefContext, tables: ResolvedTable[]): SchemaColumn | null {
+  for (const { columns } of tables) {
+    const resolved = columns.find(c => c.columnRef.stop === columnRef.stop?.stopIndex)
+    if (resolved) {
+      return resolved.schemaColumn
+    }
+  }
+  return null
+}
+
+/** Gets the operand that is compared with a placeholder in a predicate (e.g. `id` in `id IN (?, ?)`) */
+function getPredicateSubject(operation: ParseTree): ColumnRefContext | null {
+  const predicate = operation.parent
+  return predicate instanceof PredicateContext ? getBareColumnRef(predicate.bitExpr(0)) : null
+}
+
+/** Gets the column an INSERT value is assigned to, by its position in the row */
+function getInsertColumn(
+  values: ValuesContext,
+  node: ParseTree,
+  tables: ResolvedTable[]
+): SchemaColumn | ColumnRefContext | null {
+  // DEFAULT takes a position in the row too
+  const index = getRowValues(values).indexOf(node as ExprContext)
+  const insert = findAncestor(values, InsertStatementContext) || findAncestor(values, ReplaceStatementContext)
+  if (index === -1 || !insert) {
+    return null
+  }
+
+  const fields = insert.insertFromConstructor()?.fields()
+  if (fields) {
+    const identifier = fields.insertIdentifier()[index]
+    return identifier ? findDescendant(identifier, ColumnRefContext) : null
+  }
+
+  // without a column list, values are assigned to the columns of the table in order
+  const table = tables.find(t => t.tableRef.start === insert.tableRef().start.startIndex)
+  return table?.schemaTable?.columns[index] || null
+}
+
+/** Gets the column a placeholder is compared with or assigned to, if the placeholder is a whole operand */
+function getPlaceholderColumn(
+  marker: SimpleExprParamMarkerContext,
+  tables: ResolvedTable[]
+): SchemaColumn | ColumnRefContext | null {
+  // climb to the largest expression that is nothing but the placeholder, stopping at a list of one
+  // value (e.g. `IN (?)` or `VALUES (?)`), whose text is the placeholder too
+  let node: ParseTree = marker
+  while (
+    node.parent &&
+    node.parent.text === marker.text &&
+    !(node.parent instanceof ExprListContext || node.parent instanceof ValuesContext)
+  ) {
+    node = node.parent
+  }
+
+  const parent = node.parent
+  if (parent instanceof PrimaryExprCompareContext) {
+    return getBareColumnRef(parent.boolPri() === node ? parent.predicate() : parent.boolPri())
+  }
+  if (parent instanceof ExprListContext && parent.parent instanceof PredicateExprInContext) {
+    return getPredicateSubject(parent.parent)
+  }
+  if (parent instanceof PredicateExprBetweenContext || parent instanceof PredicateExprLikeContext) {
+    return getPredicateSubject(parent)
+  }
+  if (parent instanceof UpdateElementContext) {
+    return parent.columnRef()
+  }
+  if (parent instanceof ValuesContext) {
+    return getInsertColumn(parent, node, tables)
+  }
+
+  return null
+}
+
+/**
+ * Resolves the placeholders of a statement to the columns they are compared with (e.g. `id = ?`,
+ * `id IN (?, ?)`) or assigned to (e.g. `SET name = ?`, `VALUES (?, ?)`). Placeholders used in any
+ * other way (e.g. `LIMIT ?`, `LOWER(?)`) are not resolved.
+ */
+export function resolvePlaceholders(result: ParseResult, tables: ResolvedTable[]): ResolvedPlaceholder[] {
+  const resolved: ResolvedPlaceholder[] = []
+  const markers = findDescendants(result.tree, SimpleExprParamMarkerContext)
+
+  for (const marker of markers) {
+    const column = getPlaceholderColumn(marker, tables)
+    if (!column) {
+      continue
+    }
+
+    const schemaColumn = column instanceof ColumnRefContext ? getResolvedColumn(column, tables) : column
+    if (schemaColumn) {
+      resolved.push({ start: marker.start.startIndex, schemaColumn })
+    }
+  }
+
+  return resolved
+}
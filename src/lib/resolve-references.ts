@@ -0,0 +1,63 @@
+import { ParseResult, TableReference, ColumnReference, ValueReference } from 'ts-mysql-parser'
+import { Schema, SchemaTable, SchemaColumn } from 'ts-mysql-schema'
+import { resolveScopes } from './scopes'
+import { findSchemaTable } from './databases'
+
+/** Represents a table reference resolved against the schema */
+export interface ResolvedTable {
+  readonly tableRef: TableReference
+  /** The table in the schema, or null if it does not exist */
+  readonly schemaTable: SchemaTable | null
+  /** The columns referenced on the table. Empty if the table does not exist */
+  readonly columns: ResolvedColumn[]
+}
+
+/** Represents a column reference resolved against a table in the schema */
+export interface ResolvedColumn {
+  readonly columnRef: ColumnReference
+  /** The column in the schema, or null if it does not exist in the table */
+  readonly schemaColumn: SchemaColumn | null
+  /** The value compared with or assigned to the column, if any */
+  readonly valueRef?: ValueReference
+}
+
+/**
+ * Resolves the table and column references of a statement against the schema. Columns are linked
+ * to tables by the scopes of the statement, so references to common table expressions, and columns
+ * that belong to them or to derived tables, are left out.
+ */
+export function resolveReferences(result: ParseResult, schema: Schema): ResolvedTable[] {
+  const { tableReferences, columnReferences, valueReferences } = result.references
+  const scopes = resolveScopes(result, schema)
+
+  const resolvedTables: ResolvedTable[] = []
+  for (const tableRef of tableReferences) {
+    const scopeTable = scopes.tables.find(t => t.tableRef?.stop?.stopIndex === tableRef.stop)
+    if (scopeTable?.kind === 'cte') {
+      continue
+    }
+
+    const { table, schemaReference } = tableRef
+    const qualifiedName = schemaReference ? `${schemaReference.schema}.${table}` : table
+    const schemaTable = scopeTable ? scopeTable.schemaTable : findSchemaTable(schema, qualifiedName)
+    if (!schemaTable) {
+      resolvedTables.push({ tableRef, schemaTable, columns: [] })
+      continue
+    }
+
+    const columns: ResolvedColumn[] = []
+    for (const columnRef of columnReferences) {
+      const resolved = scopes.columnRefs.find(r => r.stop === columnRef.stop)
+      if (!resolved || !resolved.table || resolved.table !== scopeTable) {
+        continue
+      }
+      const schemaColumn = resolved.column ? resolved.column.schemaColumn : null
+      const valueRef = schemaColumn ? valueReferences.find(r => r.columnReference?.stop === columnRef.stop) : undefined
+      columns.push({ columnRef, schemaColumn, valueRef })
+    }
+
+    resolvedTables.push({ tableRef, schemaTable, columns })
+  }
+
+  return resolvedTables
+}
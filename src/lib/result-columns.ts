@@ -0,0 +1,285 @@
+import {
+  ParseResult,
+  unquote,
+  QuerySpecificationContext,
+  WithClauseContext,
+  SelectItemContext,
+  TableReferenceContext,
+  TableFactorContext,
+  SingleTableContext,
+  ColumnRefContext,
+  TableReferenceListParensContext,
+  CommonTableExpressionContext,
+  SimpleStatementContext,
+  ExprContext,
+  SumExprContext,
+  RuntimeFunctionCallContext,
+  SimpleExprParamMarkerContext,
+  SimpleExprVariableContext,
+  SimpleExprSubQueryContext,
+  SimpleExprWindowingFunctionContext,
+  FunctionCallContext,
+  NullLiteralContext
+} from 'ts-mysql-parser'
+import { Schema } from 'ts-mysql-schema'
+import { ParseTree, findDescendants, findDescendant, findAncestor } from './parse-tree'
+import { splitTableName, findSchemaTable } from './databases'
+import { getExpressionTyper } from './expression-types'
+
+/** Represents a column of the result set of a SELECT statement */
+export interface ResultColumn {
+  /** The name of the column in the result set: its alias, its name in the table, or the text of the expression */
+  readonly name: string
+  /** The alias given to the column, or null if it has none */
+  readonly alias: string | null
+  /** The table the column is selected from, or null for expressions */
+  readonly table: string | null
+  /** The SQL type of the column, or null if it can't be inferred */
+  readonly sqlType: string | null
+  /** The TypeScript type of the column, or null if it can't be inferred */
+  readonly tsType: string | null
+  /** Whether the column can be NULL */
+  readonly nullable: boolean
+}
+
+/** Represents a table in the FROM clause of a query */
+interface SourceTable {
+  /** The name the table is referred to by in the query: its alias, or its name */
+  readonly name: string
+  /** The columns the table provides */
+  readonly columns: ResultColumn[]
+  /** Whether every column can be NULL, because the table is on the inner side of an outer join */
+  nullable: boolean
+}
+
+function getSourceColumns(table: SourceTable): ResultColumn[] {
+  return table.columns.map(column => ({ ...column, nullable: column.nullable || table.nullable }))
+}
+
+function getColumnRefParts(columnRef: ColumnRefContext): { table: string | null; column: string } {
+  const parts = columnRef.text.split('.').map(part => unquote(part))
+  return {
+    table: parts.length > 1 ? parts[parts.length - 2] : null,
+    column: parts[parts.length - 1]
+  }
+}
+
+// the parts of an expression that can give NULL even when its other operands are not NULL
+const nullableParts = [
+  ColumnRefContext,
+  SimpleExprParamMarkerContext,
+  SimpleExprVariableContext,
+  SimpleExprSubQueryContext,
+  SimpleExprWindowingFunctionContext,
+  SumExprContext,
+  FunctionCallContext,
+  NullLiteralContext
+]
+
+/**
+ * Checks whether an expression can be NULL. COUNT never is, and other expressions can be unless they
+ * consist of literals, operators and built-in functions without arguments (e.g. `NOW()`).
+ */
+function isNullableExpr(expr: ExprContext): boolean {
+  const sumExpr = findDescendant(expr, SumExprContext)
+  if (sumExpr && sumExpr.text === expr.text && sumExpr.start.text?.toUpperCase() === 'COUNT') {
+    return false
+  }
+  return (
+    nullableParts.some(type => findDescendant<ParseTree>(expr, type)) ||
+    findDescendants(expr, RuntimeFunctionCallContext).some(call => findDescendant(call, ExprContext))
+  )
+}
+
+/** Infers the columns of the queries of a single statement */
+class ResultColumnsResolver {
+  private readonly commonTables = new Set<CommonTableExpressionContext>()
+  private readonly getExpressionType: ReturnType<typeof getExpressionTyper>
+
+  public constructor(
+    private readonly text: string,
+    private readonly result: ParseResult,
+    private readonly schema: Schema
+  ) {
+    this.getExpressionType = getExpressionTyper(result, schema)
+  }
+
+  /** Gets the columns a query selects, after resolving the tables of its FROM clause */
+  public getQueryColumns(query: QuerySpecificationContext): ResultColumn[] {
+    const tables: SourceTable[] = []
+    const tableReferenceList = query.fromClause()?.tableReferenceList()
+    for (const reference of tableReferenceList?.tableReference() || []) {
+      this.addTableReference(reference, tables)
+    }
+
+    const selectItemList = query.selectItemList()
+    let columns: ResultColumn[] = []
+    if (selectItemList.MULT_OPERATOR()) {
+      for (const table of tables) {
+        columns = columns.concat(getSourceColumns(table))
+      }
+    }
+    for (const item of selectItemList.selectItem()) {
+      columns = columns.concat(this.getSelectItemColumns(item, tables))
+    }
+
+    return columns
+  }
+
+  /** Gets the columns of a common table expression (e.g. `x` in `WITH x AS (SELECT ...)`) */
+  private getCommonTableColumns(name: string): ResultColumn[] {
+    const cte = findDescendants(this.result.tree, CommonTableExpressionContext).find(
+      c => unquote(c.identifier().text) === name
+    )
+    // a recursive common table expression refers to itself
+    const query = cte && !this.commonTables.has(cte) ? findDescendant(cte.subquery(), QuerySpecificationContext) : null
+    if (!cte || !query) {
+      return []
+    }
+
+    this.commonTables.add(cte)
+    const columns = this.getQueryColumns(query).map(column => ({ ...column, alias: null }))
+    const names = cte
+      .columnInternalRefList()
+      ?.columnInternalRef()
+      .map(ref => unquote(ref.text))
+    return names ? columns.map((column, index) => ({ ...column, name: names[index] || column.name })) : columns
+  }
+
+  private getSingleTable(singleTable: SingleTableContext): SourceTable {
+    const tableRef = singleTable.tableRef()
+    const { database, name: tableName } = splitTableName(tableRef.text)
+    const alias = singleTable.tableAlias()
+    const name = alias ? unquote(alias.identifier().text) : tableName
+
+    const schemaTable = findSchemaTable(this.schema, tableRef.text)
+    if (!schemaTable) {
+      const columns = database === null ? this.getCommonTableColumns(tableName) : []
+      return { name, columns, nullable: false }
+    }
+
+    const columns = schemaTable.columns.map(column => ({
+      name: column.name,
+      alias: null,
+      table: schemaTable.name,
+      sqlType: column.sqlType,
+      tsType: column.tsType,
+      nullable: column.optional
+    }))
+
+    return { name, columns, nullable: false }
+  }
+
+  private addTableFactor(factor: TableFactorContext | undefined, tables: SourceTable[]): void {
+    if (!factor) {
+      return
+    }
+
+    const singleTableParens = factor.singleTableParens()
+    const singleTable = singleTableParens ? findDescendant(singleTableParens, SingleTableContext) : factor.singleTable()
+    const derivedTable = factor.derivedTable()
+    const tableReferenceList = factor.tableReferenceListParens()
+
+    if (derivedTable) {
+      const alias = derivedTable.tableAlias()
+      const query = findDescendant(derivedTable.subquery(), QuerySpecificationContext)
+      const columns = query ? this.getQueryColumns(query) : []
+      tables.push({ name: alias ? unquote(alias.identifier().text) : '', columns, nullable: false })
+    } else if (tableReferenceList) {
+      let parens: TableReferenceListParensContext | undefined = tableReferenceList
+      while (parens && !parens.tableReferenceList()) {
+        parens = parens.tableReferenceListParens()
+      }
+      for (const reference of parens?.tableReferenceList()?.tableReference() || []) {
+        this.addTableReference(reference, tables)
+      }
+    } else if (singleTable) {
+      tables.push(this.getSingleTable(singleTable))
+    }
+  }
+
+  /** Adds the tables of a table reference and its joins, marking the inner sides of outer joins nullable */
+  private addTableReference(reference: TableReferenceContext, tables: SourceTable[]): void {
+    const escaped = reference.escapedTableReference()
+    const scopeStart = tables.length
+
+    this.addTableFactor(reference.tableFactor() || escaped?.tableFactor(), tables)
+
+    for (const join of escaped ? escaped.joinedTable() : reference.joinedTable()) {
+      const joinStart = tables.length
+      const joinedReference = join.tableReference()
+      if (joinedReference) {
+        this.addTableReference(joinedReference, tables)
+      } else {
+        this.addTableFactor(join.tableFactor(), tables)
+      }
+
+      const joinType = join.outerJoinType() || join.naturalJoinType()
+      if (joinType?.LEFT_SYMBOL()) {
+        tables.slice(joinStart).forEach(table => (table.nullable = true))
+      } else if (joinType?.RIGHT_SYMBOL()) {
+        tables.slice(scopeStart, joinStart).forEach(table => (table.nullable = true))
+      }
+    }
+  }
+
+  private getSelectItemColumns(item: SelectItemContext, tables: SourceTable[]): ResultColumn[] {
+    const tableWild = item.tableWild()
+    if (tableWild) {
+      const parts = tableWild.identifier().map(identifier => unquote(identifier.text))
+      const table = tables.find(t => t.name === parts[parts.length - 1])
+      return table ? getSourceColumns(table) : []
+    }
+
+    const expr = item.expr()
+    if (!expr) {
+      return []
+    }
+
+    const selectAlias = item.selectAlias()
+    const alias = selectAlias ? unquote((selectAlias.identifier() || selectAlias.textStringLiteral())?.text) : null
+
+    const columnRef = findDescendant(expr, ColumnRefContext)
+    if (columnRef && columnRef.text === expr.text) {
+      const parts = getColumnRefParts(columnRef)
+      const candidates = parts.table ? tables.filter(t => t.name === parts.table) : tables
+      for (const table of candidates) {
+        const column = getSourceColumns(table).find(c => c.name === parts.column)
+        if (column) {
+          return [{ ...column, name: alias || column.name, alias }]
+        }
+      }
+      return [{ name: alias || parts.column, alias, table: null, sqlType: null, tsType: null, nullable: true }]
+    }
+
+    // MySQL names an expression without an alias by the text it was written as
+    const exprText = this.text.slice(expr.start.startIndex, (expr.stop?.stopIndex || 0) + 1)
+    // booleans are returned as 1 or 0
+    const type = this.getExpressionType(expr)
+    const tsType = type === 'boolean' ? 'number' : type === 'null' ? null : type
+    const nullable = tsType === null || isNullableExpr(expr)
+    return [{ name: alias || exprText, alias, table: null, sqlType: null, tsType, nullable }]
+  }
+}
+
+/** Checks whether a statement is a SELECT statement, including one that starts with a WITH clause */
+export function isSelectStatement(result: ParseResult): boolean {
+  return !!findDescendant(result.tree, SimpleStatementContext)?.selectStatement()
+}
+
+/**
+ * Infers the columns of the result set of a SELECT statement. `*` and `table.*` are expanded, and
+ * the columns of tables on the inner side of outer joins are nullable. The columns of a UNION are
+ * named after its first query.
+ *
+ * @param text - the text of the statement
+ * @param result - the result of parsing the statement
+ * @param schema - the schema to resolve tables and columns against
+ */
+export function getResultColumns(text: string, result: ParseResult, schema: Schema): ResultColumn[] {
+  // the outermost query comes first, unless it is preceded by common table expressions
+  const query = findDescendants(result.tree, QuerySpecificationContext).find(
+    q => findAncestor(q, WithClauseContext) === null
+  )
+  return query ? new ResultColumnsResolver(text, result, schema).getQueryColumns(query) : []
+}
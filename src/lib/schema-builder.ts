@@ -0,0 +1,834 @@
+import { promises as fs } from 'fs'
+import MySQLParser, {
+  ParserOptions,
+  ParseResult,
+  unquote,
+  AlterTableContext,
+  AlterListItemContext,
+  ColumnDefinitionContext,
+  CreateDatabaseContext,
+  CreateIndexContext,
+  CreateTableContext,
+  DataTypeContext,
+  DropDatabaseContext,
+  DropIndexContext,
+  DropTableContext,
+  FieldDefinitionContext,
+  FieldLengthContext,
+  FieldOptionsContext,
+  FloatOptionsContext,
+  IdentifierContext,
+  KeyListVariantsContext,
+  PrecisionContext,
+  RenameTableStatementContext,
+  StringListContext,
+  TableConstraintDefContext,
+  TableElementListContext,
+  TableNameContext,
+  TableRefContext,
+  TypeDatetimePrecisionContext,
+  UseCommandContext,
+  CharsetWithOptBinaryContext,
+  NcharContext,
+  PlaceContext
+} from 'ts-mysql-parser'
+import { Schema, SchemaTable, SchemaColumn, SchemaIndexKey, SqlDataType, sqlTypeToTsType } from 'ts-mysql-schema'
+import { findDescendant } from './parse-tree'
+import { Schemas } from './databases'
+import { getColumnDetails } from './column-values'
+import { getTableIndexes } from './get-table-indexes'
+import { ResultColumn, getResultColumns } from './result-columns'
+
+/** Represents the options passed to the schema builder */
+export interface SchemaBuilderOptions {
+  /** The options passed to the underlying MySQL parser */
+  readonly parserOptions?: ParserOptions
+  /** The database to build the schema for. Defaults to the last database selected by the DDL */
+  readonly database?: string
+}
+
+/** Represents an index of a table, with its columns in index order */
+export interface SchemaIndex {
+  readonly name: string
+  readonly key: SchemaIndexKey
+  readonly columns: string[]
+}
+
+/** Represents a column built from data definition statements, which knows the details of its definition */
+export interface DetailedSchemaColumn extends SchemaColumn {
+  /** The maximum length of a string column (e.g. 24 for `VARCHAR(24)`), or null if it has none */
+  readonly length: number | null
+  /** The values allowed by an ENUM or SET column, or null for other types */
+  readonly values: string[] | null
+  /** Whether a numeric column is UNSIGNED */
+  readonly unsigned: boolean
+  /** Whether the column is AUTO_INCREMENT */
+  readonly autoIncrement: boolean
+  /** Whether the column is generated from an expression (e.g. `AS (price * quantity)`) */
+  readonly generated: boolean
+}
+
+/** Represents a table built from data definition statements, which knows every index of the table */
+export interface IndexedSchemaTable extends SchemaTable {
+  readonly columns: DetailedSchemaColumn[]
+  readonly indexes: SchemaIndex[]
+}
+
+interface BuilderColumn {
+  name: string
+  sqlType: SqlDataType
+  optional: boolean
+  default: string | null
+  length: number | null
+  values: string[] | null
+  unsigned: boolean
+  autoIncrement: boolean
+  generated: boolean
+}
+
+interface BuilderIndex {
+  name: string
+  key: SchemaIndexKey
+  columns: string[]
+}
+
+interface BuilderTable {
+  name: string
+  columns: BuilderColumn[]
+  indexes: BuilderIndex[]
+}
+
+interface QualifiedName {
+  database: string | null
+  name: string
+}
+
+// Data type contexts that describe the options of a type rather than the type itself
+const dataTypeOptionContexts = [
+  FieldLengthContext,
+  FieldOptionsContext,
+  FloatOptionsContext,
+  PrecisionContext,
+  StringListContext,
+  CharsetWithOptBinaryContext,
+  TypeDatetimePrecisionContext
+]
+
+// the types of the columns created for expressions (e.g. `COUNT(*)`), by their TypeScript type
+const expressionSqlTypes: { [tsType: string]: SqlDataType } = {
+  string: SqlDataType.VARCHAR,
+  number: SqlDataType.DECIMAL,
+  date: SqlDataType.DATETIME
+}
+
+/** Gets the column created for a column of the SELECT of a `CREATE TABLE ... AS SELECT` statement */
+function getQueryColumn(column: ResultColumn): BuilderColumn {
+  return {
+    name: column.name,
+    sqlType: (column.sqlType as SqlDataType | null) || expressionSqlTypes[column.tsType || ''] || SqlDataType.LONGTEXT,
+    optional: column.nullable,
+    default: null,
+    length: null,
+    values: null,
+    unsigned: false,
+    autoIncrement: false,
+    generated: false
+  }
+}
+
+function getQualifiedName(ctx: TableRefContext | TableNameContext): QualifiedName {
+  const qualifiedIdentifier = ctx.qualifiedIdentifier()
+  if (qualifiedIdentifier) {
+    const first = unquote(qualifiedIdentifier.identifier().text)
+    const dotIdentifier = qualifiedIdentifier.dotIdentifier()
+    if (dotIdentifier) {
+      return { database: first, name: unquote(dotIdentifier.identifier().text) }
+    }
+    return { database: null, name: first }
+  }
+
+  return { database: null, name: unquote(ctx.dotIdentifier()?.identifier().text) }
+}
+
+function getSqlType(ctx: DataTypeContext): SqlDataType {
+  const words: string[] = []
+  for (let i = 0; i < ctx.childCount; i++) {
+    const child = ctx.getChild(i)
+    if (child instanceof NcharContext) {
+      words.push('NCHAR')
+    } else if (!dataTypeOptionContexts.some(type => child instanceof type)) {
+      words.push(child.text.toUpperCase())
+    }
+  }
+
+  const [first] = words
+  switch (first) {
+    case 'INT':
+    case 'INTEGER':
+      return SqlDataType.INT
+    case 'BOOL':
+    case 'BOOLEAN':
+      return SqlDataType.TINYINT
+    case 'REAL':
+      return SqlDataType.DOUBLE
+    case 'NUMERIC':
+    case 'FIXED':
+      return SqlDataType.DECIMAL
+    case 'SERIAL':
+      return SqlDataType.BIGINT
+    case 'NCHAR':
+    case 'NATIONAL':
+    case 'CHAR':
+      return words.includes('VARYING') || words.includes('VARCHAR') ? SqlDataType.VARCHAR : SqlDataType.CHAR
+    case 'NVARCHAR':
+      return SqlDataType.VARCHAR
+    case 'LONG':
+      return words.includes('VARBINARY') ? SqlDataType.MEDIUMBLOB : SqlDataType.MEDIUMTEXT
+    case 'POINT':
+    case 'LINESTRING':
+    case 'POLYGON':
+    case 'MULTIPOINT':
+    case 'MULTILINESTRING':
+    case 'MULTIPOLYGON':
+    case 'GEOMETRYCOLLECTION':
+      return SqlDataType.GEOMETRY
+  }
+
+  return first.toLowerCase() as SqlDataType
+}
+
+/** Gets the length of a string type, which is 1 for CHAR and BINARY without one */
+function getLength(ctx: DataTypeContext, sqlType: SqlDataType): number | null {
+  const length = ctx.fieldLength()?.text.replace(/[()]/g, '')
+  if (length) {
+    return parseInt(length, 10)
+  }
+  return sqlType === SqlDataType.CHAR || sqlType === SqlDataType.BINARY ? 1 : null
+}
+
+/** Gets the columns of the key of an index, leaving out functional key parts */
+export function getKeyColumns(ctx: KeyListVariantsContext | undefined): string[] {
+  const keyList = ctx?.keyList()
+  if (keyList) {
+    return keyList.keyPart().map(part => unquote(part.identifier().text))
+  }
+
+  // functional key parts (e.g. `(LOWER(name))`) do not index a column directly
+  const keyListWithExpression = ctx?.keyListWithExpression()
+  if (keyListWithExpression) {
+    return keyListWithExpression
+      .keyPartOrExpression()
+      .map(part => part.keyPart())
+      .filter(part => part !== undefined)
+      .map(part => unquote(part?.identifier().text))
+  }
+
+  return []
+}
+
+function getDefault(literal: string | undefined, expression: string): string | null {
+  // e.g. DEFAULT CURRENT_TIMESTAMP or DEFAULT (expression)
+  if (literal === undefined) {
+    return expression
+  }
+
+  const upper = literal.toUpperCase()
+  if (upper === 'NULL') {
+    return null
+  } else if (upper === 'TRUE') {
+    return '1'
+  } else if (upper === 'FALSE') {
+    return '0'
+  }
+
+  return unquote(literal)
+}
+
+function getBuilderColumn(name: string, ctx: FieldDefinitionContext): BuilderColumn {
+  const dataType = ctx.dataType()
+  const sqlType = getSqlType(dataType)
+  const isSerial = dataType.SERIAL_SYMBOL() !== undefined
+
+  const stringList = dataType.stringList()
+  const column: BuilderColumn = {
+    name,
+    sqlType,
+    optional: !isSerial,
+    default: null,
+    length: getLength(dataType, sqlType),
+    values: stringList ? stringList.textString().map(value => unquote(value.text)) : null,
+    unsigned: isSerial || (dataType.fieldOptions()?.UNSIGNED_SYMBOL() || []).length > 0,
+    autoIncrement: isSerial,
+    generated: ctx.AS_SYMBOL() !== undefined
+  }
+
+  for (const attribute of ctx.columnAttribute()) {
+    if (attribute.nullLiteral()) {
+      column.optional = !attribute.NOT_SYMBOL()
+    } else if (attribute.AUTO_INCREMENT_SYMBOL()) {
+      column.autoIncrement = true
+    } else if (attribute.DEFAULT_SYMBOL() && !attribute.SERIAL_SYMBOL()) {
+      column.default = getDefault(attribute.signedLiteral()?.text, attribute.text.replace(/^DEFAULT/i, ''))
+    }
+  }
+
+  for (const attribute of ctx.gcolAttribute()) {
+    if (attribute.NULL_SYMBOL()) {
+      column.optional = !attribute.notRule()
+    }
+  }
+
+  return column
+}
+
+/**
+ * Gets the column defined by a column definition (e.g. `VARCHAR(255) NOT NULL` in
+ * `ALTER TABLE users ADD email VARCHAR(255) NOT NULL`), without the indexes it creates.
+ */
+export function getColumnDefinition(name: string, ctx: FieldDefinitionContext): DetailedSchemaColumn {
+  const { sqlType, ...column } = getBuilderColumn(name, ctx)
+  return { ...column, sqlType, tsType: sqlTypeToTsType(sqlType), index: null }
+}
+
+function getIdentifier(ctx: IdentifierContext | undefined): string {
+  return unquote(ctx?.text)
+}
+
+function findColumnIndex(table: BuilderTable, columnName: string): number {
+  return table.columns.findIndex(c => c.name.toLowerCase() === columnName.toLowerCase())
+}
+
+/** Gets the `COLUMN_KEY` of a column the way MySQL reports it in `information_schema.columns` */
+function getColumnKey(table: BuilderTable, column: BuilderColumn): SchemaIndexKey | null {
+  const isColumn = (name: string): boolean => name.toLowerCase() === column.name.toLowerCase()
+  const primary = table.indexes.find(i => i.key === 'primary')
+
+  if (primary?.columns.some(isColumn)) {
+    return 'primary'
+  }
+
+  // a unique index of non-null columns is reported as the primary key if the table has none
+  if (!primary) {
+    const promoted = table.indexes.find(i => {
+      return (
+        i.key === 'unique' &&
+        i.columns.every(name => {
+          const columnIndex = findColumnIndex(table, name)
+          return columnIndex !== -1 && !table.columns[columnIndex].optional
+        })
+      )
+    })
+    if (promoted?.columns.some(isColumn)) {
+      return 'primary'
+    }
+  }
+
+  const leading = table.indexes.filter(i => isColumn(i.columns[0] || ''))
+  if (leading.some(i => i.key === 'unique' && i.columns.length === 1)) {
+    return 'unique'
+  }
+  if (leading.length > 0) {
+    return 'nonunique'
+  }
+
+  return null
+}
+
+/** Converts a table of a schema, whose details may be unknown (e.g. when read from a live database) */
+function toBuilderTable(schemaTable: SchemaTable): BuilderTable {
+  return {
+    name: schemaTable.name,
+    columns: schemaTable.columns.map(column => {
+      const { length, values, unsigned, autoIncrement, generated } = getColumnDetails(column)
+      return {
+        name: column.name,
+        sqlType: column.sqlType as SqlDataType,
+        optional: column.optional,
+        default: column.default,
+        length: length ?? null,
+        values: values ? [...values] : null,
+        unsigned: unsigned ?? false,
+        // without the details of its definition, an integer primary key is most likely AUTO_INCREMENT
+        autoIncrement: autoIncrement ?? (column.index === 'primary' && column.tsType === 'number'),
+        generated: generated ?? false
+      }
+    }),
+    indexes: getTableIndexes(schemaTable).map(index => ({ ...index, columns: [...index.columns] }))
+  }
+}
+
+/**
+ * Builds a schema from MySQL data definition statements (e.g. the contents of a
+ * `mysqldump --no-data` file) without connecting to a MySQL server.
+ */
+export class SchemaBuilder {
+  private readonly parser: MySQLParser
+  private readonly databases: Map<string, BuilderTable[]> = new Map()
+  private database: string
+
+  public constructor(options: SchemaBuilderOptions = {}) {
+    this.parser = new MySQLParser(options.parserOptions)
+    this.database = options.database || ''
+  }
+
+  /**
+   * Applies every statement of the given text to the schema.
+   *
+   * @throws if a statement can't be parsed, which would leave its changes out of the schema
+   */
+  public addDDL(text: string): this {
+    for (const statement of this.parser.splitStatements(text)) {
+      const result = this.parser.parse(statement.text)
+      const error = result.lexerError || result.parserError
+      if (error) {
+        const line = text.slice(0, statement.start).split('\n').length
+        const summary = statement.text.trim().split('\n')[0]
+        throw new Error(`DDL statement '${summary}' on line ${line} can't be parsed: ${error.message}.`)
+      }
+      this.applyStatement(result)
+    }
+    return this
+  }
+
+  /**
+   * Adds the tables of an existing schema (e.g. one read from a live database) to the given database,
+   * for statements to change. Tables the database already has are kept.
+   */
+  public addSchema(schema: Schema, database = schema.config.schema): this {
+    const tables = this.getTables(database)
+    for (const schemaTable of schema.tables) {
+      if (!tables.some(t => t.name === schemaTable.name)) {
+        tables.push(toBuilderTable(schemaTable))
+      }
+    }
+    return this
+  }
+
+  /**
+   * Applies a single parsed statement to the schema. Statements that do not
+   * define data (e.g. SELECT or INSERT) are ignored.
+   *
+   * @returns whether the statement changed the schema
+   */
+  public applyStatement(result: ParseResult): boolean {
+    const { tree } = result
+
+    const useCommand = findDescendant(tree, UseCommandContext)
+    if (useCommand) {
+      this.database = getIdentifier(useCommand.identifier())
+      return false
+    }
+
+    const createDatabase = findDescendant(tree, CreateDatabaseContext)
+    if (createDatabase) {
+      const name = getIdentifier(createDatabase.schemaName().identifier())
+      if (!this.databases.has(name)) {
+        this.databases.set(name, [])
+      }
+      return true
+    }
+
+    const dropDatabase = findDescendant(tree, DropDatabaseContext)
+    if (dropDatabase) {
+      return this.databases.delete(unquote(dropDatabase.schemaRef().text))
+    }
+
+    const createTable = findDescendant(tree, CreateTableContext)
+    if (createTable) {
+      return this.createTable(createTable, result)
+    }
+
+    const alterTable = findDescendant(tree, AlterTableContext)
+    if (alterTable) {
+      return this.alterTable(alterTable)
+    }
+
+    const dropTable = findDescendant(tree, DropTableContext)
+    if (dropTable) {
+      return dropTable
+        .tableRefList()
+        .tableRef()
+        .map(ref => this.dropTable(getQualifiedName(ref)))
+        .some(Boolean)
+    }
+
+    const renameTable = findDescendant(tree, RenameTableStatementContext)
+    if (renameTable) {
+      return renameTable
+        .renamePair()
+        .map(pair => this.renameTable(getQualifiedName(pair.tableRef()), getQualifiedName(pair.tableName())))
+        .some(Boolean)
+    }
+
+    const createIndex = findDescendant(tree, CreateIndexContext)
+    if (createIndex) {
+      const target = createIndex.createIndexTarget()
+      const table = target && this.getTable(getQualifiedName(target.tableRef()))
+      if (!target || !table) {
+        return false
+      }
+      const name = getIdentifier((createIndex.indexName() || createIndex.indexNameAndType()?.indexName())?.identifier())
+      const key = createIndex.UNIQUE_SYMBOL() ? 'unique' : 'nonunique'
+      this.addIndex(table, name, key, getKeyColumns(target.keyListVariants()))
+      return true
+    }
+
+    const dropIndex = findDescendant(tree, DropIndexContext)
+    if (dropIndex) {
+      const table = this.getTable(getQualifiedName(dropIndex.tableRef()))
+      return !!table && this.dropIndex(table, unquote(dropIndex.indexRef().text))
+    }
+
+    return false
+  }
+
+  /** Gets the schema of the given database, or the currently selected database */
+  public getSchema(database = this.database): Schema {
+    const tables = this.databases.get(database) || []
+
+    return {
+      config: {
+        schema: database,
+        username: '',
+        password: '',
+        scheme: '',
+        host: '',
+        port: ''
+      },
+      // information_schema lists tables by name, so the order matches a live schema
+      tables: [...tables]
+        .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))
+        .map(table => this.toSchemaTable(table))
+    }
+  }
+
+  /** Gets the schemas of every database, by database name */
+  public getSchemas(): Schemas {
+    const schemas: { [database: string]: Schema } = {}
+    for (const database of this.databases.keys()) {
+      schemas[database] = this.getSchema(database)
+    }
+    return schemas
+  }
+
+  private toSchemaTable(table: BuilderTable): IndexedSchemaTable {
+    return {
+      name: table.name,
+      columns: table.columns.map(column => ({
+        name: column.name,
+        sqlType: column.sqlType,
+        tsType: sqlTypeToTsType(column.sqlType),
+        optional: column.optional,
+        default: column.default,
+        index: getColumnKey(table, column),
+        length: column.length,
+        values: column.values && [...column.values],
+        unsigned: column.unsigned,
+        autoIncrement: column.autoIncrement,
+        generated: column.generated
+      })),
+      indexes: table.indexes.map(index => ({ ...index, columns: [...index.columns] }))
+    }
+  }
+
+  private getTables(database: string | null): BuilderTable[] {
+    const name = database || this.database
+    let tables = this.databases.get(name)
+    if (!tables) {
+      tables = []
+      this.databases.set(name, tables)
+    }
+    return tables
+  }
+
+  private getTable(name: QualifiedName): BuilderTable | null {
+    return this.getTables(name.database).find(t => t.name === name.name) || null
+  }
+
+  private createTable(ctx: CreateTableContext, result: ParseResult): boolean {
+    const name = getQualifiedName(ctx.tableName())
+    if (this.getTable(name)) {
+      return false
+    }
+
+    const table: BuilderTable = { name: name.name, columns: [], indexes: [] }
+
+    const likeTableRef = ctx.tableRef()
+    const likeTable = likeTableRef && this.getTable(getQualifiedName(likeTableRef))
+    if (likeTable) {
+      table.columns = likeTable.columns.map(column => ({ ...column }))
+      table.indexes = likeTable.indexes.map(index => ({ ...index, columns: [...index.columns] }))
+    }
+
+    const elementList = ctx.tableElementList()
+    if (elementList) {
+      this.addTableElements(table, elementList)
+    }
+
+    // the columns of the SELECT follow the columns the statement defines, which take precedence
+    if (ctx.duplicateAsQueryExpression()) {
+      for (const column of getResultColumns(result.inputStream.toString(), result, this.getSchema())) {
+        if (findColumnIndex(table, column.name) === -1) {
+          table.columns.push(getQueryColumn(column))
+        }
+      }
+    }
+
+    this.getTables(name.database).push(table)
+    return true
+  }
+
+  private addTableElements(table: BuilderTable, ctx: TableElementListContext): void {
+    for (const element of ctx.tableElement()) {
+      const columnDefinition = element.columnDefinition()
+      if (columnDefinition) {
+        this.addColumn(table, columnDefinition)
+      }
+      const constraint = element.tableConstraintDef()
+      if (constraint) {
+        this.addConstraint(table, constraint)
+      }
+    }
+  }
+
+  private addColumn(table: BuilderTable, ctx: ColumnDefinitionContext): void {
+    const name = unquote(ctx.columnName().text)
+    this.setColumn(table, name, name, ctx.fieldDefinition())
+  }
+
+  /** Adds or replaces the column given by `oldName` with the column definition */
+  private setColumn(
+    table: BuilderTable,
+    oldName: string,
+    name: string,
+    ctx: FieldDefinitionContext,
+    place?: PlaceContext
+  ): void {
+    const column = getBuilderColumn(name, ctx)
+
+    for (const attribute of ctx.columnAttribute()) {
+      if (attribute.PRIMARY_SYMBOL() || (attribute.KEY_SYMBOL() && !attribute.UNIQUE_SYMBOL())) {
+        this.addIndex(table, 'PRIMARY', 'primary', [name])
+      } else if (attribute.UNIQUE_SYMBOL()) {
+        this.addIndex(table, name, 'unique', [name])
+      }
+    }
+
+    for (const attribute of ctx.gcolAttribute()) {
+      if (attribute.PRIMARY_SYMBOL()) {
+        this.addIndex(table, 'PRIMARY', 'primary', [name])
+      } else if (attribute.UNIQUE_SYMBOL()) {
+        this.addIndex(table, name, 'unique', [name])
+      }
+    }
+
+    if (ctx.dataType().SERIAL_SYMBOL()) {
+      this.addIndex(table, name, 'unique', [name])
+    }
+
+    const existingIndex = findColumnIndex(table, oldName)
+    if (existingIndex !== -1) {
+      table.columns.splice(existingIndex, 1)
+      this.renameIndexColumn(table, oldName, name)
+    }
+
+    let position = existingIndex !== -1 ? existingIndex : table.columns.length
+    if (place?.FIRST_SYMBOL()) {
+      position = 0
+    } else if (place?.AFTER_SYMBOL()) {
+      const afterIndex = findColumnIndex(table, getIdentifier(place.identifier()))
+      if (afterIndex !== -1) {
+        position = afterIndex + 1
+      }
+    }
+    table.columns.splice(position, 0, column)
+
+    // columns of a primary key are implicitly NOT NULL
+    if (table.indexes.some(i => i.key === 'primary' && i.columns.includes(name))) {
+      column.optional = false
+    }
+  }
+
+  private addConstraint(table: BuilderTable, ctx: TableConstraintDefContext): void {
+    // foreign keys and check constraints do not create indexes of their own here
+    if (ctx.FOREIGN_SYMBOL() || ctx.checkConstraint()) {
+      return
+    }
+
+    const columns = getKeyColumns(ctx.keyListVariants())
+
+    if (ctx.PRIMARY_SYMBOL()) {
+      this.addIndex(table, 'PRIMARY', 'primary', columns)
+      for (const column of table.columns) {
+        if (columns.some(name => name.toLowerCase() === column.name.toLowerCase())) {
+          column.optional = false
+        }
+      }
+      return
+    }
+
+    const name = getIdentifier((ctx.indexName() || ctx.indexNameAndType()?.indexName())?.identifier())
+    const key = ctx.UNIQUE_SYMBOL() ? 'unique' : 'nonunique'
+    this.addIndex(table, name, key, columns)
+  }
+
+  private addIndex(table: BuilderTable, name: string, key: SchemaIndexKey, columns: string[]): void {
+    if (!columns.length) {
+      return
+    }
+
+    if (key === 'primary') {
+      table.indexes = table.indexes.filter(i => i.key !== 'primary')
+      table.indexes.unshift({ name: 'PRIMARY', key, columns })
+      return
+    }
+
+    // unnamed indexes are named after their first column, with a suffix if that name is taken
+    let indexName = name || columns[0]
+    for (let suffix = 2; table.indexes.some(i => i.name === indexName); suffix++) {
+      indexName = `${name || columns[0]}_${suffix}`
+    }
+
+    table.indexes.push({ name: indexName, key, columns })
+  }
+
+  private dropIndex(table: BuilderTable, name: string): boolean {
+    const count = table.indexes.length
+    table.indexes = table.indexes.filter(i => i.name.toLowerCase() !== name.toLowerCase())
+    return table.indexes.length !== count
+  }
+
+  private renameIndexColumn(table: BuilderTable, oldName: string, name: string): void {
+    for (const index of table.indexes) {
+      index.columns = index.columns.map(column => (column.toLowerCase() === oldName.toLowerCase() ? name : column))
+    }
+  }
+
+  private dropColumn(table: BuilderTable, name: string): void {
+    const columnIndex = findColumnIndex(table, name)
+    if (columnIndex === -1) {
+      return
+    }
+
+    table.columns.splice(columnIndex, 1)
+    for (const index of table.indexes) {
+      index.columns = index.columns.filter(column => column.toLowerCase() !== name.toLowerCase())
+    }
+    table.indexes = table.indexes.filter(i => i.columns.length > 0)
+  }
+
+  private alterTable(ctx: AlterTableContext): boolean {
+    const name = getQualifiedName(ctx.tableRef())
+    const table = this.getTable(name)
+    if (!table) {
+      return false
+    }
+
+    const items =
+      ctx
+        .alterTableActions()
+        ?.alterCommandList()
+        ?.alterList()
+        ?.alterListItem() || []
+    for (const item of items) {
+      this.applyAlterListItem(table, name, item)
+    }
+
+    return items.length > 0
+  }
+
+  private applyAlterListItem(table: BuilderTable, name: QualifiedName, ctx: AlterListItemContext): void {
+    const columnRef = ctx.columnInternalRef()
+    const fieldDefinition = ctx.fieldDefinition()
+
+    // foreign keys are not tracked by the schema
+    if (ctx.FOREIGN_SYMBOL()) {
+      return
+    }
+
+    if (ctx.ADD_SYMBOL()) {
+      const elementList = ctx.tableElementList()
+      const constraint = ctx.tableConstraintDef()
+      if (elementList) {
+        this.addTableElements(table, elementList)
+      } else if (constraint) {
+        this.addConstraint(table, constraint)
+      } else if (fieldDefinition) {
+        const columnName = getIdentifier(ctx.identifier())
+        this.setColumn(table, columnName, columnName, fieldDefinition, ctx.place())
+      }
+    } else if (ctx.CHANGE_SYMBOL() && columnRef && fieldDefinition) {
+      const oldName = getIdentifier(columnRef.identifier())
+      this.setColumn(table, oldName, getIdentifier(ctx.identifier()), fieldDefinition, ctx.place())
+    } else if (ctx.MODIFY_SYMBOL() && columnRef && fieldDefinition) {
+      const columnName = getIdentifier(columnRef.identifier())
+      this.setColumn(table, columnName, columnName, fieldDefinition, ctx.place())
+    } else if (ctx.DROP_SYMBOL() && ctx.ALTER_SYMBOL() && columnRef) {
+      const column = table.columns[findColumnIndex(table, getIdentifier(columnRef.identifier()))]
+      if (column) {
+        column.default = null
+      }
+    } else if (ctx.DROP_SYMBOL() && ctx.PRIMARY_SYMBOL()) {
+      table.indexes = table.indexes.filter(i => i.key !== 'primary')
+    } else if (ctx.DROP_SYMBOL() && ctx.indexRef()) {
+      this.dropIndex(table, unquote(ctx.indexRef()?.text))
+    } else if (ctx.DROP_SYMBOL() && columnRef) {
+      this.dropColumn(table, getIdentifier(columnRef.identifier()))
+    } else if (ctx.ALTER_SYMBOL() && ctx.SET_SYMBOL() && columnRef) {
+      const column = table.columns[findColumnIndex(table, getIdentifier(columnRef.identifier()))]
+      if (column) {
+        column.default = getDefault(ctx.signedLiteral()?.text, ctx.exprWithParentheses()?.text || '')
+      }
+    } else if (ctx.RENAME_SYMBOL() && ctx.indexRef() && ctx.indexName()) {
+      const index = table.indexes.find(i => i.name.toLowerCase() === unquote(ctx.indexRef()?.text).toLowerCase())
+      if (index) {
+        index.name = getIdentifier(ctx.indexName()?.identifier())
+      }
+    } else if (ctx.RENAME_SYMBOL() && columnRef && ctx.identifier()) {
+      const column = table.columns[findColumnIndex(table, getIdentifier(columnRef.identifier()))]
+      if (column) {
+        this.renameIndexColumn(table, column.name, getIdentifier(ctx.identifier()))
+        column.name = getIdentifier(ctx.identifier())
+      }
+    } else if (ctx.RENAME_SYMBOL() && ctx.tableName()) {
+      const tableName = ctx.tableName()
+      if (tableName) {
+        this.renameTable(name, getQualifiedName(tableName))
+      }
+    }
+  }
+
+  private dropTable(name: QualifiedName): boolean {
+    const tables = this.getTables(name.database)
+    const index = tables.findIndex(t => t.name === name.name)
+    if (index === -1) {
+      return false
+    }
+
+    tables.splice(index, 1)
+    return true
+  }
+
+  private renameTable(from: QualifiedName, to: QualifiedName): boolean {
+    const table = this.getTable(from)
+    if (!table) {
+      return false
+    }
+
+    this.dropTable(from)
+    table.name = to.name
+    this.getTables(to.database || from.database).push(table)
+    return true
+  }
+}
+
+/** Builds the schema described by the given MySQL data definition statements */
+export function getSchemaFromDDL(ddl: string, options: SchemaBuilderOptions = {}): Schema {
+  return new SchemaBuilder(options).addDDL(ddl).getSchema(options.database)
+}
+
+/** Builds the schema described by the MySQL data definition statements in the given file */
+export async function getSchemaFromDDLFile(path: string, options: SchemaBuilderOptions = {}): Promise<Schema> {
+  const ddl = await fs.readFile(path, 'utf8')
+  return getSchemaFromDDL(ddl, options)
+}
@@ -0,0 +1,527 @@
+import {
+  ParseResult,
+  unquote,
+  QuerySpecificationContext,
+  QueryExpressionContext,
+  UpdateStatementContext,
+  DeleteStatementContext,
+  InsertStatementContext,
+  ReplaceStatementContext,
+  WithClauseContext,
+  CommonTableExpressionContext,
+  DerivedTableContext,
+  SingleTableContext,
+  TableRefContext,
+  InsertQueryExpressionContext,
+  JoinedTableContext,
+  ColumnRefContext,
+  ColumnInternalRefListContext,
+  OrderClauseContext,
+  GroupByClauseContext,
+  HavingClauseContext,
+  TableWildContext
+} from 'ts-mysql-parser'
+import { Schema, SchemaTable, SchemaColumn } from 'ts-mysql-schema'
+import { ParseTree, findDescendants, findDescendant, findAncestor } from './parse-tree'
+import { getTables } from './write-statements'
+import { splitTableName, getQualifiedTableName, getSchemaTableName, findSchemaTable } from './databases'
+
+/** Represents a column a table of a scope provides */
+export interface ScopeColumn {
+  /** The name of the column */
+  readonly name: string
+  /** The column in the schema the column is, or is selected from, or null for expressions */
+  readonly schemaColumn: SchemaColumn | null
+}
+
+/** Represents a table of a scope: a table of the schema, a common table expression, or a derived table */
+export interface ScopeTable {
+  /** The name the table is referred to by in the statement: its alias, or its name */
+  readonly name: string
+  /** The kind of table */
+  readonly kind: 'table' | 'cte' | 'derived'
+  /**
+   * The name of the table, qualified with its database if it is in the statement (e.g. `otherdb.orders`),
+   * or the name of the common table expression, or null for a derived table
+   */
+  readonly table: string | null
+  /** The table in the schema, or null if it does not exist or is not a table of the schema */
+  readonly schemaTable: SchemaTable | null
+  /** The columns of the table, or null if they are unknown (e.g. the table does not exist) */
+  readonly columns: ScopeColumn[] | null
+  /** The reference to the table in the statement, or null for a derived table */
+  readonly tableRef: TableRefContext | null
+}
+
+/** Represents a level of a statement that has tables of its own, such as each SELECT of a query */
+export interface Scope {
+  /** The node of the scope: a query specification, or an UPDATE, DELETE, INSERT or REPLACE statement */
+  readonly node: ParseTree
+  /** The scope the scope is nested in, whose tables it can refer to (e.g. for a correlated subquery) */
+  readonly parent: Scope | null
+  /** The tables of the scope, in the order they are listed */
+  readonly tables: ScopeTable[]
+}
+
+/** Represents a column reference resolved against the scopes of a statement */
+export interface ResolvedColumnRef {
+  /** The column reference */
+  readonly columnRef: ColumnRefContext
+  /** The name of the column */
+  readonly name: string
+  /** The table the column is qualified with (e.g. `u` in `u.id`), or null if it is not qualified */
+  readonly qualifier: string | null
+  /** The starting position of the name of the column */
+  readonly start: number
+  /** The stopping position of the name of the column */
+  readonly stop: number
+  /**
+   * The table the column belongs to. If the column was not found, it is the table it was looked up
+   * in, and null when that is unknown (e.g. the qualifier is not a table of any scope).
+   */
+  readonly table: ScopeTable | null
+  /** The column, or null if it was not found. Columns that refer to select aliases have no table */
+  readonly column: ScopeColumn | null
+  /** The tables that have an unqualified column, when there is more than one */
+  readonly candidates: ScopeTable[]
+}
+
+/** Represents a qualifier of a column (e.g. `zz` in `zz.id` or `zz.*`) that is not a table its scope can refer to */
+export interface UnknownQualifier {
+  /** The qualifier */
+  readonly name: string
+  /** The starting position of the qualifier */
+  readonly start: number
+  /** The stopping position of the qualifier */
+  readonly stop: number
+  /** The tables the scope of the qualifier can refer to, from the innermost scope out */
+  readonly tables: ScopeTable[]
+  /** The table the qualifier is the name of, if it is referred to by an alias instead */
+  readonly aliasedTable: ScopeTable | null
+}
+
+/** Represents the result of resolving the names of a statement */
+export interface ResolvedScopes {
+  /** The scopes of the statement, in the order they appear */
+  readonly scopes: Scope[]
+  /** The tables of every scope, in the order they appear */
+  readonly tables: ScopeTable[]
+  /** The column references of the statement, in the order they appear */
+  readonly columnRefs: ResolvedColumnRef[]
+  /** The qualifiers of columns and of `*` that are not tables their scopes can refer to, in the order they appear */
+  readonly unknownQualifiers: UnknownQualifier[]
+}
+
+type ScopeNode =
+  | QuerySpecificationContext
+  | UpdateStatementContext
+  | DeleteStatementContext
+  | InsertStatementContext
+  | ReplaceStatementContext
+
+function isScopeNode(node: ParseTree): node is ScopeNode {
+  return (
+    node instanceof QuerySpecificationContext ||
+    node instanceof UpdateStatementContext ||
+    node instanceof DeleteStatementContext ||
+    node instanceof InsertStatementContext ||
+    node instanceof ReplaceStatementContext
+  )
+}
+
+function isWithin(node: ParseTree, ancestor: ParseTree): boolean {
+  for (let parent = node.parent; parent; parent = parent.parent) {
+    if (parent === ancestor) {
+      return true
+    }
+  }
+  return false
+}
+
+function isSameName(a: string, b: string): boolean {
+  // column names are case-insensitive
+  return a.toLowerCase() === b.toLowerCase()
+}
+
+/** Gets the first query of a query expression, e.g. the first SELECT of a UNION, ignoring its WITH clause */
+function getFirstQuery(node: ParseTree): QuerySpecificationContext | null {
+  const queries = findDescendants(node, QuerySpecificationContext)
+  return (
+    queries.find(query => {
+      const withClause = findAncestor(query, WithClauseContext)
+      return !withClause || !isWithin(withClause, node)
+    }) || null
+  )
+}
+
+function getColumnList(list: ColumnInternalRefListContext | undefined): string[] | null {
+  return list ? list.columnInternalRef().map(ref => unquote(ref.text)) : null
+}
+
+/** Resolves the tables and columns of a statement, level by level */
+class ScopeResolver {
+  private readonly scopes = new Map<ParseTree, Scope>()
+  private readonly commonTables = new Map<string, CommonTableExpressionContext>()
+  private readonly commonTableColumns = new Map<CommonTableExpressionContext, ScopeColumn[] | null>()
+  private readonly projections = new Map<QuerySpecificationContext, ScopeColumn[] | null>()
+
+  public constructor(private readonly result: ParseResult, private readonly schema: Schema) {
+    for (const cte of findDescendants(result.tree, CommonTableExpressionContext)) {
+      this.commonTables.set(unquote(cte.identifier().text), cte)
+    }
+  }
+
+  public resolve(): ResolvedScopes {
+    const scopes = this.getScopeNodes(this.result.tree).map(node => this.getScope(node))
+    const tables = scopes.reduce<ScopeTable[]>((all, scope) => all.concat(scope.tables), [])
+
+    const columnRefs = findDescendants(this.result.tree, ColumnRefContext)
+      .map(columnRef => this.resolveColumnRef(columnRef))
+      .filter((resolved): resolved is ResolvedColumnRef => resolved !== null)
+
+    const unknownQualifiers: UnknownQualifier[] = []
+    for (const { columnRef, qualifier, start, table } of columnRefs) {
+      const scope = this.getNodeScope(columnRef)
+      if (scope && qualifier !== null && !table) {
+        // the qualifier ends before the dot before the name of the column
+        const parts = columnRef.text.split('.')
+        const stop = start - 2
+        unknownQualifiers.push(
+          this.getUnknownQualifier(scope, qualifier, stop - parts[parts.length - 2].length + 1, stop)
+        )
+      }
+    }
+    for (const tableWild of findDescendants(this.result.tree, TableWildContext)) {
+      const scope = this.getNodeScope(tableWild)
+      const identifiers = tableWild.identifier()
+      const identifier = identifiers[identifiers.length - 1]
+      const name = unquote(identifier.text)
+      const database = identifiers.length > 1 ? unquote(identifiers[0].text) : null
+      if (scope && !this.findQualifiedTable(scope, name, database)) {
+        const { start, stop } = identifier
+        unknownQualifiers.push(this.getUnknownQualifier(scope, name, start.startIndex, (stop || start).stopIndex))
+      }
+    }
+    unknownQualifiers.sort((a, b) => a.start - b.start)
+
+    return { scopes, tables, columnRefs, unknownQualifiers }
+  }
+
+  private getScopeNodes(tree: ParseTree): ScopeNode[] {
+    const nodes: ScopeNode[] = []
+    for (let i = 0; i < tree.childCount; i++) {
+      const child = tree.getChild(i)
+      if (isScopeNode(child)) {
+        nodes.push(child)
+      }
+      nodes.push(...this.getScopeNodes(child))
+    }
+    return nodes
+  }
+
+  private getScope(node: ScopeNode): Scope {
+    const existing = this.scopes.get(node)
+    if (existing) {
+      return existing
+    }
+
+    // the scope is stored before its tables are resolved, since derived tables look up their parents
+    const scope: { node: ScopeNode; parent: Scope | null; tables: ScopeTable[] } = {
+      node,
+      parent: this.getParentScope(node),
+      tables: []
+    }
+    this.scopes.set(node, scope)
+    scope.tables = this.getScopeTables(node)
+    return scope
+  }
+
+  /**
+   * Gets the scope a scope can refer to the tables of. Derived tables can't refer to the query they
+   * are part of, and common table expressions and the queries of INSERT ... SELECT can't refer to
+   * the statement they are part of.
+   */
+  private getParentScope(node: ScopeNode): Scope | null {
+    let derived = false
+    for (let parent = node.parent; parent; parent = parent.parent) {
+      if (parent instanceof CommonTableExpressionContext || parent instanceof InsertQueryExpressionContext) {
+        return null
+      }
+      if (parent instanceof DerivedTableContext) {
+        derived = true
+      } else if (isScopeNode(parent)) {
+        return derived ? this.getParentScope(parent) : this.getScope(parent)
+      }
+    }
+    return null
+  }
+
+  /** Gets the scope a node is part of */
+  private getNodeScope(node: ParseTree): Scope | null {
+    for (let parent = node.parent; parent; parent = parent.parent) {
+      if (isScopeNode(parent)) {
+        return this.getScope(parent)
+      }
+      // ORDER BY and LIMIT of a query belong to its first SELECT
+      if (parent instanceof QueryExpressionContext) {
+        const query = getFirstQuery(parent)
+        return query ? this.getScope(query) : null
+      }
+    }
+    return null
+  }
+
+  private getScopeTables(node: ScopeNode): ScopeTable[] {
+    if (node instanceof InsertStatementContext || node instanceof ReplaceStatementContext) {
+      return [this.getTable(node.tableRef(), null)]
+    }
+
+    if (node instanceof DeleteStatementContext) {
+      const tableRef = node.tableRef()
+      const alias = node.tableAlias()
+      if (tableRef) {
+        return [this.getTable(tableRef, alias ? unquote(alias.identifier().text) : null)]
+      }
+    }
+
+    const tableReferenceList =
+      node instanceof QuerySpecificationContext ? node.fromClause()?.tableReferenceList() : node.tableReferenceList()
+    if (!tableReferenceList) {
+      return []
+    }
+
+    return getTables(tableReferenceList).map(({ name, node: tableNode }) => {
+      if (tableNode instanceof SingleTableContext) {
+        const alias = tableNode.tableAlias()
+        return this.getTable(tableNode.tableRef(), alias ? name : null)
+      }
+
+      const query = getFirstQuery(tableNode.subquery())
+      const columnList = getColumnList(tableNode.columnInternalRefList())
+      return {
+        name,
+        kind: 'derived',
+        table: null,
+        schemaTable: null,
+        columns: this.renameColumns(query ? this.getProjection(query) : null, columnList),
+        tableRef: null
+      }
+    })
+  }
+
+  private getTable(tableRef: TableRefContext, alias: string | null): ScopeTable {
+    const { database, name: tableName } = splitTableName(tableRef.text)
+    const name = alias || tableName
+
+    const cte = database === null ? this.commonTables.get(tableName) : undefined
+    if (cte) {
+      const columns = this.getCommonTableColumns(cte)
+      return { name, kind: 'cte', table: tableName, schemaTable: null, columns, tableRef }
+    }
+
+    const table = getQualifiedTableName(tableRef.text)
+    const schemaTable = findSchemaTable(this.schema, table)
+    const columns = schemaTable
+      ? schemaTable.columns.map(column => ({ name: column.name, schemaColumn: column }))
+      : null
+    return { name, kind: 'table', table, schemaTable, columns, tableRef }
+  }
+
+  private getCommonTableColumns(cte: CommonTableExpressionContext): ScopeColumn[] | null {
+    if (this.commonTableColumns.has(cte)) {
+      return this.commonTableColumns.get(cte) || null
+    }
+
+    // a recursive common table expression refers to itself before its columns are known
+    this.commonTableColumns.set(cte, null)
+    const query = getFirstQuery(cte.subquery())
+    const columns = this.renameColumns(
+      query ? this.getProjection(query) : null,
+      getColumnList(cte.columnInternalRefList())
+    )
+    this.commonTableColumns.set(cte, columns)
+    return columns
+  }
+
+  private renameColumns(columns: ScopeColumn[] | null, names: string[] | null): ScopeColumn[] | null {
+    if (!names) {
+      return columns
+    }
+    return names.map((name, index) => ({ name, schemaColumn: columns?.[index]?.schemaColumn || null }))
+  }
+
+  /** Gets the columns a query selects, or null if they are unknown */
+  private getProjection(query: QuerySpecificationContext): ScopeColumn[] | null {
+    if (this.projections.has(query)) {
+      return this.projections.get(query) || null
+    }
+    this.projections.set(query, null)
+
+    const { tables } = this.getScope(query)
+    const selectItemList = query.selectItemList()
+    let columns: ScopeColumn[] | null = []
+
+    if (selectItemList.MULT_OPERATOR()) {
+      for (const table of tables) {
+        columns = columns && table.columns ? columns.concat(table.columns) : null
+      }
+    }
+
+    for (const item of selectItemList.selectItem()) {
+      const tableWild = item.tableWild()
+      const expr = item.expr()
+      const selectAlias = item.selectAlias()
+      const alias = selectAlias ? unquote((selectAlias.identifier() || selectAlias.textStringLiteral())?.text) : null
+
+      if (tableWild) {
+        const parts = tableWild.identifier().map(identifier => unquote(identifier.text))
+        const table = tables.find(t => t.name === parts[parts.length - 1])
+        columns = columns && table?.columns ? columns.concat(table.columns) : null
+      } else if (expr && columns) {
+        const columnRef = findDescendant(expr, ColumnRefContext)
+        const resolved = columnRef && columnRef.text === expr.text ? this.resolveColumnRef(columnRef) : null
+        const name = alias || (resolved ? resolved.name : expr.text)
+        columns.push({ name, schemaColumn: resolved?.column?.schemaColumn || null })
+      }
+    }
+
+    this.projections.set(query, columns)
+    return columns
+  }
+
+  /** Checks whether a column reference is in a clause that can refer to select aliases (e.g. ORDER BY) */
+  private canReferToAlias(columnRef: ColumnRefContext): boolean {
+    return (
+      findAncestor(columnRef, OrderClauseContext) !== null ||
+      findAncestor(columnRef, GroupByClauseContext) !== null ||
+      findAncestor(columnRef, HavingClauseContext) !== null
+    )
+  }
+
+  /** Gets the names of the columns joined with USING or NATURAL, which are not ambiguous */
+  private getJoinedColumnNames(scope: Scope): { names: Set<string>; natural: boolean } {
+    const names = new Set<string>()
+    let natural = false
+    for (const join of findDescendants(scope.node, JoinedTableContext)) {
+      // joins of nested queries belong to their own scopes
+      if (this.getNodeScope(join) !== scope) {
+        continue
+      }
+      natural = natural || !!join.naturalJoinType()
+      for (const identifier of join
+        .identifierListWithParentheses()
+        ?.identifierList()
+        .identifier() || []) {
+        names.add(unquote(identifier.text).toLowerCase())
+      }
+    }
+    return { names, natural }
+  }
+
+  /**
+   * Finds the table a qualifier refers to in a scope or the scopes it is nested in. A qualifier with
+   * a database (e.g. `otherdb.orders` in `otherdb.orders.id`) refers to a table of that database.
+   */
+  private findQualifiedTable(scope: Scope, qualifier: string, database: string | null): ScopeTable | null {
+    const schemaTableName = getSchemaTableName(this.schema, { database, name: qualifier })
+    const isQualifier = (table: ScopeTable): boolean =>
+      table.name === qualifier &&
+      (database === null ||
+        (!!table.table && getSchemaTableName(this.schema, splitTableName(table.table)) === schemaTableName))
+
+    for (let current: Scope | null = scope; current; current = current.parent) {
+      const table = current.tables.find(isQualifier)
+      if (table) {
+        return table
+      }
+    }
+    return null
+  }
+
+  private getUnknownQualifier(scope: Scope, name: string, start: number, stop: number): UnknownQualifier {
+    const tables: ScopeTable[] = []
+    for (let current: Scope | null = scope; current; current = current.parent) {
+      tables.push(...current.tables)
+    }
+    // a table with an alias can't be referred to by its name
+    const aliasedTable =
+      tables.find(table => table.kind === 'table' && !!table.table && splitTableName(table.table).name === name) || null
+    return { name, start, stop, tables, aliasedTable }
+  }
+
+  private resolveColumnRef(columnRef: ColumnRefContext): ResolvedColumnRef | null {
+    const scope = this.getNodeScope(columnRef)
+    if (!scope) {
+      return null
+    }
+
+    const parts = columnRef.text.split('.')
+    const name = unquote(parts[parts.length - 1])
+    const qualifier = parts.length > 1 ? unquote(parts[parts.length - 2]) : null
+    const database = parts.length > 2 ? unquote(parts[parts.length - 3]) : null
+    const stop = columnRef.stop?.stopIndex || columnRef.start.startIndex
+    const start = stop - parts[parts.length - 1].length + 1
+    const resolved = { columnRef, name, qualifier, start, stop, candidates: [] }
+
+    const findColumn = (table: ScopeTable): ScopeColumn | null =>
+      table.columns?.find(column => isSameName(column.name, name)) || null
+
+    if (qualifier) {
+      const table = this.findQualifiedTable(scope, qualifier, database)
+      return { ...resolved, table, column: table && findColumn(table) }
+    }
+
+    // ORDER BY, GROUP BY and HAVING refer to the columns of the result before those of the tables
+    const query = scope.node instanceof QuerySpecificationContext ? scope.node : null
+    const projection = query && this.canReferToAlias(columnRef) ? this.getProjection(query) : null
+    const aliased = projection?.find(column => isSameName(column.name, name))
+    if (aliased) {
+      return { ...resolved, table: null, column: aliased }
+    }
+
+    for (let current: Scope | null = scope; current; current = current.parent) {
+      const candidates = current.tables.filter(table => findColumn(table))
+      if (candidates.length > 0) {
+        const joined = this.getJoinedColumnNames(current)
+        const isAmbiguous = candidates.length > 1 && !joined.natural && !joined.names.has(name.toLowerCase())
+        const [table] = candidates
+        return { ...resolved, table, column: findColumn(table), candidates: isAmbiguous ? candidates : [] }
+      }
+      // a column may belong to a table whose columns are unknown
+      if (current.tables.some(table => table.columns === null)) {
+        return { ...resolved, table: null, column: null }
+      }
+    }
+
+    return { ...resolved, table: scope.tables[0] || null, column: null }
+  }
+}
+
+/**
+ * Resolves the tables and columns of a statement the way MySQL does. Each SELECT has its own tables
+ * and aliases and can refer to those of the queries it is nested in. Derived tables and common
+ * table expressions provide the columns they select, and unqualified columns are looked up in
+ * every table of their scope.
+ *
+ * @param result - the result of parsing the statement
+ * @param schema - the schema to resolve tables and columns against
+ */
+export function resolveScopes(result: ParseResult, schema: Schema): ResolvedScopes {
+  return new ScopeResolver(result, schema).resolve()
+}
+
+/**
+ * Finds the innermost scope at a position of a statement, whose tables (and those of its parents)
+ * can be referred to there.
+ */
+export function findScope(resolved: ResolvedScopes, offset: number): Scope | null {
+  let found: Scope | null = null
+  for (const scope of resolved.scopes) {
+    const { start, stop } = scope.node as ScopeNode
+    // scopes are listed outer first, so a later scope at the position is nested in an earlier one
+    if (start.startIndex <= offset && offset <= (stop ? stop.stopIndex + 1 : Infinity)) {
+      found = scope
+    }
+  }
+  return found
+}
@@ -0,0 +1,108 @@
+import { skipQuotedOrComment } from './placeholders'
+import { getLineStarts, getLineAndColumn } from './position'
+
+/** Represents a range of a text in which the diagnostics of some rules are not reported */
+export interface Suppression {
+  /** The starting position of the range in the text */
+  readonly start: number
+  /** The stopping position of the range in the text */
+  readonly stop: number
+  /** The names (e.g. `missing-index`) or codes (e.g. `1007`) of the rules, or empty for every rule */
+  readonly rules: string[]
+}
+
+const directivePattern = /^\s*mysql-analyzer-(disable-next-line|disable-line|disable|enable)(?=\s|$)([\s\S]*)$/
+
+/** Gets the text of a comment without its delimiters */
+function getCommentBody(comment: string): string {
+  if (comment.startsWith('/*')) {
+    return comment.slice(2, comment.endsWith('*/') ? -2 : undefined)
+  }
+  return comment.slice(comment.startsWith('#') ? 1 : 2)
+}
+
+/** Gets the range of a 1-based line, including its line break */
+function getLineRange(text: string, lineStarts: number[], line: number): { start: number; stop: number } {
+  const start = lineStarts[line - 1]
+  const stop = line < lineStarts.length ? lineStarts[line] - 1 : text.length
+  return { start, stop }
+}
+
+/**
+ * Finds the ranges of a text of MySQL queries where comment directives disable rules:
+ * - `-- mysql-analyzer-disable-next-line [rules]` disables rules on the next line
+ * - `-- mysql-analyzer-disable-line [rules]` disables rules on the line of the comment
+ * - `-- mysql-analyzer-disable [rules]` disables rules until `-- mysql-analyzer-enable [rules]` or the end of the text
+ *
+ * The rules are names or diagnostic codes, separated by spaces or commas. Without any, every rule is disabled.
+ */
+export function findSuppressions(text: string): Suppression[] {
+  const suppressions: Suppression[] = []
+  const lineStarts = getLineStarts(text)
+  // the start of each open disable block, by rule, where '' is every rule
+  const blocks = new Map<string, number>()
+
+  let i = 0
+  while (i < text.length) {
+    const next = skipQuotedOrComment(text, i)
+    if (next === i) {
+      i++
+      continue
+    }
+
+    const match =
+      /^(#|--|\/\*)/.test(text.slice(i, i + 2)) && directivePattern.exec(getCommentBody(text.slice(i, next)))
+    if (match) {
+      const [, directive, list] = match
+      const rules = list.split(/[\s,]+/).filter(Boolean)
+      const { line: startLine } = getLineAndColumn(lineStarts, i)
+      const { line: stopLine } = getLineAndColumn(lineStarts, next - 1)
+
+      if (directive === 'disable-line') {
+        suppressions.push({ ...getLineRange(text, lineStarts, startLine), rules })
+      } else if (directive === 'disable-next-line') {
+        if (stopLine < lineStarts.length) {
+          suppressions.push({ ...getLineRange(text, lineStarts, stopLine + 1), rules })
+        }
+      } else if (directive === 'disable') {
+        for (const rule of rules.length ? rules : ['']) {
+          if (!blocks.has(rule)) {
+            blocks.set(rule, next)
+          }
+        }
+      } else {
+        for (const rule of rules.length ? rules : Array.from(blocks.keys())) {
+          const start = blocks.get(rule)
+          if (start !== undefined) {
+            suppressions.push({ start, stop: i - 1, rules: rule ? [rule] : [] })
+            blocks.delete(rule)
+          }
+        }
+      }
+    }
+    i = next
+  }
+
+  for (const [rule, start] of blocks) {
+    suppressions.push({ start, stop: text.length, rules: rule ? [rule] : [] })
+  }
+
+  return suppressions
+}
+
+/**
+ * Checks whether a diagnostic of a rule is suppressed.
+ *
+ * @param suppressions - the suppressions of the text, as returned by `findSuppressions`
+ * @param rule - the name of the rule
+ * @param code - the code of the diagnostic
+ * @param offset - the starting position of the diagnostic in the text
+ */
+export function isSuppressed(suppressions: Suppression[], rule: string, code: number, offset: number): boolean {
+  return suppressions.some(
+    suppression =>
+      offset >= suppression.start &&
+      offset <= suppression.stop &&
+      (suppression.rules.length === 0 || suppression.rules.includes(rule) || suppression.rules.includes(String(code)))
+  )
+}
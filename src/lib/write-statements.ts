@@ -0,0 +1,155 @@
+import {
+  ParseResult,
+  unquote,
+  UpdateStatementContext,
+  DeleteStatementContext,
+  TableReferenceListContext,
+  TableReferenceContext,
+  TableFactorContext,
+  SingleTableContext,
+  DerivedTableContext,
+  WhereClauseContext,
+  ColumnRefContext,
+  SubqueryContext
+} from 'ts-mysql-parser'
+import { ParseTree, findDescendants, findDescendant } from './parse-tree'
+import { splitTableName, getQualifiedTableName } from './databases'
+
+/** Represents an UPDATE or DELETE statement */
+export interface WriteStatement {
+  /** The kind of statement */
+  readonly keyword: 'UPDATE' | 'DELETE'
+  /** The tables the statement reads from, or null for a single-table DELETE */
+  readonly tableReferenceList: TableReferenceListContext | null
+  /** The name of the table written to by a single-table statement, or null for a multi-table statement */
+  readonly table: string | null
+  /** The WHERE clause, if any */
+  readonly whereClause: WhereClauseContext | null
+  /** Whether the statement has a LIMIT clause */
+  readonly limited: boolean
+}
+
+/** Represents a table joined in a multi-table statement */
+export interface JoinedTable {
+  /** The name the table is referred to by in the statement: its alias, or its name */
+  readonly name: string
+  /** The name of the table, qualified with its database if it is in the statement, or null for a derived table */
+  readonly table: string | null
+  /** The node of the table in the FROM clause */
+  readonly node: SingleTableContext | DerivedTableContext
+}
+
+/** Checks whether a node is part of a subquery below the given node */
+function isInSubquery(node: ParseTree, tree: ParseTree): boolean {
+  for (let parent = node.parent; parent && parent !== tree; parent = parent.parent) {
+    if (parent instanceof SubqueryContext) {
+      return true
+    }
+  }
+  return false
+}
+
+/** Gets the tables of a FROM clause, ignoring those of subqueries */
+export function getTables(tree: ParseTree): JoinedTable[] {
+  const tables: JoinedTable[] = []
+  for (const node of [...findDescendants(tree, SingleTableContext), ...findDescendants(tree, DerivedTableContext)]) {
+    if (isInSubquery(node, tree)) {
+      continue
+    }
+    const alias = node.tableAlias()
+    const tableRef = node instanceof SingleTableContext ? node.tableRef().text : null
+    const name = alias ? unquote(alias.identifier().text) : tableRef ? splitTableName(tableRef).name : ''
+    tables.push({ name, table: tableRef && getQualifiedTableName(tableRef), node })
+  }
+  return tables.sort((a, b) => a.node.start.startIndex - b.node.start.startIndex)
+}
+
+/** Gets the UPDATE or DELETE statement of a parse result, or null if the statement is neither */
+export function getWriteStatement(result: ParseResult): WriteStatement | null {
+  const update = findDescendant(result.tree, UpdateStatementContext)
+  if (update) {
+    const tableReferenceList = update.tableReferenceList()
+    const tables = getTables(tableReferenceList)
+    return {
+      keyword: 'UPDATE',
+      tableReferenceList,
+      table: tables.length === 1 ? tables[0].name : null,
+      whereClause: update.whereClause() || null,
+      limited: !!update.simpleLimitClause()
+    }
+  }
+
+  const del = findDescendant(result.tree, DeleteStatementContext)
+  if (del) {
+    const tableRef = del.tableRef()
+    return {
+      keyword: 'DELETE',
+      tableReferenceList: del.tableReferenceList() || null,
+      table: tableRef ? splitTableName(tableRef.text).name : null,
+      whereClause: del.whereClause() || null,
+      limited: !!del.simpleLimitClause()
+    }
+  }
+
+  return null
+}
+
+/** Checks whether a single-table statement changes every row of its table: it has neither a WHERE clause nor a LIMIT */
+export function changesEveryRow(statement: WriteStatement): boolean {
+  // multi-table statements can't have a LIMIT, and are filtered by their joins
+  return statement.table !== null && !statement.whereClause && !statement.limited
+}
+
+/** Gets the first table factor of a table reference (e.g. `users` in `users JOIN posts ON ...`) */
+function getFirstTableFactor(reference: TableReferenceContext): TableFactorContext | undefined {
+  return reference.tableFactor() || reference.escapedTableReference()?.tableFactor()
+}
+
+/** Gets the tables a table reference joins without an ON, USING or NATURAL condition, after its first table */
+function getUnconditionedJoins(reference: TableReferenceContext): JoinedTable[] {
+  const escaped = reference.escapedTableReference()
+  let tables: JoinedTable[] = []
+  for (const join of escaped ? escaped.joinedTable() : reference.joinedTable()) {
+    const joinedReference = join.tableReference()
+    const factor = joinedReference ? getFirstTableFactor(joinedReference) : join.tableFactor()
+    if (factor && !join.expr() && !join.USING_SYMBOL() && !join.naturalJoinType()) {
+      tables = tables.concat(getTables(factor))
+    }
+    if (joinedReference) {
+      tables = tables.concat(getUnconditionedJoins(joinedReference))
+    }
+  }
+  return tables
+}
+
+/**
+ * Gets the tables of a multi-table statement that are combined with the others without any
+ * condition: tables listed after the first that are neither joined with ON, USING or NATURAL, nor
+ * referred to by a qualified column (e.g. `p.user_id`) in the WHERE clause.
+ */
+export function getUnconditionedTables(statement: WriteStatement): JoinedTable[] {
+  const { tableReferenceList, whereClause } = statement
+  if (!tableReferenceList) {
+    return []
+  }
+
+  const references = tableReferenceList.tableReference()
+  let candidates: JoinedTable[] = []
+  references.forEach((reference, index) => {
+    // a table listed after a comma is not joined by any condition, unlike the first table
+    const first = getFirstTableFactor(reference)
+    if (index > 0 && first) {
+      candidates = candidates.concat(getTables(first))
+    }
+    candidates = candidates.concat(getUnconditionedJoins(reference))
+  })
+
+  const qualifiers = new Set(
+    (whereClause ? findDescendants(whereClause, ColumnRefContext) : [])
+      .map(columnRef => columnRef.text.split('.').map(part => unquote(part)))
+      .filter(parts => parts.length > 1)
+      .map(parts => parts[parts.length - 2])
+  )
+
+  return candidates.filter(table => !qualifiers.has(table.name))
+}
@@ -0,0 +1,143 @@
+import ts from 'typescript/lib/tsserverlibrary'
+import path from 'path'
+import { Schema } from 'ts-mysql-schema'
+import { MySQLAnalyzer } from './'
+import { MySQLAnalyzerDiagnostic, DiagnosticSeverity } from './diagnostic'
+import { MySQLAnalyzerRulesConfig } from './rules'
+import { QueryExtractorOptions } from './lib/extract-queries'
+import { loadSchema } from './lib/load-schema'
+
+/** Represents the plugin entry in `compilerOptions.plugins` */
+interface PluginConfig extends QueryExtractorOptions {
+  /** The schema to check queries against: a mysql:// URI, a .json schema snapshot or a DDL file */
+  readonly schema?: string
+  /** The configuration of rules by name */
+  readonly rules?: MySQLAnalyzerRulesConfig
+}
+
+// analyzer codes are offset so they don't collide with TypeScript's own error codes
+const errorCodeOffset = 90000
+
+// schemas are loaded once and shared by every project that uses the same source
+const schemas = new Map<string, Promise<Schema>>()
+
+function getSchema(source: string): Promise<Schema> {
+  let schema = schemas.get(source)
+  if (!schema) {
+    schema = loadSchema(source)
+    schemas.set(source, schema)
+    // a failed load is retried the next time a project asks for it
+    schema.catch(() => schemas.delete(source))
+  }
+  return schema
+}
+
+function getSchemaSource(config: PluginConfig, project: ts.server.Project): string | undefined {
+  if (!config.schema || /^mysqlx?:\/\//i.test(config.schema)) {
+    return config.schema
+  }
+  return path.resolve(project.getCurrentDirectory(), config.schema)
+}
+
+function getCategory(typescript: typeof ts, severity: DiagnosticSeverity): ts.DiagnosticCategory {
+  switch (severity) {
+    case DiagnosticSeverity.Error:
+      return typescript.DiagnosticCategory.Error
+    case DiagnosticSeverity.Warning:
+      return typescript.DiagnosticCategory.Warning
+    case DiagnosticSeverity.Suggestion:
+      return typescript.DiagnosticCategory.Suggestion
+  }
+}
+
+function toDiagnostic(
+  typescript: typeof ts,
+  sourceFile: ts.SourceFile,
+  diagnostic: MySQLAnalyzerDiagnostic
+): ts.DiagnosticWithLocation {
+  return {
+    file: sourceFile,
+    start: diagnostic.start,
+    length: Math.max(diagnostic.stop - diagnostic.start + 1, 0),
+    messageText: diagnostic.message,
+    category: getCategory(typescript, diagnostic.severity),
+    code: errorCodeOffset + diagnostic.code,
+    source: 'mysql-analyzer'
+  }
+}
+
+/**
+ * Creates the TypeScript language service plugin. The plugin reports the diagnostics of the SQL queries
+ * embedded in open files, e.g. in `tsconfig.json`:
+ *
+ * ```json
+ * { "compilerOptions": { "plugins": [{ "name": "ts-mysql-analyzer/plugin", "schema": "schema.sql" }] } }
+ * ```
+ */
+function init(modules: { typescript: typeof ts }): ts.server.PluginModule {
+  const typescript = modules.typescript
+
+  function create(info: ts.server.PluginCreateInfo): ts.LanguageService {
+    const config: PluginConfig = info.config || {}
+    const logger = info.project.projectService.logger
+    const languageService = info.languageService
+
+    let analyzer: MySQLAnalyzer
+    try {
+      analyzer = new MySQLAnalyzer({ rules: config.rules })
+    } catch (error) {
+      logger.info(`ts-mysql-analyzer: ${(error as Error).message}`)
+      return languageService
+    }
+
+    // diagnostics are cached per version of a file, and cleared when the schema is loaded
+    let cache = new WeakMap<ts.SourceFile, ts.DiagnosticWithLocation[]>()
+
+    const schemaSource = getSchemaSource(config, info.project)
+    if (schemaSource) {
+      getSchema(schemaSource)
+        .then(schema => {
+          analyzer = new MySQLAnalyzer({ schema, rules: config.rules })
+          cache = new WeakMap()
+          info.project.refreshDiagnostics()
+        })
+        .catch(error => logger.info(`ts-mysql-analyzer: Failed to load schema '${schemaSource}': ${error.message}`))
+    }
+
+    function getDiagnostics(fileName: string): ts.DiagnosticWithLocation[] {
+      const sourceFile = languageService.getProgram()?.getSourceFile(fileName)
+      if (!sourceFile) {
+        return []
+      }
+
+      let diagnostics = cache.get(sourceFile)
+      if (!diagnostics) {
+        diagnostics = analyzer
+          .analyzeSourceFile(fileName, sourceFile.text, config)
+          .map(diagnostic => toDiagnostic(typescript, sourceFile, diagnostic))
+        cache.set(sourceFile, diagnostics)
+      }
+      return diagnostics
+    }
+
+    return {
+      ...languageService,
+      getSemanticDiagnostics(fileName): ts.Diagnostic[] {
+        const diagnostics = getDiagnostics(fileName).filter(
+          d => d.category !== typescript.DiagnosticCategory.Suggestion
+        )
+        return languageService.getSemanticDiagnostics(fileName).concat(diagnostics)
+      },
+      getSuggestionDiagnostics(fileName): ts.DiagnosticWithLocation[] {
+        const diagnostics = getDiagnostics(fileName).filter(
+          d => d.category === typescript.DiagnosticCategory.Suggestion
+        )
+        return languageService.getSuggestionDiagnostics(fileName).concat(diagnostics)
+      }
+    }
+  }
+
+  return { create }
+}
+
+export = init
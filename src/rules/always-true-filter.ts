@@ -0,0 +1,25 @@
+import { MySQLAnalyzerRule } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+import { getWriteStatement } from '../lib/write-statements'
+import { isAlwaysTrue } from '../lib/constant-conditions'
+
+export const alwaysTrueFilterRule: MySQLAnalyzerRule = {
+  name: 'always-true-filter',
+  severity: DiagnosticSeverity.Warning,
+  check({ result }) {
+    const write = getWriteStatement(result)
+    const expr = write?.whereClause?.expr()
+    if (!write || !expr || !isAlwaysTrue(expr)) {
+      return []
+    }
+
+    return [
+      {
+        message: `WHERE clause is always true, so the ${write.keyword} applies to every row.`,
+        start: expr.start.startIndex,
+        stop: expr.stop?.stopIndex || expr.start.startIndex,
+        code: DiagnosticCode.AlwaysTrueFilter
+      }
+    ]
+  }
+}
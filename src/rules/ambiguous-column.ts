@@ -0,0 +1,27 @@
+import { MySQLAnalyzerRule } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+import { resolveScopes } from '../lib/scopes'
+
+export const ambiguousColumnRule: MySQLAnalyzerRule = {
+  name: 'ambiguous-column',
+  severity: DiagnosticSeverity.Warning,
+  check({ result, parser, schema }) {
+    if (!schema || parser.isDDL(result)) {
+      return []
+    }
+
+    return resolveScopes(result, schema)
+      .columnRefs.filter(({ candidates }) => candidates.length > 1)
+      .map(({ name, candidates, start, stop }) => {
+        const tables = candidates.map(table => `'${table.name}'`)
+        return {
+          message: `Column '${name}' is ambiguous, since it exists in tables ${tables.slice(0, -1).join(', ')} and ${
+            tables[tables.length - 1]
+          }. Qualify it with the name of its table.`,
+          start,
+          stop,
+          code: DiagnosticCode.AmbiguousColumn
+        }
+      })
+  }
+}
@@ -0,0 +1,38 @@
+import { MySQLAnalyzerRule, MySQLAnalyzerRuleDiagnostic } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+import { checkExpressions } from '../lib/expression-types'
+
+function formatArgumentCount(minArgs: number, maxArgs: number): string {
+  const noun = minArgs === 1 && (maxArgs === 1 || maxArgs === Infinity) ? 'argument' : 'arguments'
+  if (maxArgs === Infinity) {
+    return `at least ${minArgs} ${noun}`
+  }
+  return minArgs === maxArgs ? `${minArgs} ${noun}` : `${minArgs} to ${maxArgs} ${noun}`
+}
+
+export const argumentCountRule: MySQLAnalyzerRule = {
+  name: 'argument-count',
+  severity: DiagnosticSeverity.Error,
+  check({ result, parser, schema }) {
+    const diagnostics: MySQLAnalyzerRuleDiagnostic[] = []
+
+    if (parser.isDDL(result)) {
+      return diagnostics
+    }
+
+    for (const error of checkExpressions(result, schema)) {
+      if (error.kind === 'argument-count') {
+        diagnostics.push({
+          message: `Expected ${formatArgumentCount(error.minArgs, error.maxArgs)} for ${error.name}, but got ${
+            error.count
+          }.`,
+          start: error.start,
+          stop: error.stop,
+          code: DiagnosticCode.ArgumentCountMismatch
+        })
+      }
+    }
+
+    return diagnostics
+  }
+}
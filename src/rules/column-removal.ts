@@ -0,0 +1,37 @@
+import { MySQLAnalyzerRule, MySQLAnalyzerRuleDiagnostic } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+import { getTableMigration } from '../lib/migrations'
+
+export const columnRemovalRule: MySQLAnalyzerRule = {
+  name: 'column-removal',
+  severity: DiagnosticSeverity.Warning,
+  check({ result, parser, schema }) {
+    const diagnostics: MySQLAnalyzerRuleDiagnostic[] = []
+
+    const migration = schema && parser.isDDL(result) ? getTableMigration(result, schema) : null
+    if (!migration) {
+      return diagnostics
+    }
+
+    for (const change of migration.changes) {
+      const { start, stop } = change
+      if (change.kind === 'drop-column') {
+        diagnostics.push({
+          message: `Dropping column '${change.column.name}' deletes its data and breaks queries that still use it.`,
+          start,
+          stop,
+          code: DiagnosticCode.DroppedColumn
+        })
+      } else if (change.kind === 'rename-column') {
+        diagnostics.push({
+          message: `Renaming column '${change.column.name}' to '${change.name}' breaks queries that still use '${change.column.name}'.`,
+          start,
+          stop,
+          code: DiagnosticCode.RenamedColumn
+        })
+      }
+    }
+
+    return diagnostics
+  }
+}
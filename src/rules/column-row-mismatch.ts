@@ -0,0 +1,77 @@
+import { SchemaTable } from 'ts-mysql-schema'
+import { MySQLAnalyzerRule, MySQLAnalyzerRuleDiagnostic } from './'
+import { DiagnosticSeverity, DiagnosticCode, MySQLAnalyzerFix } from '../diagnostic'
+import { getInsertSource, InsertSource } from '../lib/assignments'
+import { getSelectedColumns } from '../lib/insert-query'
+import { findSchemaTable } from '../lib/databases'
+
+/** Suggests adding a column list to an INSERT without one, when every row has a value for each column of the table */
+function getColumnListFix(source: InsertSource, schemaTable: SchemaTable): MySQLAnalyzerFix[] {
+  const { tableRef, rows } = source
+  if (!rows.length || rows.some(row => row.values.length !== schemaTable.columns.length)) {
+    return []
+  }
+
+  const columnList = schemaTable.columns.map(c => c.name).join(', ')
+  const stop = (tableRef.stop || tableRef.start).stopIndex
+  return [
+    {
+      message: `Add the column list (${columnList}).`,
+      edits: [{ start: stop + 1, stop: stop + 1, text: ` (${columnList})` }]
+    }
+  ]
+}
+
+export const columnRowMismatchRule: MySQLAnalyzerRule = {
+  name: 'column-row-mismatch',
+  severity: DiagnosticSeverity.Warning,
+  check({ statement, result, parser, schema }) {
+    const diagnostics: MySQLAnalyzerRuleDiagnostic[] = []
+
+    const source = parser.isDDL(result) ? null : getInsertSource(result)
+    if (!source) {
+      return diagnostics
+    }
+
+    // without a column list, every column of the table must be given a value
+    const schemaTable = schema && findSchemaTable(schema, source.table)
+    const columnCount = source.columns ? source.columns.length : schemaTable?.columns.length
+    if (columnCount === undefined) {
+      return diagnostics
+    }
+
+    const fixes = !source.columns && schemaTable ? getColumnListFix(source, schemaTable) : []
+    if (fixes.length) {
+      diagnostics.push({
+        message: 'Column list is missing, so the values depend on the order of the columns of the table.',
+        start: source.tableRef.start.startIndex,
+        stop: (source.tableRef.stop || source.tableRef.start).stopIndex,
+        code: DiagnosticCode.ColumnRowMismatch,
+        fixes
+      })
+    }
+
+    for (const { values, start, stop } of source.rows) {
+      if (values.length !== columnCount) {
+        diagnostics.push({
+          message: 'Column count does not match row count.',
+          start,
+          stop,
+          code: DiagnosticCode.ColumnRowMismatch
+        })
+      }
+    }
+
+    const selectedColumns = getSelectedColumns(statement.text, result, source, schema)
+    if (source.query && selectedColumns && selectedColumns.length !== columnCount) {
+      diagnostics.push({
+        message: `Column count does not match the number of selected columns (${columnCount} and ${selectedColumns.length}).`,
+        start: source.query.start.startIndex,
+        stop: source.query.stop?.stopIndex || source.query.start.startIndex,
+        code: DiagnosticCode.ColumnRowMismatch
+      })
+    }
+
+    return diagnostics
+  }
+}
@@ -0,0 +1,59 @@
+import { MySQLAnalyzerRule } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+import { getTableMigration } from '../lib/migrations'
+import { getTableIndexes } from '../lib/get-table-indexes'
+import { SchemaIndex } from '../lib/schema-builder'
+
+/**
+ * Finds an index that makes the given one unnecessary: one with the same columns, or, unless the
+ * index is unique, one that starts with its columns
+ */
+function findCoveringIndex(indexes: SchemaIndex[], index: SchemaIndex): SchemaIndex | null {
+  const isSameColumn = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase()
+  return (
+    indexes.find(other => {
+      const startsWithColumns = index.columns.every((column, i) => isSameColumn(column, other.columns[i] || ''))
+      const sameColumns = startsWithColumns && other.columns.length === index.columns.length
+      return sameColumns
+        ? index.key === 'nonunique' || other.key !== 'nonunique'
+        : startsWithColumns && index.key === 'nonunique'
+    }) || null
+  )
+}
+
+export const duplicateIndexRule: MySQLAnalyzerRule = {
+  name: 'duplicate-index',
+  severity: DiagnosticSeverity.Warning,
+  check({ result, parser, schema }) {
+    const migration = schema && parser.isDDL(result) ? getTableMigration(result, schema) : null
+    if (!migration) {
+      return []
+    }
+
+    // indexes added by the same statement are compared with each other too
+    const indexes = [...getTableIndexes(migration.table)]
+    return migration.changes.flatMap(change => {
+      if (change.kind !== 'add-index' || change.index.columns.length === 0) {
+        return []
+      }
+
+      const coveringIndex = findCoveringIndex(indexes, change.index)
+      indexes.push(change.index)
+      if (!coveringIndex) {
+        return []
+      }
+
+      const columns = change.index.columns.join(', ')
+      return [
+        {
+          message: `An index on (${columns}) is redundant with index '${
+            coveringIndex.name
+          }' (${coveringIndex.columns.join(', ')}).`,
+          start: change.start,
+          stop: change.stop,
+          code: DiagnosticCode.DuplicateIndex
+        }
+      ]
+    })
+  }
+}
@@ -0,0 +1,21 @@
+import { MySQLAnalyzerRule } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+
+export const emptyQueryRule: MySQLAnalyzerRule = {
+  name: 'empty-query',
+  severity: DiagnosticSeverity.Error,
+  check({ statement }) {
+    if (statement.text !== '') {
+      return []
+    }
+
+    return [
+      {
+        message: 'MySQL query is empty.',
+        start: 0,
+        stop: 0,
+        code: DiagnosticCode.EmptyQuery
+      }
+    ]
+  }
+}
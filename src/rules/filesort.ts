@@ -0,0 +1,24 @@
+import { MySQLAnalyzerRule } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+import { adviseIndexes, formatColumnList } from '../lib/index-advisor'
+import { getIndexFix } from '../lib/fixes'
+
+export const filesortRule: MySQLAnalyzerRule = {
+  name: 'filesort',
+  severity: DiagnosticSeverity.Suggestion,
+  check({ result, parser, schema }) {
+    if (!schema || parser.isDDL(result)) {
+      return []
+    }
+
+    return adviseIndexes(result, schema).unindexedSorts.map(({ table, clause, columns, start, stop, index }) => ({
+      message: `${clause} ${formatColumnList(columns)} can't use an index of table '${table}', so the rows are ${
+        clause === 'ORDER BY' ? 'sorted with a filesort' : 'grouped in a temporary table'
+      }.`,
+      start,
+      stop,
+      code: DiagnosticCode.Filesort,
+      fixes: [getIndexFix(table, index)]
+    }))
+  }
+}
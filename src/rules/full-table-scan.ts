@@ -0,0 +1,26 @@
+import { MySQLAnalyzerRule } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+import { getExplainedTables } from '../lib/explain-plan'
+
+export const fullTableScanRule: MySQLAnalyzerRule = {
+  name: 'full-table-scan',
+  severity: DiagnosticSeverity.Warning,
+  check({ statement, result, explain }) {
+    if (!explain || result.parserError) {
+      return []
+    }
+
+    // tables with indexes MySQL could have used are reported by the unused-index rule
+    return getExplainedTables(statement.text, result, explain.plan)
+      .filter(
+        table =>
+          table.accessType === 'ALL' && (table.rowsExamined ?? 0) >= explain.rowsThreshold && !table.possibleKeys.length
+      )
+      .map(table => ({
+        message: `Table '${table.name}' is read in full (about ${table.rowsExamined} rows) because no index can be used.`,
+        start: table.start,
+        stop: table.stop,
+        code: DiagnosticCode.FullTableScan
+      }))
+  }
+}
@@ -0,0 +1,24 @@
+import { MySQLAnalyzerRule } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+import { getAssignments } from '../lib/assignments'
+import { getColumnDetails } from '../lib/column-values'
+
+export const generatedColumnWriteRule: MySQLAnalyzerRule = {
+  name: 'generated-column-write',
+  severity: DiagnosticSeverity.Warning,
+  check({ result, parser, schema }) {
+    if (!schema || parser.isDDL(result)) {
+      return []
+    }
+
+    // only DEFAULT can be written to a generated column, and it is not an assignment
+    return getAssignments(result, schema)
+      .filter(({ schemaColumn }) => getColumnDetails(schemaColumn).generated)
+      .map(({ schemaColumn, value }) => ({
+        message: `Column '${schemaColumn.name}' is generated, so a value can't be written to it.`,
+        start: value.start.startIndex,
+        stop: value.stop?.stopIndex || value.start.startIndex,
+        code: DiagnosticCode.GeneratedColumnWrite
+      }))
+  }
+}
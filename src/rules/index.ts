@@ -0,0 +1,182 @@
+import MySQLParser, { Statement, ParseResult, References } from 'ts-mysql-parser'
+import { Schema } from 'ts-mysql-schema'
+import { MySQLAnalyzerDiagnostic, DiagnosticSeverity } from '../diagnostic'
+import { emptyQueryRule } from './empty-query'
+import { lexerErrorRule } from './lexer-error'
+import { parserErrorRule } from './parser-error'
+import { columnRowMismatchRule } from './column-row-mismatch'
+import { parameterCountRule } from './parameter-count'
+import { missingDatabaseRule } from './missing-database'
+import { missingTableRule } from './missing-table'
+import { missingColumnRule } from './missing-column'
+import { ambiguousColumnRule } from './ambiguous-column'
+import { unknownQualifierRule } from './unknown-qualifier'
+import { typeMismatchRule } from './type-mismatch'
+import { invalidArgumentRule } from './invalid-argument'
+import { argumentCountRule } from './argument-count'
+import { missingRequiredColumnRule } from './missing-required-column'
+import { invalidEnumValueRule } from './invalid-enum-value'
+import { valueTooLongRule } from './value-too-long'
+import { valueOutOfRangeRule } from './value-out-of-range'
+import { generatedColumnWriteRule } from './generated-column-write'
+import { missingIndexRule } from './missing-index'
+import { filesortRule } from './filesort'
+import { nonSargablePredicateRule } from './non-sargable-predicate'
+import { unfilteredUpdateRule } from './unfiltered-update'
+import { unfilteredDeleteRule } from './unfiltered-delete'
+import { alwaysTrueFilterRule } from './always-true-filter'
+import { unconditionedJoinRule } from './unconditioned-join'
+import { columnRemovalRule } from './column-removal'
+import { requiredColumnAdditionRule } from './required-column-addition'
+import { typeNarrowingRule } from './type-narrowing'
+import { lastIndexDropRule } from './last-index-drop'
+import { duplicateIndexRule } from './duplicate-index'
+import { tableCopyRule } from './table-copy'
+import { fullTableScanRule } from './full-table-scan'
+import { plannedFilesortRule } from './planned-filesort'
+import { temporaryTableRule } from './temporary-table'
+import { largeRowsExaminedRule } from './large-rows-examined'
+import { unusedIndexRule } from './unused-index'
+import { ExplainPlan } from '../lib/explain-plan'
+
+/** Represents a placeholder of a prepared statement and the value bound to it */
+export interface MySQLAnalyzerParameter {
+  /** The name of a named placeholder (e.g. `id` for `:id`), or null for `?` */
+  readonly name: string | null
+  /** The position of the placeholder among the placeholders of the text that are bound by position, or by name */
+  readonly index: number
+  /** The starting position of the placeholder in the statement */
+  readonly start: number
+  /** The stopping position of the placeholder in the statement */
+  readonly stop: number
+  /** Whether a value is bound to the placeholder */
+  readonly bound: boolean
+  /** The value bound to the placeholder */
+  readonly value?: unknown
+}
+
+/** Represents the parameters bound to the placeholders of a statement */
+export interface MySQLAnalyzerParameters {
+  /** The placeholders of the statement */
+  readonly placeholders: MySQLAnalyzerParameter[]
+  /** The number of placeholders in the whole text that are bound by position, or by name */
+  readonly placeholderCount: number
+  /** Whether the values were bound by name, with an object, rather than by position, with an array */
+  readonly byName: boolean
+  /** The number of values that were bound */
+  readonly valueCount: number
+  /** The number of positional values left over after binding every placeholder. Only set on the last statement */
+  readonly unusedValueCount: number
+}
+
+/** Represents the EXPLAIN plan captured for a statement */
+export interface MySQLAnalyzerExplain {
+  /** The output of `EXPLAIN FORMAT=JSON` for the statement */
+  readonly plan: ExplainPlan
+  /** The estimated number of rows read from a table at which it is reported */
+  readonly rowsThreshold: number
+}
+
+/** Represents everything a rule can use to analyze a single statement */
+export interface MySQLAnalyzerRuleContext {
+  /** The statement being analyzed */
+  readonly statement: Statement
+  /** The result of parsing the statement */
+  readonly result: ParseResult
+  /** The references found in the statement (e.g. tables, columns, etc.) */
+  readonly references: References
+  /** The parser that parsed the statement */
+  readonly parser: MySQLParser
+  /**
+   * The schema that represents the structure of the current database, if one was provided. Tables of
+   * other databases are listed by qualified name (e.g. `otherdb.orders`)
+   */
+  readonly schema?: Schema
+  /** The names of the databases schemas were provided for, if any */
+  readonly databases?: string[]
+  /** The parameters bound to the placeholders of the statement, if any were provided */
+  readonly parameters?: MySQLAnalyzerParameters
+  /** The EXPLAIN plan of the statement, if one was provided */
+  readonly explain?: MySQLAnalyzerExplain
+}
+
+/**
+ * Represents a diagnostic reported by a rule. The severity, lines, columns, statement index and rule
+ * name are filled in by the analyzer, and the positions are relative to the start of the statement.
+ */
+export type MySQLAnalyzerRuleDiagnostic = Omit<
+  MySQLAnalyzerDiagnostic,
+  'severity' | 'startLine' | 'startColumn' | 'stopLine' | 'stopColumn' | 'statementIndex' | 'rule'
+>
+
+/** Represents a single check run against every statement */
+export interface MySQLAnalyzerRule {
+  /** The unique name of the rule, used to configure it (e.g. 'missing-index') */
+  readonly name: string
+  /** The severity of the diagnostics reported by the rule, unless configured otherwise */
+  readonly severity: DiagnosticSeverity
+  /** Analyzes a statement and returns the diagnostics found */
+  check(context: MySQLAnalyzerRuleContext): MySQLAnalyzerRuleDiagnostic[]
+}
+
+/** Represents the configuration of a rule: turned off, or on with the given severity */
+export type MySQLAnalyzerRuleSetting = 'off' | 'error' | 'warning' | 'suggestion'
+
+/** Represents the configuration of rules by name */
+export interface MySQLAnalyzerRulesConfig {
+  readonly [name: string]: MySQLAnalyzerRuleSetting
+}
+
+/** The rules that ship with the analyzer, in the order they run */
+export const builtinRules: MySQLAnalyzerRule[] = [
+  emptyQueryRule,
+  lexerErrorRule,
+  parserErrorRule,
+  columnRowMismatchRule,
+  parameterCountRule,
+  missingDatabaseRule,
+  missingTableRule,
+  missingColumnRule,
+  ambiguousColumnRule,
+  unknownQualifierRule,
+  typeMismatchRule,
+  invalidArgumentRule,
+  argumentCountRule,
+  missingRequiredColumnRule,
+  invalidEnumValueRule,
+  valueTooLongRule,
+  valueOutOfRangeRule,
+  generatedColumnWriteRule,
+  missingIndexRule,
+  filesortRule,
+  nonSargablePredicateRule,
+  unfilteredUpdateRule,
+  unfilteredDeleteRule,
+  alwaysTrueFilterRule,
+  unconditionedJoinRule,
+  columnRemovalRule,
+  requiredColumnAdditionRule,
+  typeNarrowingRule,
+  lastIndexDropRule,
+  duplicateIndexRule,
+  tableCopyRule,
+  fullTableScanRule,
+  plannedFilesortRule,
+  temporaryTableRule,
+  largeRowsExaminedRule,
+  unusedIndexRule
+]
+
+/** Gets the severity of a rule setting, or null if the rule is turned off */
+export function getRuleSeverity(setting: MySQLAnalyzerRuleSetting): DiagnosticSeverity | null {
+  switch (setting) {
+    case 'off':
+      return null
+    case 'error':
+      return DiagnosticSeverity.Error
+    case 'warning':
+      return DiagnosticSeverity.Warning
+    case 'suggestion':
+      return DiagnosticSeverity.Suggestion
+  }
+}
@@ -0,0 +1,28 @@
+import { MySQLAnalyzerRule, MySQLAnalyzerRuleDiagnostic } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+import { checkExpressions } from '../lib/expression-types'
+
+export const invalidArgumentRule: MySQLAnalyzerRule = {
+  name: 'invalid-argument',
+  severity: DiagnosticSeverity.Warning,
+  check({ result, parser, schema }) {
+    const diagnostics: MySQLAnalyzerRuleDiagnostic[] = []
+
+    if (parser.isDDL(result)) {
+      return diagnostics
+    }
+
+    for (const error of checkExpressions(result, schema)) {
+      if (error.kind === 'argument') {
+        diagnostics.push({
+          message: `Argument ${error.position} of ${error.name} must be of type ${error.parameterType}, but is of type ${error.type}.`,
+          start: error.start,
+          stop: error.stop,
+          code: DiagnosticCode.InvalidArgumentType
+        })
+      }
+    }
+
+    return diagnostics
+  }
+}
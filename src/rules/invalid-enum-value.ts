@@ -0,0 +1,33 @@
+import { MySQLAnalyzerRule, MySQLAnalyzerRuleDiagnostic } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+import { getInvalidColumnValues } from '../lib/column-values'
+
+export const invalidEnumValueRule: MySQLAnalyzerRule = {
+  name: 'invalid-enum-value',
+  severity: DiagnosticSeverity.Warning,
+  check({ result, parser, schema, parameters }) {
+    const diagnostics: MySQLAnalyzerRuleDiagnostic[] = []
+
+    if (!schema || parser.isDDL(result)) {
+      return diagnostics
+    }
+
+    for (const { schemaColumn, value, invalidValue, start, stop } of getInvalidColumnValues(
+      result,
+      schema,
+      parameters?.placeholders
+    )) {
+      if (invalidValue.kind === 'enum') {
+        const values = invalidValue.values.map(v => `'${v}'`).join(', ')
+        diagnostics.push({
+          message: `Value '${value.value}' is not allowed by column '${schemaColumn.name}' (${values}).`,
+          start,
+          stop,
+          code: DiagnosticCode.InvalidEnumValue
+        })
+      }
+    }
+
+    return diagnostics
+  }
+}
@@ -0,0 +1,25 @@
+import { MySQLAnalyzerRule } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+import { getExplainedTables } from '../lib/explain-plan'
+
+export const largeRowsExaminedRule: MySQLAnalyzerRule = {
+  name: 'large-rows-examined',
+  severity: DiagnosticSeverity.Warning,
+  check({ statement, result, explain }) {
+    if (!explain || result.parserError) {
+      return []
+    }
+
+    // tables read in full are reported by the full-table-scan and unused-index rules
+    return getExplainedTables(statement.text, result, explain.plan)
+      .filter(table => table.accessType !== 'ALL' && (table.rowsExamined ?? 0) >= explain.rowsThreshold)
+      .map(table => ({
+        message: `About ${table.rowsExamined} rows of table '${table.name}' are read${
+          table.key === null ? '' : ` with index '${table.key}'`
+        } for each lookup.`,
+        start: table.start,
+        stop: table.stop,
+        code: DiagnosticCode.LargeRowsExamined
+      }))
+  }
+}
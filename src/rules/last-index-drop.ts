@@ -0,0 +1,34 @@
+import { MySQLAnalyzerRule } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+import { getTableMigration } from '../lib/migrations'
+import { getTableIndexes } from '../lib/get-table-indexes'
+
+export const lastIndexDropRule: MySQLAnalyzerRule = {
+  name: 'last-index-drop',
+  severity: DiagnosticSeverity.Warning,
+  check({ result, parser, schema }) {
+    const migration = schema && parser.isDDL(result) ? getTableMigration(result, schema) : null
+    if (!migration) {
+      return []
+    }
+
+    const { table, changes } = migration
+    const drops = changes.filter(change => change.kind === 'drop-index')
+    const remaining = getTableIndexes(table).filter(index => {
+      return !drops.some(change => change.kind === 'drop-index' && change.index.name === index.name)
+    })
+    const lastDrop = drops[drops.length - 1]
+    if (!lastDrop || remaining.length > 0 || changes.some(change => change.kind === 'add-index')) {
+      return []
+    }
+
+    return [
+      {
+        message: `Dropping this index leaves table '${table.name}' without any index, so every query reads it in full.`,
+        start: lastDrop.start,
+        stop: lastDrop.stop,
+        code: DiagnosticCode.DroppedLastIndex
+      }
+    ]
+  }
+}
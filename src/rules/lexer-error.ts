@@ -0,0 +1,21 @@
+import { MySQLAnalyzerRule } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+
+export const lexerErrorRule: MySQLAnalyzerRule = {
+  name: 'lexer-error',
+  severity: DiagnosticSeverity.Error,
+  check({ statement, result }) {
+    if (!result.lexerError) {
+      return []
+    }
+
+    return [
+      {
+        message: result.lexerError.message,
+        start: 0,
+        stop: statement.text.length,
+        code: DiagnosticCode.LexerError
+      }
+    ]
+  }
+}
@@ -0,0 +1,44 @@
+import { MySQLAnalyzerRule, MySQLAnalyzerRuleDiagnostic } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+import { resolveScopes } from '../lib/scopes'
+import { getCorrection } from '../lib/autocorrect'
+import { getIdentifierFix } from '../lib/fixes'
+
+export const missingColumnRule: MySQLAnalyzerRule = {
+  name: 'missing-column',
+  severity: DiagnosticSeverity.Warning,
+  check({ statement, result, parser, schema }) {
+    const diagnostics: MySQLAnalyzerRuleDiagnostic[] = []
+
+    if (!schema || parser.isDDL(result)) {
+      return diagnostics
+    }
+
+    for (const { name: column, table, column: scopeColumn, start, stop } of resolveScopes(result, schema).columnRefs) {
+      // columns of tables that don't exist are not reported, since the table is
+      if (scopeColumn || !table || !table.columns) {
+        continue
+      }
+
+      const tableName = table.schemaTable ? table.schemaTable.name : table.name
+      const messageParts = [`Column '${column}' does not exist in table '${tableName}'.`]
+      const correction = getCorrection(
+        column.toLowerCase(),
+        table.columns.map(c => c.name)
+      )
+      if (correction) {
+        messageParts.push(` Did you mean '${correction}'?`)
+      }
+      const fixes = correction ? [getIdentifierFix(statement.text, start, stop, correction)] : []
+      diagnostics.push({
+        message: messageParts.join(''),
+        start,
+        stop,
+        code: DiagnosticCode.MissingColumn,
+        fixes
+      })
+    }
+
+    return diagnostics
+  }
+}
@@ -0,0 +1,51 @@
+import { UseCommandContext, unquote } from 'ts-mysql-parser'
+import { MySQLAnalyzerRule, MySQLAnalyzerRuleDiagnostic } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+import { getCorrection } from '../lib/autocorrect'
+import { getIdentifierFix } from '../lib/fixes'
+import { findDescendant } from '../lib/parse-tree'
+
+export const missingDatabaseRule: MySQLAnalyzerRule = {
+  name: 'missing-database',
+  severity: DiagnosticSeverity.Warning,
+  check({ statement, result, references, parser, databases }) {
+    const diagnostics: MySQLAnalyzerRuleDiagnostic[] = []
+
+    if (!databases || parser.isDDL(result)) {
+      return diagnostics
+    }
+
+    const databaseRefs = references.tableReferences.flatMap(({ schemaReference }) =>
+      schemaReference
+        ? [{ name: schemaReference.schema, start: schemaReference.start, stop: schemaReference.stop }]
+        : []
+    )
+    const identifier = findDescendant(result.tree, UseCommandContext)?.identifier()
+    if (identifier) {
+      const stop = identifier.stop?.stopIndex || identifier.start.startIndex
+      databaseRefs.push({ name: unquote(identifier.text), start: identifier.start.startIndex, stop })
+    }
+
+    for (const { name, start, stop } of databaseRefs) {
+      if (databases.includes(name)) {
+        continue
+      }
+
+      const messageParts = [`Database '${name}' does not exist.`]
+      const correction = getCorrection(name.toLowerCase(), databases)
+      if (correction) {
+        messageParts.push(` Did you mean '${correction}'?`)
+      }
+      const fixes = correction ? [getIdentifierFix(statement.text, start, stop, correction)] : []
+      diagnostics.push({
+        message: messageParts.join(''),
+        start,
+        stop,
+        code: DiagnosticCode.MissingDatabase,
+        fixes
+      })
+    }
+
+    return diagnostics
+  }
+}
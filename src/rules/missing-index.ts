@@ -0,0 +1,24 @@
+import { MySQLAnalyzerRule } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+import { adviseIndexes, formatColumnList } from '../lib/index-advisor'
+import { getIndexFix } from '../lib/fixes'
+
+export const missingIndexRule: MySQLAnalyzerRule = {
+  name: 'missing-index',
+  severity: DiagnosticSeverity.Suggestion,
+  check({ result, parser, schema }) {
+    if (!schema || parser.isDDL(result)) {
+      return []
+    }
+
+    return adviseIndexes(result, schema).fullTableScans.map(({ table, start, stop, index }) => ({
+      message: `You can optimize this query by adding a MySQL index for ${formatColumnList(
+        index
+      )}, since every row of table '${table}' is read without one.`,
+      start,
+      stop,
+      code: DiagnosticCode.MissingIndex,
+      fixes: [getIndexFix(table, index)]
+    }))
+  }
+}
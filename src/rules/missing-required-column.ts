@@ -0,0 +1,32 @@
+import { MySQLAnalyzerRule } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+import { getInsertedColumns } from '../lib/assignments'
+import { getColumnDetails } from '../lib/column-values'
+
+export const missingRequiredColumnRule: MySQLAnalyzerRule = {
+  name: 'missing-required-column',
+  severity: DiagnosticSeverity.Warning,
+  check({ result, parser, schema }) {
+    const inserted = schema && !parser.isDDL(result) ? getInsertedColumns(result, schema) : null
+    if (!inserted || !inserted.columns) {
+      return []
+    }
+
+    const { schemaTable, columns, tableRef } = inserted
+    return schemaTable.columns
+      .filter(column => {
+        const { autoIncrement, generated } = getColumnDetails(column)
+        // without the details of its definition, an integer primary key is most likely AUTO_INCREMENT
+        const isAutoIncrement = autoIncrement ?? (column.index === 'primary' && column.tsType === 'number')
+        return (
+          !column.optional && column.default === null && !isAutoIncrement && !generated && !columns.includes(column)
+        )
+      })
+      .map(column => ({
+        message: `Column '${column.name}' is NOT NULL and has no default value, so the INSERT must give it a value.`,
+        start: tableRef.start.startIndex,
+        stop: tableRef.stop?.stopIndex || tableRef.start.startIndex,
+        code: DiagnosticCode.MissingRequiredColumn
+      }))
+  }
+}
@@ -0,0 +1,49 @@
+import { MySQLAnalyzerRule, MySQLAnalyzerRuleDiagnostic } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+import { resolveReferences } from '../lib/resolve-references'
+import { getCorrection } from '../lib/autocorrect'
+import { getIdentifierFix } from '../lib/fixes'
+
+export const missingTableRule: MySQLAnalyzerRule = {
+  name: 'missing-table',
+  severity: DiagnosticSeverity.Warning,
+  check({ statement, result, parser, schema, databases }) {
+    const diagnostics: MySQLAnalyzerRuleDiagnostic[] = []
+
+    if (!schema || parser.isDDL(result)) {
+      return diagnostics
+    }
+
+    for (const { tableRef, schemaTable } of resolveReferences(result, schema)) {
+      const { table, schemaReference, start, stop } = tableRef
+      const databaseName = schemaReference ? schemaReference.schema : schema.config.schema
+      // tables of unknown databases are reported by missing-database
+      if (schemaTable || (databases && !databases.includes(databaseName))) {
+        continue
+      }
+
+      // tables of other databases are listed by qualified name (e.g. `otherdb.orders`)
+      const prefix = databaseName === schema.config.schema ? '' : `${databaseName}.`
+      const tableNames = schema.tables
+        .filter(t => t.name.startsWith(prefix) && !t.name.slice(prefix.length).includes('.'))
+        .map(t => t.name.slice(prefix.length))
+      // a schema built from DDL alone has no database name
+      const location = databaseName ? ` in database '${databaseName}'` : ''
+      const messageParts = [`Table '${table}' does not exist${location}.`]
+      const correction = getCorrection(table.toLowerCase(), tableNames)
+      if (correction) {
+        messageParts.push(` Did you mean '${correction}'?`)
+      }
+      const fixes = correction ? [getIdentifierFix(statement.text, start, stop, correction)] : []
+      diagnostics.push({
+        message: messageParts.join(''),
+        start,
+        stop,
+        code: DiagnosticCode.MissingTable,
+        fixes
+      })
+    }
+
+    return diagnostics
+  }
+}
@@ -0,0 +1,31 @@
+import { MySQLAnalyzerRule } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+import { adviseIndexes, NonSargablePredicate } from '../lib/index-advisor'
+
+function getReason(reason: NonSargablePredicate['reason']): string {
+  switch (reason) {
+    case 'expression':
+      return 'it is wrapped in an expression'
+    case 'wildcard':
+      return 'the LIKE pattern starts with a wildcard'
+    case 'conversion':
+      return 'comparing it with a number converts every value'
+  }
+}
+
+export const nonSargablePredicateRule: MySQLAnalyzerRule = {
+  name: 'non-sargable-predicate',
+  severity: DiagnosticSeverity.Suggestion,
+  check({ result, parser, schema }) {
+    if (!schema || parser.isDDL(result)) {
+      return []
+    }
+
+    return adviseIndexes(result, schema).nonSargablePredicates.map(({ column, reason, start, stop }) => ({
+      message: `MySQL can't use an index for column '${column}' because ${getReason(reason)}.`,
+      start,
+      stop,
+      code: DiagnosticCode.NonSargablePredicate
+    }))
+  }
+}
@@ -0,0 +1,57 @@
+import { MySQLAnalyzerRule, MySQLAnalyzerRuleDiagnostic } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+
+export const parameterCountRule: MySQLAnalyzerRule = {
+  name: 'parameter-count',
+  severity: DiagnosticSeverity.Error,
+  check({ statement, parameters }) {
+    const diagnostics: MySQLAnalyzerRuleDiagnostic[] = []
+
+    if (!parameters) {
+      return diagnostics
+    }
+
+    const { placeholders, placeholderCount, valueCount, unusedValueCount, byName } = parameters
+    const countMessage = `Expected ${placeholderCount} ${
+      placeholderCount === 1 ? 'parameter' : 'parameters'
+    }, but got ${valueCount}.`
+
+    for (const { name, index, start, stop, bound } of placeholders) {
+      if (bound) {
+        continue
+      }
+
+      if (name !== null) {
+        diagnostics.push({
+          message: byName
+            ? `No value is bound to parameter ':${name}'.`
+            : `No value is bound to parameter ':${name}', because the values are bound by position.`,
+          start,
+          stop,
+          code: DiagnosticCode.ParameterCountMismatch
+        })
+      } else if (byName) {
+        diagnostics.push({
+          message: `No value is bound to parameter '?', because the values are bound by name.`,
+          start,
+          stop,
+          code: DiagnosticCode.ParameterCountMismatch
+        })
+      } else if (index === valueCount) {
+        // the positional values run out here, so the rest of the placeholders are reported once
+        diagnostics.push({ message: countMessage, start, stop, code: DiagnosticCode.ParameterCountMismatch })
+      }
+    }
+
+    if (unusedValueCount > 0) {
+      diagnostics.push({
+        message: countMessage,
+        start: 0,
+        stop: statement.text.length,
+        code: DiagnosticCode.ParameterCountMismatch
+      })
+    }
+
+    return diagnostics
+  }
+}
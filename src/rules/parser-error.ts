@@ -0,0 +1,22 @@
+import { MySQLAnalyzerRule } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+
+export const parserErrorRule: MySQLAnalyzerRule = {
+  name: 'parser-error',
+  severity: DiagnosticSeverity.Error,
+  check({ result }) {
+    if (!result.parserError) {
+      return []
+    }
+
+    const { offendingToken } = result.parserError.data
+    return [
+      {
+        message: result.parserError.message,
+        start: offendingToken?.startIndex || 0,
+        stop: offendingToken?.stopIndex || 0,
+        code: DiagnosticCode.ParserError
+      }
+    ]
+  }
+}
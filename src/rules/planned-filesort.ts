@@ -0,0 +1,22 @@
+import { MySQLAnalyzerRule } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+import { getExplainedTables } from '../lib/explain-plan'
+
+export const plannedFilesortRule: MySQLAnalyzerRule = {
+  name: 'planned-filesort',
+  severity: DiagnosticSeverity.Warning,
+  check({ statement, result, explain }) {
+    if (!explain || result.parserError) {
+      return []
+    }
+
+    return getExplainedTables(statement.text, result, explain.plan)
+      .filter(table => table.usingFilesort)
+      .map(table => ({
+        message: `The rows read from table '${table.name}' are sorted with a filesort.`,
+        start: table.start,
+        stop: table.stop,
+        code: DiagnosticCode.PlannedFilesort
+      }))
+  }
+}
@@ -0,0 +1,36 @@
+import { MySQLAnalyzerRule } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+import { getTableMigration } from '../lib/migrations'
+
+export const requiredColumnAdditionRule: MySQLAnalyzerRule = {
+  name: 'required-column-addition',
+  severity: DiagnosticSeverity.Warning,
+  check({ result, parser, schema }) {
+    const migration = schema && parser.isDDL(result) ? getTableMigration(result, schema) : null
+    if (!migration) {
+      return []
+    }
+
+    // the rows already in the table get the implicit default of the type (e.g. 0 or ''), or the
+    // statement fails in strict mode for types without one, such as dates
+    return migration.changes.flatMap(change => {
+      if (change.kind !== 'add-column') {
+        return []
+      }
+
+      const { column } = change
+      if (column.optional || column.default !== null || column.autoIncrement || column.generated) {
+        return []
+      }
+
+      return [
+        {
+          message: `Column '${column.name}' is added to table '${migration.table.name}' as NOT NULL without a default value, so existing rows get an implicit value.`,
+          start: change.start,
+          stop: change.stop,
+          code: DiagnosticCode.RequiredColumnWithoutDefault
+        }
+      ]
+    })
+  }
+}
@@ -0,0 +1,39 @@
+import { MySQLAnalyzerRule } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+import { getTableMigration, getCopyingChanges, TableChange } from '../lib/migrations'
+
+function describeChange(change: TableChange): string {
+  switch (change.kind) {
+    case 'change-column':
+      return `Changing the type of column '${change.column.name}'`
+    case 'add-column':
+      return `Adding stored generated column '${change.column.name}'`
+    case 'drop-index':
+      return 'Dropping the primary key without adding another'
+    default:
+      return 'Converting the character set'
+  }
+}
+
+export const tableCopyRule: MySQLAnalyzerRule = {
+  name: 'table-copy',
+  severity: DiagnosticSeverity.Warning,
+  check({ result, parser, schema }) {
+    const migration = schema && parser.isDDL(result) ? getTableMigration(result, schema) : null
+    // a copy that is asked for explicitly is intended
+    if (!migration || migration.algorithm === 'COPY') {
+      return []
+    }
+
+    const { table, algorithm } = migration
+    return getCopyingChanges(migration).map(change => ({
+      message:
+        algorithm === 'INPLACE' || algorithm === 'INSTANT'
+          ? `${describeChange(change)} requires copying table '${table.name}', so ALGORITHM=${algorithm} fails.`
+          : `${describeChange(change)} copies table '${table.name}', which blocks writes to it until the copy is done.`,
+      start: change.start,
+      stop: change.stop,
+      code: DiagnosticCode.TableCopy
+    }))
+  }
+}
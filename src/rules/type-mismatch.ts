@@ -0,0 +1,106 @@
+import { SchemaColumn, TsDataType } from 'ts-mysql-schema'
+import { MySQLAnalyzerRule, MySQLAnalyzerRuleDiagnostic } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+import { resolveReferences } from '../lib/resolve-references'
+import { resolvePlaceholders } from '../lib/resolve-placeholders'
+import { invalidAssignment, getParameterValue } from '../lib/invalid-assignment'
+import { getAssignments, getInsertSource } from '../lib/assignments'
+import { getSelectedColumns } from '../lib/insert-query'
+import { findSchemaTable } from '../lib/databases'
+import { checkExpressions } from '../lib/expression-types'
+
+export const typeMismatchRule: MySQLAnalyzerRule = {
+  name: 'type-mismatch',
+  severity: DiagnosticSeverity.Warning,
+  check({ statement, result, references, parser, schema, parameters }) {
+    const diagnostics: MySQLAnalyzerRuleDiagnostic[] = []
+
+    if (!schema || parser.isDDL(result)) {
+      return diagnostics
+    }
+
+    // values written to columns are paired with their columns by position
+    const assignments = getAssignments(result, schema)
+    for (const { schemaColumn, value } of assignments) {
+      const valueRef = references.valueReferences.find(r => r.start === value.start.startIndex)
+      if (!valueRef || !invalidAssignment(schemaColumn, valueRef)) {
+        continue
+      }
+
+      diagnostics.push({
+        message: `Type ${valueRef.dataType} is not assignable to type ${schemaColumn.tsType}.`,
+        start: valueRef.start,
+        stop: valueRef.stop,
+        code: DiagnosticCode.TypeMismatch
+      })
+    }
+
+    // the columns selected by INSERT ... SELECT are assigned to the inserted columns in order
+    const source = getInsertSource(result)
+    const schemaTable = source && findSchemaTable(schema, source.table)
+    const selectedColumns = source && getSelectedColumns(statement.text, result, source, schema)
+    if (source && schemaTable && selectedColumns) {
+      const targets: (SchemaColumn | null)[] = source.columns
+        ? source.columns.map(name => schemaTable.columns.find(c => c.name === name) || null)
+        : schemaTable.columns
+
+      selectedColumns.forEach(({ column, start, stop }, index) => {
+        const target = targets[index]
+        const tsType = column?.tsType
+        // MySQL converts date strings to dates
+        const isDateString = target?.tsType === TsDataType.DATE && tsType === 'string'
+        if (!target || !tsType || tsType === target.tsType || isDateString) {
+          return
+        }
+
+        diagnostics.push({
+          message: `Type ${tsType} is not assignable to type ${target.tsType}.`,
+          start,
+          stop,
+          code: DiagnosticCode.TypeMismatch
+        })
+      })
+    }
+
+    // comparisons of expressions (e.g. `id = 1`, `friends + 1 = 'x'` or `created = COUNT(*)`)
+    for (const error of checkExpressions(result, schema)) {
+      if (error.kind === 'value') {
+        diagnostics.push({
+          message: `Type ${error.type} is not assignable to type ${error.columnType}.`,
+          start: error.start,
+          stop: error.stop,
+          code: DiagnosticCode.TypeMismatch
+        })
+      } else if (error.kind === 'comparison') {
+        diagnostics.push({
+          message: `Type ${error.type} is not comparable to type ${error.otherType}.`,
+          start: error.start,
+          stop: error.stop,
+          code: DiagnosticCode.TypeMismatch
+        })
+      }
+    }
+
+    if (!parameters) {
+      return diagnostics
+    }
+
+    const resolvedTables = resolveReferences(result, schema)
+    for (const { start, schemaColumn } of resolvePlaceholders(result, resolvedTables)) {
+      const parameter = parameters.placeholders.find(p => p.start === start)
+      const value = parameter?.bound ? getParameterValue(parameter.value) : null
+      if (!parameter || !value || !invalidAssignment(schemaColumn, value)) {
+        continue
+      }
+
+      diagnostics.push({
+        message: `Type ${value.dataType} is not assignable to type ${schemaColumn.tsType}.`,
+        start: parameter.start,
+        stop: parameter.stop,
+        code: DiagnosticCode.TypeMismatch
+      })
+    }
+
+    return diagnostics
+  }
+}
@@ -0,0 +1,31 @@
+import { MySQLAnalyzerRule } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+import { getTableMigration, isNarrowing, formatColumnType } from '../lib/migrations'
+
+export const typeNarrowingRule: MySQLAnalyzerRule = {
+  name: 'type-narrowing',
+  severity: DiagnosticSeverity.Warning,
+  check({ result, parser, schema }) {
+    const migration = schema && parser.isDDL(result) ? getTableMigration(result, schema) : null
+    if (!migration) {
+      return []
+    }
+
+    return migration.changes.flatMap(change => {
+      if (change.kind !== 'change-column' || !isNarrowing(change.column, change.definition)) {
+        return []
+      }
+
+      const type = formatColumnType(change.column)
+      const newType = formatColumnType(change.definition)
+      return [
+        {
+          message: `Changing column '${change.column.name}' from ${type} to ${newType} can truncate or reject its values.`,
+          start: change.start,
+          stop: change.stop,
+          code: DiagnosticCode.NarrowedColumnType
+        }
+      ]
+    })
+  }
+}
@@ -0,0 +1,21 @@
+import { MySQLAnalyzerRule } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+import { getWriteStatement, getUnconditionedTables } from '../lib/write-statements'
+
+export const unconditionedJoinRule: MySQLAnalyzerRule = {
+  name: 'unconditioned-join',
+  severity: DiagnosticSeverity.Warning,
+  check({ result }) {
+    const write = getWriteStatement(result)
+    if (!write) {
+      return []
+    }
+
+    return getUnconditionedTables(write).map(({ name, node }) => ({
+      message: `Table '${name}' is joined without a condition, so the ${write.keyword} applies to every combination of rows.`,
+      start: node.start.startIndex,
+      stop: node.stop?.stopIndex || node.start.startIndex,
+      code: DiagnosticCode.UnconditionedJoin
+    }))
+  }
+}
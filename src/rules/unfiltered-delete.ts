@@ -0,0 +1,23 @@
+import { MySQLAnalyzerRule } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+import { getWriteStatement, changesEveryRow } from '../lib/write-statements'
+
+export const unfilteredDeleteRule: MySQLAnalyzerRule = {
+  name: 'unfiltered-delete',
+  severity: DiagnosticSeverity.Warning,
+  check({ statement, result }) {
+    const write = getWriteStatement(result)
+    if (!write || write.keyword !== 'DELETE' || !changesEveryRow(write)) {
+      return []
+    }
+
+    return [
+      {
+        message: `DELETE without a WHERE clause deletes every row of table '${write.table}'.`,
+        start: 0,
+        stop: statement.text.length,
+        code: DiagnosticCode.UnfilteredDelete
+      }
+    ]
+  }
+}
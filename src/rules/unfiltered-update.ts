@@ -0,0 +1,23 @@
+import { MySQLAnalyzerRule } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+import { getWriteStatement, changesEveryRow } from '../lib/write-statements'
+
+export const unfilteredUpdateRule: MySQLAnalyzerRule = {
+  name: 'unfiltered-update',
+  severity: DiagnosticSeverity.Warning,
+  check({ statement, result }) {
+    const write = getWriteStatement(result)
+    if (!write || write.keyword !== 'UPDATE' || !changesEveryRow(write)) {
+      return []
+    }
+
+    return [
+      {
+        message: `UPDATE without a WHERE clause changes every row of table '${write.table}'.`,
+        start: 0,
+        stop: statement.text.length,
+        code: DiagnosticCode.UnfilteredUpdate
+      }
+    ]
+  }
+}
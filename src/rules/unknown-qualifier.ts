@@ -0,0 +1,48 @@
+import { MySQLAnalyzerRule, MySQLAnalyzerRuleDiagnostic } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+import { resolveScopes } from '../lib/scopes'
+import { getCorrection } from '../lib/autocorrect'
+import { getIdentifierFix } from '../lib/fixes'
+
+export const unknownQualifierRule: MySQLAnalyzerRule = {
+  name: 'unknown-qualifier',
+  severity: DiagnosticSeverity.Warning,
+  check({ statement, result, parser, schema }) {
+    const diagnostics: MySQLAnalyzerRuleDiagnostic[] = []
+
+    if (!schema || parser.isDDL(result)) {
+      return diagnostics
+    }
+
+    for (const { name, start, stop, tables, aliasedTable } of resolveScopes(result, schema).unknownQualifiers) {
+      if (aliasedTable) {
+        diagnostics.push({
+          message: `Table '${name}' is aliased as '${aliasedTable.name}', so it must be referred to by its alias.`,
+          start,
+          stop,
+          code: DiagnosticCode.UnknownQualifier,
+          fixes: [getIdentifierFix(statement.text, start, stop, aliasedTable.name)]
+        })
+        continue
+      }
+
+      const messageParts = [`Table or alias '${name}' is not part of the query.`]
+      const correction = getCorrection(
+        name.toLowerCase(),
+        tables.map(table => table.name)
+      )
+      if (correction) {
+        messageParts.push(` Did you mean '${correction}'?`)
+      }
+      diagnostics.push({
+        message: messageParts.join(''),
+        start,
+        stop,
+        code: DiagnosticCode.UnknownQualifier,
+        fixes: correction ? [getIdentifierFix(statement.text, start, stop, correction)] : []
+      })
+    }
+
+    return diagnostics
+  }
+}
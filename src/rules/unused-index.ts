@@ -0,0 +1,36 @@
+import { MySQLAnalyzerRule } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+import { getExplainedTables } from '../lib/explain-plan'
+
+/** Formats a list of indexes for a message (e.g. `index 'a'`, or `indexes 'a' or 'b'`) */
+function formatIndexList(indexes: string[]): string {
+  const quoted = indexes.map(index => `'${index}'`)
+  if (quoted.length === 1) {
+    return `index ${quoted[0]}`
+  }
+  return `indexes ${quoted.slice(0, -1).join(', ')} or ${quoted[quoted.length - 1]}`
+}
+
+export const unusedIndexRule: MySQLAnalyzerRule = {
+  name: 'unused-index',
+  severity: DiagnosticSeverity.Warning,
+  check({ statement, result, explain }) {
+    if (!explain || result.parserError) {
+      return []
+    }
+
+    return getExplainedTables(statement.text, result, explain.plan)
+      .filter(
+        table =>
+          table.accessType === 'ALL' && (table.rowsExamined ?? 0) >= explain.rowsThreshold && table.possibleKeys.length
+      )
+      .map(table => ({
+        message: `Table '${table.name}' is read in full (about ${
+          table.rowsExamined
+        } rows) instead of with ${formatIndexList(table.possibleKeys)}.`,
+        start: table.start,
+        stop: table.stop,
+        code: DiagnosticCode.UnusedIndex
+      }))
+  }
+}
@@ -0,0 +1,33 @@
+import { MySQLAnalyzerRule, MySQLAnalyzerRuleDiagnostic } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+import { getInvalidColumnValues } from '../lib/column-values'
+
+export const valueOutOfRangeRule: MySQLAnalyzerRule = {
+  name: 'value-out-of-range',
+  severity: DiagnosticSeverity.Warning,
+  check({ result, parser, schema, parameters }) {
+    const diagnostics: MySQLAnalyzerRuleDiagnostic[] = []
+
+    if (!schema || parser.isDDL(result)) {
+      return diagnostics
+    }
+
+    for (const { schemaColumn, value, invalidValue, start, stop } of getInvalidColumnValues(
+      result,
+      schema,
+      parameters?.placeholders
+    )) {
+      if (invalidValue.kind === 'range') {
+        const { min, max } = invalidValue
+        diagnostics.push({
+          message: `Value ${value.value} is out of range for column '${schemaColumn.name}' (${min} to ${max}).`,
+          start,
+          stop,
+          code: DiagnosticCode.ValueOutOfRange
+        })
+      }
+    }
+
+    return diagnostics
+  }
+}
@@ -0,0 +1,33 @@
+import { MySQLAnalyzerRule, MySQLAnalyzerRuleDiagnostic } from './'
+import { DiagnosticSeverity, DiagnosticCode } from '../diagnostic'
+import { getInvalidColumnValues } from '../lib/column-values'
+
+export const valueTooLongRule: MySQLAnalyzerRule = {
+  name: 'value-too-long',
+  severity: DiagnosticSeverity.Warning,
+  check({ result, parser, schema, parameters }) {
+    const diagnostics: MySQLAnalyzerRuleDiagnostic[] = []
+
+    if (!schema || parser.isDDL(result)) {
+      return diagnostics
+    }
+
+    for (const { schemaColumn, invalidValue, start, stop } of getInvalidColumnValues(
+      result,
+      schema,
+      parameters?.placeholders
+    )) {
+      if (invalidValue.kind === 'length') {
+        const { actualLength, unit, length } = invalidValue
+        diagnostics.push({
+          message: `Value is ${actualLength} ${unit} long, but column '${schemaColumn.name}' allows at most ${length}.`,
+          start,
+          stop,
+          code: DiagnosticCode.ValueTooLong
+        })
+      }
+    }
+
+    return diagnostics
+  }
+}
@@ -0,0 +1,393 @@
+#!/usr/bin/env node
+import { promises as fs } from 'fs'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import MySQLParser, { ParserOptions } from 'ts-mysql-parser'
+import { MySQLAnalyzer } from './'
+import { MySQLAnalyzerDiagnostic, DiagnosticSeverity } from './diagnostic'
+import { MySQLAnalyzerRulesConfig } from './rules'
+import { loadSchema } from './lib/load-schema'
+import { QueryExtractorOptions, isSourceFile } from './lib/extract-queries'
+import { getLineStarts, getLineAndColumn } from './lib/position'
+import { Completion } from './lib/completions'
+import { Hover, HoverColumn } from './lib/hover'
+import { formatSQL } from './lib/format-sql'
+import { JSONRPCConnection, JSONRPCError, JSONRPCErrorCode } from './lib/json-rpc'
+
+/** Represents the workspace configuration file of the language server */
+export interface ServerConfig extends QueryExtractorOptions {
+  /** The schema to check queries against: a mysql:// URI, a .json schema snapshot or a DDL file */
+  readonly schema?: string
+  /** The database queries refer to until a `USE` statement selects another */
+  readonly database?: string
+  /** The options passed to the MySQL parser, e.g. `{ "version": "8.0.23" }` */
+  readonly parserOptions?: ParserOptions
+  /** The configuration of rules by name */
+  readonly rules?: MySQLAnalyzerRulesConfig
+  /** Whether the DDL of a document changes the schema its later queries are checked against */
+  readonly applyDDL?: boolean
+}
+
+/** The name of the configuration file, which is read from the root of the workspace */
+export const configFileName = 'mysql-analyzer.json'
+
+interface Position {
+  readonly line: number
+  readonly character: number
+}
+
+interface Range {
+  readonly start: Position
+  readonly end: Position
+}
+
+interface TextEdit {
+  readonly range: Range
+  readonly newText: string
+}
+
+interface TextDocumentItem {
+  readonly uri: string
+  readonly text: string
+}
+
+interface TextDocumentPositionParams {
+  readonly textDocument: { readonly uri: string }
+  readonly position: Position
+}
+
+interface InitializeParams {
+  readonly rootUri?: string | null
+  readonly rootPath?: string | null
+}
+
+interface Diagnostic {
+  readonly range: Range
+  readonly severity: number
+  readonly code: number
+  readonly source: string
+  readonly message: string
+}
+
+interface CodeActionParams {
+  readonly textDocument: { readonly uri: string }
+  readonly range: Range
+}
+
+// the values of the DiagnosticSeverity, CompletionItemKind and MessageType enums of the protocol
+const lspSeverities = {
+  [DiagnosticSeverity.Error]: 1,
+  [DiagnosticSeverity.Warning]: 2,
+  [DiagnosticSeverity.Suggestion]: 4
+}
+const completionKinds: { readonly [kind in Completion['kind']]: number } = {
+  keyword: 14,
+  database: 9,
+  table: 7,
+  alias: 6,
+  column: 5
+}
+const errorMessageType = 1
+
+/** Represents an open document, whose line starts are kept to convert positions */
+class TextDocument {
+  public readonly lineStarts: number[]
+
+  public constructor(public readonly uri: string, public readonly text: string) {
+    this.lineStarts = getLineStarts(text)
+  }
+
+  /** The path of the document, which tells whether it is SQL or has embedded queries */
+  public get fileName(): string {
+    return this.uri.startsWith('file:') ? fileURLToPath(this.uri) : this.uri
+  }
+
+  public getPosition(offset: number): Position {
+    const { line, column } = getLineAndColumn(this.lineStarts, Math.min(offset, this.text.length))
+    return { line: line - 1, character: column - 1 }
+  }
+
+  public getOffset({ line, character }: Position): number {
+    if (line >= this.lineStarts.length) {
+      return this.text.length
+    }
+    const lineEnd = line + 1 < this.lineStarts.length ? this.lineStarts[line + 1] : this.text.length
+    return Math.min(this.lineStarts[line] + character, lineEnd)
+  }
+
+  public getRange(start: number, stop: number): Range {
+    return { start: this.getPosition(start), end: this.getPosition(stop) }
+  }
+}
+
+function formatColumn(column: HoverColumn): string {
+  const nullability = column.nullable ? 'NULL' : 'NOT NULL'
+  const defaultValue = column.default === null ? '' : ` DEFAULT ${column.default}`
+  return `${column.name} ${column.sqlType} ${nullability}${defaultValue}`
+}
+
+/** Renders a hover as Markdown, with the definitions of columns as SQL */
+function formatHover(hover: Hover): string {
+  if (hover.kind === 'column') {
+    const { table, column } = hover
+    const indexes = column.indexes.length ? `\n\nIndexes: ${column.indexes.map(name => `\`${name}\``).join(', ')}` : ''
+    return `\`\`\`sql\n${table}.${formatColumn(column)}\n\`\`\`${indexes}`
+  }
+
+  const columns = hover.columns ? hover.columns.map(column => `  ${formatColumn(column)}`).join(',\n') : '  ...'
+  return `\`\`\`sql\n${hover.table} (\n${columns}\n)\n\`\`\``
+}
+
+/** A language server for the MySQL queries of .sql files, and of TypeScript and JavaScript files */
+class MySQLLanguageServer {
+  private readonly documents = new Map<string, TextDocument>()
+  private config: ServerConfig = {}
+  private analyzer = new MySQLAnalyzer()
+  private parser = new MySQLParser()
+
+  public constructor(private readonly connection: JSONRPCConnection) {}
+
+  /** Reads the configuration file of the workspace and loads its schema, reporting problems to the user */
+  public async initialize(params: InitializeParams): Promise<void> {
+    const root = params.rootUri ? fileURLToPath(params.rootUri) : params.rootPath
+    if (!root) {
+      return
+    }
+
+    const configFile = path.join(root, configFileName)
+    try {
+      this.config = JSON.parse(await fs.readFile(configFile, 'utf8'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.showError(`Failed to read '${configFile}': ${(error as Error).message}`)
+      }
+      return
+    }
+
+    const { schema: source, database, parserOptions, rules, applyDDL } = this.config
+    try {
+      const schemaSource = source && !/^mysqlx?:\/\//i.test(source) ? path.resolve(root, source) : source
+      const schema = schemaSource ? await loadSchema(schemaSource, { parserOptions }) : undefined
+      this.analyzer = new MySQLAnalyzer({ schema, database, parserOptions, rules, applyDDL })
+      this.parser = new MySQLParser(parserOptions)
+    } catch (error) {
+      this.showError(`Failed to configure the analyzer: ${(error as Error).message}`)
+    }
+  }
+
+  public open(item: TextDocumentItem): void {
+    this.documents.set(item.uri, new TextDocument(item.uri, item.text))
+    this.publishDiagnostics(item.uri)
+  }
+
+  public change(uri: string, text: string): void {
+    this.documents.set(uri, new TextDocument(uri, text))
+    this.publishDiagnostics(uri)
+  }
+
+  public close(uri: string): void {
+    this.documents.delete(uri)
+    this.connection.sendNotification('textDocument/publishDiagnostics', { uri, diagnostics: [] })
+  }
+
+  public getCompletions({ textDocument, position }: TextDocumentPositionParams): object[] {
+    const document = this.getSQLDocument(textDocument.uri)
+    if (!document) {
+      return []
+    }
+    return this.analyzer.getCompletions(document.text, document.getOffset(position)).map(completion => ({
+      label: completion.label,
+      kind: completionKinds[completion.kind],
+      ...(completion.detail !== null && { detail: completion.detail })
+    }))
+  }
+
+  public getHover({ textDocument, position }: TextDocumentPositionParams): object | null {
+    const document = this.getSQLDocument(textDocument.uri)
+    const hover = document && this.analyzer.getHover(document.text, document.getOffset(position))
+    if (!document || !hover) {
+      return null
+    }
+    return {
+      contents: { kind: 'markdown', value: formatHover(hover) },
+      range: document.getRange(hover.start, hover.stop + 1)
+    }
+  }
+
+  /** Gets a quick fix for every fix of the diagnostics in a range that edits the document */
+  public getCodeActions({ textDocument, range }: CodeActionParams): object[] {
+    const document = this.getDocument(textDocument.uri)
+    const start = document.getOffset(range.start)
+    const end = document.getOffset(range.end)
+
+    const actions: object[] = []
+    for (const diagnostic of this.analyze(document)) {
+      if (diagnostic.start > end || diagnostic.stop + 1 < start) {
+        continue
+      }
+      for (const fix of diagnostic.fixes || []) {
+        if (fix.edits.length === 0) {
+          continue
+        }
+        const edits: TextEdit[] = fix.edits.map(edit => ({
+          range: document.getRange(edit.start, edit.stop),
+          newText: edit.text
+        }))
+        actions.push({
+          title: fix.message,
+          kind: 'quickfix',
+          diagnostics: [this.toDiagnostic(document, diagnostic)],
+          edit: { changes: { [document.uri]: edits } }
+        })
+      }
+    }
+    return actions
+  }
+
+  /** Formats a SQL document, replacing all of its text */
+  public format(uri: string): TextEdit[] {
+    const document = this.getSQLDocument(uri)
+    if (!document) {
+      return []
+    }
+    const formatted = formatSQL(document.text, this.parser)
+    return formatted === document.text
+      ? []
+      : [{ range: document.getRange(0, document.text.length), newText: formatted }]
+  }
+
+  private getDocument(uri: string): TextDocument {
+    const document = this.documents.get(uri)
+    if (!document) {
+      throw new JSONRPCError(JSONRPCErrorCode.InternalError, `Document '${uri}' is not open.`)
+    }
+    return document
+  }
+
+  /** Gets a SQL document, or null for a document with embedded queries, which has no SQL features */
+  private getSQLDocument(uri: string): TextDocument | null {
+    const document = this.getDocument(uri)
+    return isSourceFile(document.fileName) ? null : document
+  }
+
+  private analyze(document: TextDocument): MySQLAnalyzerDiagnostic[] {
+    return isSourceFile(document.fileName)
+      ? this.analyzer.analyzeSourceFile(document.fileName, document.text, this.config)
+      : this.analyzer.analyze(document.text)
+  }
+
+  private toDiagnostic(document: TextDocument, diagnostic: MySQLAnalyzerDiagnostic): Diagnostic {
+    return {
+      range: document.getRange(diagnostic.start, diagnostic.stop + 1),
+      severity: lspSeverities[diagnostic.severity],
+      code: diagnostic.code,
+      source: 'mysql-analyzer',
+      message: diagnostic.message
+    }
+  }
+
+  private publishDiagnostics(uri: string): void {
+    const document = this.getDocument(uri)
+    const diagnostics = this.analyze(document).map(diagnostic => this.toDiagnostic(document, diagnostic))
+    this.connection.sendNotification('textDocument/publishDiagnostics', { uri, diagnostics })
+  }
+
+  private showError(message: string): void {
+    this.connection.sendNotification('window/showMessage', { type: errorMessageType, message })
+  }
+}
+
+/**
+ * Runs the language server on a pair of streams, e.g. stdin and stdout.
+ *
+ * @param input - the stream the client writes messages to
+ * @param output - the stream the server writes messages to
+ * @returns the exit code, once the client sends `exit`: 0 if it sent `shutdown` first, 1 otherwise
+ */
+export function runServer(input: NodeJS.ReadableStream, output: NodeJS.WritableStream): Promise<number> {
+  const connection = new JSONRPCConnection(input, output)
+  const server = new MySQLLanguageServer(connection)
+  // the schema is loaded while initializing, so the messages that arrive meanwhile wait for it, in order
+  let initialization: Promise<void> | null = null
+  let shutdown = false
+
+  function onRequest<P, R>(method: string, handler: (params: P) => R): void {
+    connection.onRequest<P, R>(method, params => {
+      if (!initialization) {
+        throw new JSONRPCError(JSONRPCErrorCode.ServerNotInitialized, 'The server is not initialized.')
+      }
+      return initialization.then(() => handler(params))
+    })
+  }
+
+  // notifications before initialize are dropped, as the protocol asks
+  function onNotification<P>(method: string, handler: (params: P) => void): void {
+    connection.onNotification<P>(method, params => {
+      initialization
+        ?.then(() => handler(params))
+        .catch(error => connection.sendNotification('window/logMessage', { type: 1, message: error.message }))
+    })
+  }
+
+  connection.onRequest('initialize', async (params: InitializeParams) => {
+    initialization = server.initialize(params)
+    await initialization
+    return {
+      capabilities: {
+        // documents are synchronized by sending their full text
+        textDocumentSync: 1,
+        completionProvider: { triggerCharacters: ['.', ' '] },
+        hoverProvider: true,
+        codeActionProvider: { codeActionKinds: ['quickfix'] },
+        documentFormattingProvider: true
+      },
+      serverInfo: { name: 'ts-mysql-analyzer' }
+    }
+  })
+  onRequest('shutdown', () => {
+    shutdown = true
+    return null
+  })
+  onRequest('textDocument/completion', (params: TextDocumentPositionParams) => server.getCompletions(params))
+  onRequest('textDocument/hover', (params: TextDocumentPositionParams) => server.getHover(params))
+  onRequest('textDocument/codeAction', (params: CodeActionParams) => server.getCodeActions(params))
+  onRequest('textDocument/formatting', (params: { textDocument: { uri: string } }) =>
+    server.format(params.textDocument.uri)
+  )
+
+  onNotification('textDocument/didOpen', (params: { textDocument: TextDocumentItem }) =>
+    server.open(params.textDocument)
+  )
+  onNotification(
+    'textDocument/didChange',
+    (params: { textDocument: { uri: string }; contentChanges: { text: string }[] }) => {
+      const change = params.contentChanges[params.contentChanges.length - 1]
+      if (change) {
+        server.change(params.textDocument.uri, change.text)
+      }
+    }
+  )
+  onNotification('textDocument/didClose', (params: { textDocument: { uri: string } }) =>
+    server.close(params.textDocument.uri)
+  )
+
+  return new Promise(resolve => {
+    connection.onNotification('exit', () => {
+      const ready = initialization || Promise.resolve()
+      // a server that failed to initialize exits as if it was not shut down
+      ready.then(
+        () => resolve(shutdown ? 0 : 1),
+        () => resolve(1)
+      )
+    })
+    connection.listen()
+  })
+}
+
+if (require.main === module) {
+  runServer(process.stdin, process.stdout).then(code => {
+    // the process ends once the responses that are still pending are written
+    process.exitCode = code
+    process.stdin.destroy()
+  })
+}